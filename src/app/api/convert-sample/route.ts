@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { convertWavToSP1200Format, diskBuilder, SP1200PadAssignment } from '@/app/lib/sp1200'
+import { convertWavToSP1200WithLevels, diskBuilder, SP1200PadAssignment } from '@/app/lib/sp1200'
+import { RESAMPLE_QUALITIES, ResampleQuality } from '@/lib/resampler'
 
 // SP-1200 constants
 const SP1200_HEADER_SIZE = 128
@@ -139,6 +140,10 @@ export async function POST(req: NextRequest) {
     const padNumber = formData.get('padNumber') ? parseInt(formData.get('padNumber') as string) : null
     const tuning = parseInt(formData.get('tuning') as string || '0')
     const createDisk = formData.get('createDisk') === 'true'
+    const quality = (formData.get('quality') as string | null) || 'authentic'
+    // One-based source channel, mixed down when absent
+    const channelField = formData.get('channel') as string | null
+    const channel = channelField ? parseInt(channelField) - 1 : 'mix'
 
     // If createDisk is true and no file is provided, create disk image from existing samples
     if (createDisk && !file) {
@@ -156,14 +161,23 @@ export async function POST(req: NextRequest) {
       return new NextResponse('Missing required fields', { status: 400 })
     }
 
+    if (!RESAMPLE_QUALITIES.includes(quality as ResampleQuality)) {
+      return new NextResponse(`Invalid resampling quality: ${quality}`, { status: 400 })
+    }
+    if (channel !== 'mix' && !(channel >= 0)) {
+      return new NextResponse(`Invalid channel: ${channelField}`, { status: 400 })
+    }
+
     console.log('Processing file:', file.name, 'Size:', file.size, 'Type:', file.type)
     
     const buffer = await file.arrayBuffer()
     console.log('Buffer size:', buffer.byteLength)
     
     // Convert WAV to SP-1200 format
-    const sp1200Data = convertWavToSP1200Format(buffer, tuning)
+    const { data: sp1200Data, levels } = convertWavToSP1200WithLevels(buffer, tuning, quality as ResampleQuality, channel)
     console.log('SP-1200 data size:', sp1200Data.length)
+    // Input and output levels of this sample, as JSON, on either response
+    const levelHeaders = { 'X-Level-Report': JSON.stringify(levels) }
     
     // Add to disk builder
     diskBuilder.addSample({
@@ -189,7 +203,8 @@ export async function POST(req: NextRequest) {
       return new NextResponse(diskImage, {
         headers: {
           'Content-Type': 'application/octet-stream',
-          'Content-Disposition': 'attachment; filename="sp1200_disk.sp12"'
+          'Content-Disposition': 'attachment; filename="sp1200_disk.sp12"',
+          ...levelHeaders
         }
       })
     } else {
@@ -197,7 +212,8 @@ export async function POST(req: NextRequest) {
       return new NextResponse(sp1200Data, {
         headers: {
           'Content-Type': 'application/octet-stream',
-          'Content-Disposition': `attachment; filename="${file.name}.sp12"`
+          'Content-Disposition': `attachment; filename="${file.name}.sp12"`,
+          ...levelHeaders
         }
       })
     }
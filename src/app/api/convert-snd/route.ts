@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { convertBatchToZip } from '@/lib/batchConverter'
+import { RESAMPLE_QUALITIES, ResampleQuality } from '@/lib/resampler'
+import { LibraryFile } from '@/lib/sampleLibrary'
+
+const SND_SAMPLE_RATES = [44100, 22050]
+
+// Convert WAV/AIFF files (or zips of them) to SND in one go. Form fields:
+//   files        one or more WAV, AIFF or zip files
+//   sampleRate   44100 (default) or 22050
+//   quality      high (default), fast or authentic
+//   stereo       'true' to keep stereo sources as -L/-R pairs
+//   maxSeconds   cut longer sources to this length
+//   channel      convert only this one-based source channel
+//   programName  name of the generated .pgm, BATCH by default
+//   detectPitch  'true' to set root notes and tuning from each source's pitch
+// Responds with a zip of the SNDs, the program and report.json, which holds
+// each SND's input and output levels and any detected pitch.
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData()
+    const files = formData.getAll('files').filter((entry): entry is File => typeof entry !== 'string')
+    const sampleRate = parseInt(formData.get('sampleRate') as string || '44100')
+    const quality = (formData.get('quality') as string | null) || 'high'
+    const stereo = formData.get('stereo') === 'true'
+    const detectPitch = formData.get('detectPitch') === 'true'
+    const maxSecondsField = formData.get('maxSeconds') as string | null
+    const maxSeconds = maxSecondsField ? parseFloat(maxSecondsField) : undefined
+    const programName = (formData.get('programName') as string | null) || undefined
+    const channelField = formData.get('channel') as string | null
+    const channel = channelField ? parseInt(channelField) - 1 : undefined
+
+    if (files.length === 0) {
+      return new NextResponse('No files provided', { status: 400 })
+    }
+    if (!SND_SAMPLE_RATES.includes(sampleRate)) {
+      return new NextResponse(`Invalid sample rate: ${sampleRate}`, { status: 400 })
+    }
+    if (!RESAMPLE_QUALITIES.includes(quality as ResampleQuality)) {
+      return new NextResponse(`Invalid resampling quality: ${quality}`, { status: 400 })
+    }
+    if (maxSeconds !== undefined && !(maxSeconds > 0)) {
+      return new NextResponse(`Invalid maximum length: ${maxSecondsField}`, { status: 400 })
+    }
+    if (channel !== undefined && !(channel >= 0)) {
+      return new NextResponse(`Invalid channel: ${channelField}`, { status: 400 })
+    }
+
+    const sources: LibraryFile[] = await Promise.all(files.map(async file => ({
+      name: file.name,
+      data: await file.arrayBuffer(),
+    })))
+    const { zip, report } = await convertBatchToZip(sources, {
+      sampleRate,
+      quality: quality as ResampleQuality,
+      stereo,
+      maxSeconds,
+      channel,
+      programName,
+      detectPitch,
+    })
+
+    if (report.converted === 0) {
+      const errors = report.files.map(entry => `${entry.source}: ${entry.error ?? 'no audio'}`)
+      return new NextResponse(`No files could be converted\n${errors.join('\n')}`, { status: 422 })
+    }
+
+    return new NextResponse(zip, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${report.programName}.zip"`
+      }
+    })
+  } catch (error) {
+    console.error('Error converting batch:', error)
+    return new NextResponse(error instanceof Error ? error.message : 'Unknown error', {
+      status: 500
+    })
+  }
+}
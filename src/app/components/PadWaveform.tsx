@@ -0,0 +1,17 @@
+'use client'
+
+import { useMemo } from 'react'
+import { sp1200DataToFloat } from '@/app/lib/sp1200'
+import { buildPeakCache } from '@/lib/peakCache'
+import Waveform from '@/components/Waveform'
+
+interface PadWaveformProps {
+  data: Uint8Array
+}
+
+// Thumbnail of an assigned pad's sample; the peaks are built once per sample
+export default function PadWaveform({ data }: PadWaveformProps) {
+  const peaks = useMemo(() => buildPeakCache([sp1200DataToFloat(data)]), [data])
+
+  return <Waveform peaks={peaks} height={20} color="#a1a1aa" controls={false} className="w-full" />
+}
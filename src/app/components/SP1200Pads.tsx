@@ -4,12 +4,14 @@ import { useState, useEffect } from 'react'
 import { diskBuilder, SP1200Bank } from '@/app/lib/sp1200'
 import { Button } from '@/components/ui/button'
 import { Save } from 'lucide-react'
+import PadWaveform from './PadWaveform'
 
 export default function SP1200Pads() {
   const [assignments, setAssignments] = useState<Array<{
     bank: SP1200Bank
     padNumber: number
     name: string
+    data: Uint8Array
   }>>([])
 
   useEffect(() => {
@@ -20,7 +22,8 @@ export default function SP1200Pads() {
     setAssignments(diskBuilder.getPadAssignments().map(a => ({
       bank: a.bank,
       padNumber: a.padNumber,
-      name: a.name
+      name: a.name,
+      data: a.data
     })))
   }
 
@@ -65,7 +68,7 @@ export default function SP1200Pads() {
                   <div
                     key={`${bank}${pad}`}
                     className={`
-                      h-24 flex flex-col items-center justify-center
+                      h-28 flex flex-col items-center justify-center
                       rounded-lg p-4 transition-colors duration-200
                       ${assignment 
                         ? 'bg-zinc-700' 
@@ -75,6 +78,7 @@ export default function SP1200Pads() {
                     <span className="text-lg font-bold mb-1">
                       {bank}{pad}
                     </span>
+                    {assignment && <PadWaveform data={assignment.data} />}
                     <span className="text-xs text-gray-400 truncate w-full text-center">
                       {assignment ? assignment.name : 'Empty'}
                     </span>
@@ -1,13 +1,31 @@
 'use client'
 
-import { useCallback, useState } from 'react'
+import { useCallback, useMemo, useRef, useState } from 'react'
 import { useDropzone, FileRejection } from 'react-dropzone'
-import { diskBuilder, convertWavToSP1200Format, SP1200Bank, SP1200_MAX_SECONDS } from '@/app/lib/sp1200'
+import {
+  diskBuilder,
+  convertSlicesToSP1200Pads,
+  convertWavToSP1200WithLevels,
+  sp1200DataToFloat,
+  SP1200Bank,
+  SP1200_BANKS,
+  SP1200_MAX_PADS,
+  SP1200_MAX_SECONDS,
+  SP1200_SAMPLE_RATE,
+} from '@/app/lib/sp1200'
+import { RESAMPLE_QUALITIES, RESAMPLE_QUALITY_NAMES, ResampleQuality } from '@/lib/resampler'
+import { ChannelSelection, decodeAudio, DecodedAudio, selectChannel } from '@/lib/audioDecoder'
 import { Upload, X, Grip, Play, Pause, Download, Save, AlertCircle, Info } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import PadWaveform from './PadWaveform'
+import SpectrumAnalyzer, { SpectrumTrace } from '@/components/SpectrumAnalyzer'
+import LevelReportTable from '@/components/LevelReportTable'
+import BreakChopper from '@/components/BreakChopper'
+import { ConversionLevels } from '@/lib/levelAnalysis'
+import { SliceRange } from '@/lib/onsetDetection'
 
 interface SampleUploadProps {
   onAssignmentsChange?: () => void
@@ -17,15 +35,25 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
   const [selectedBank, setSelectedBank] = useState<SP1200Bank>('A')
   const [selectedPad, setSelectedPad] = useState(1)
   const [tuning, setTuning] = useState(0)
+  const [quality, setQuality] = useState<ResampleQuality>('authentic')
+  const [channel, setChannel] = useState<ChannelSelection>('mix')
   const [dragOverPad, setDragOverPad] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isTruncated, setIsTruncated] = useState(false)
   const [showWavHelp, setShowWavHelp] = useState(false)
+  const [analyzedPad, setAnalyzedPad] = useState<string | null>(null)
+  // Levels of the last file converted, before and after
+  const [levelReport, setLevelReport] = useState<{ name: string, levels: ConversionLevels } | null>(null)
+  // Each pad's source before conversion, for comparing in the spectrum
+  const sourcesRef = useRef(new Map<string, SpectrumTrace>())
+  // A break to chop onto pads from the selected one on
+  const [chopSource, setChopSource] = useState<{ audio: DecodedAudio, buffer: ArrayBuffer, name: string } | null>(null)
 
   const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
     // Clear previous messages
     setError(null)
     setIsTruncated(false)
+    setLevelReport(null)
     
     if (fileRejections.length > 0) {
       setError(`File rejected: ${fileRejections[0].errors[0].message}`);
@@ -35,8 +63,8 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
     for (const file of acceptedFiles) {
       try {
         // Verify file MIME type
-        if (!file.type.includes('audio/wav') && !file.type.includes('audio/x-wav')) {
-          setError(`Invalid file type: ${file.type}. Only WAV files are supported.`);
+        if (!/audio\/(x-)?(wav|aiff)/.test(file.type) && !/\.(wav|aiff?)$/i.test(file.name)) {
+          setError(`Invalid file type: ${file.type}. Only WAV and AIFF files are supported.`);
           continue;
         }
         
@@ -61,7 +89,16 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
         }
         
         try {
-          const convertedData = convertWavToSP1200Format(buffer, tuning)
+          const { data: convertedData, levels } = convertWavToSP1200WithLevels(buffer, tuning, quality, channel)
+          setLevelReport({ name: file.name, levels })
+          const source = decodeAudio(buffer)
+          sourcesRef.current.set(`${selectedBank}${selectedPad}`, {
+            label: 'Source',
+            samples: selectChannel(source.channels, channel)
+              .slice(0, Math.floor(SP1200_MAX_SECONDS * source.sampleRate)),
+            sampleRate: source.sampleRate,
+            color: '#f59e0b',
+          })
           
           // Add sample to disk builder
           diskBuilder.addSample({
@@ -95,12 +132,13 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
         setError(error.message || 'Error processing WAV file')
       }
     }
-  }, [selectedBank, selectedPad, tuning, onAssignmentsChange])
+  }, [selectedBank, selectedPad, tuning, quality, channel, onAssignmentsChange])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'audio/wav': ['.wav']
+      'audio/wav': ['.wav'],
+      'audio/aiff': ['.aif', '.aiff']
     },
     maxSize: 10 * 1024 * 1024, // 10MB
     multiple: true
@@ -128,9 +166,57 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
 
   const handleRemoveSample = useCallback((bank: SP1200Bank, pad: number) => {
     diskBuilder.removeSample(bank, pad)
+    sourcesRef.current.delete(`${bank}${pad}`)
+    setAnalyzedPad(current => current === `${bank}${pad}` ? null : current)
     onAssignmentsChange?.()
   }, [onAssignmentsChange])
 
+  const handleChopFile = useCallback(async (file: File | undefined) => {
+    setError(null)
+    if (!file) return
+    try {
+      const buffer = await file.arrayBuffer()
+      setChopSource({ audio: decodeAudio(buffer), buffer, name: file.name })
+    } catch (error: any) {
+      console.error('Error reading break:', error)
+      setChopSource(null)
+      setError(`Error reading "${file.name}": ${error.message}`)
+    }
+  }, [])
+
+  const handleChop = useCallback((slices: SliceRange[]) => {
+    if (!chopSource) return
+    setError(null)
+    setIsTruncated(false)
+    setLevelReport(null)
+    try {
+      const assignments = convertSlicesToSP1200Pads(
+        chopSource.buffer,
+        chopSource.name,
+        slices,
+        { bank: selectedBank, padNumber: selectedPad },
+        tuning,
+        quality,
+        channel
+      )
+      const source = selectChannel(chopSource.audio.channels, channel)
+      assignments.forEach(({ levels, truncated, ...assignment }, i) => {
+        diskBuilder.addSample(assignment)
+        sourcesRef.current.set(`${assignment.bank}${assignment.padNumber}`, {
+          label: 'Source',
+          samples: source.slice(slices[i].start, slices[i].end),
+          sampleRate: chopSource.audio.sampleRate,
+          color: '#f59e0b',
+        })
+        if (truncated) setIsTruncated(true)
+      })
+      onAssignmentsChange?.()
+    } catch (error: any) {
+      console.error('Error chopping break:', error)
+      setError(`Error chopping "${chopSource.name}": ${error.message}`)
+    }
+  }, [chopSource, selectedBank, selectedPad, tuning, quality, channel, onAssignmentsChange])
+
   const toggleWavHelp = useCallback(() => {
     setShowWavHelp(prev => !prev)
   }, [])
@@ -149,6 +235,22 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
   }
 
   const padAssignments = diskBuilder.getPadAssignments()
+  const analyzed = padAssignments.filter(a => `${a.bank}${a.padNumber}` === analyzedPad)[0]
+  const analyzedData = analyzed?.data
+
+  // The converted 12-bit/26.04kHz pad, over its source when it was uploaded here
+  const spectrumTraces = useMemo(() => {
+    if (!analyzedPad || !analyzedData) return []
+    const traces: SpectrumTrace[] = [{
+      label: 'SP-1200',
+      samples: sp1200DataToFloat(analyzedData),
+      sampleRate: SP1200_SAMPLE_RATE,
+      color: '#60a5fa',
+    }]
+    const source = sourcesRef.current.get(analyzedPad)
+    if (source) traces.push(source)
+    return traces
+  }, [analyzedPad, analyzedData])
 
   return (
     <div className="space-y-6">
@@ -204,10 +306,35 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
             ))}
           </select>
         </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium mb-2">Resampling</label>
+          <select
+            value={quality}
+            onChange={(e) => setQuality(e.target.value as ResampleQuality)}
+            className="w-full bg-zinc-800 rounded-md border-zinc-700 text-white"
+          >
+            {RESAMPLE_QUALITIES.map(q => (
+              <option key={q} value={q}>{RESAMPLE_QUALITY_NAMES[q]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium mb-2">Channel</label>
+          <select
+            value={channel}
+            onChange={(e) => setChannel(e.target.value === 'mix' ? 'mix' : Number(e.target.value))}
+            className="w-full bg-zinc-800 rounded-md border-zinc-700 text-white"
+          >
+            <option value="mix">Mix down</option>
+            {Array.from({ length: 8 }, (_, i) => (
+              <option key={i} value={i}>Channel {i + 1}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       <div className="flex items-center justify-between">
-        <h3 className="text-sm font-medium">Upload WAV Samples</h3>
+        <h3 className="text-sm font-medium">Upload WAV/AIFF Samples</h3>
         <button 
           onClick={toggleWavHelp}
           className="text-xs flex items-center text-blue-400 hover:text-blue-300"
@@ -221,9 +348,9 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
         <div className="bg-zinc-900/60 border border-zinc-700 rounded-md p-4 text-sm">
           <h4 className="font-semibold mb-2">WAV File Requirements</h4>
           <ul className="list-disc pl-5 space-y-1 text-xs text-gray-300">
-            <li>Files must be standard <strong>uncompressed PCM WAV</strong> format</li>
-            <li>Supported bit depths: 8-bit, 16-bit, or 24-bit</li>
-            <li>Supported channels: mono or stereo (stereo will be mixed down)</li>
+            <li>Files must be standard <strong>uncompressed PCM WAV</strong> or AIFF/AIFF-C format</li>
+            <li>Supported bit depths: 8, 16, 24 or 32-bit integer and 32/64-bit float, including extensible and RF64 WAVs</li>
+            <li>Any number of channels: mixed down, or pick one with the Channel setting</li>
             <li>Maximum length: {SP1200_MAX_SECONDS} seconds (longer files will be truncated)</li>
             <li>Sample rate will be converted to 26.04kHz (the SP-1200's native rate)</li>
           </ul>
@@ -244,16 +371,39 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
       `}>
         <input {...getInputProps()} />
         <p className="text-sm text-gray-400">
-          Drag & drop WAV files here, or click to select files
+          Drag & drop WAV or AIFF files here, or click to select files
         </p>
         <p className="text-xs text-gray-500 mt-2">
           Files longer than {SP1200_MAX_SECONDS} seconds will be truncated
         </p>
         <p className="text-xs text-gray-500 mt-1">
-          Supports uncompressed PCM WAV files (8/16/24-bit, mono/stereo)
+          Supports uncompressed WAV and AIFF files (8-32-bit integer or float, any channel count)
         </p>
       </div>
 
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Chop a Break</h3>
+        <p className="text-xs text-gray-500">
+          Slices go to consecutive pads from {selectedBank}{selectedPad} on, with the settings above
+        </p>
+        <input
+          type="file"
+          accept=".wav,.aif,.aiff"
+          onChange={(e) => handleChopFile(e.target.files?.[0])}
+          className="text-sm text-gray-400"
+        />
+        {chopSource && (
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <BreakChopper
+              audio={chopSource.audio}
+              maxSlices={SP1200_MAX_PADS - (SP1200_BANKS.indexOf(selectedBank) * 8 + selectedPad - 1)}
+              chopLabel={`Chop onto pads from ${selectedBank}${selectedPad}`}
+              onChop={handleChop}
+            />
+          </div>
+        )}
+      </div>
+
       {error && (
         <div className="bg-red-900/30 border border-red-800 rounded-md p-3 flex items-start gap-2">
           <AlertCircle size={18} className="text-red-400 mt-0.5 flex-shrink-0" />
@@ -270,6 +420,12 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
         </div>
       )}
 
+      {levelReport && (
+        <div className="bg-zinc-900/60 border border-zinc-700 rounded-md p-3 text-gray-300">
+          <LevelReportTable levels={levelReport.levels} title={levelReport.name} />
+        </div>
+      )}
+
       <div className="grid grid-cols-1 gap-6">
         {(['A', 'B', 'C', 'D'] as SP1200Bank[]).map(bank => (
           <div key={bank} className="space-y-4">
@@ -287,7 +443,7 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
                     onDragOver={(e) => handlePadDragOver(e, bank, pad)}
                     onDragLeave={handlePadDragLeave}
                     className={`
-                      h-24 flex flex-col items-center justify-center
+                      h-28 flex flex-col items-center justify-center
                       rounded-lg p-4 transition-colors duration-200
                       ${dragOverPad === `${bank}${pad}` 
                         ? 'border-2 border-blue-500 bg-blue-500/10' 
@@ -301,15 +457,24 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
                     </span>
                     {assignment ? (
                       <>
+                        <PadWaveform data={assignment.data} />
                         <span className="text-xs text-gray-400 truncate w-full text-center">
                           {assignment.name}
                         </span>
-                        <button
-                          onClick={() => handleRemoveSample(bank, pad)}
-                          className="mt-2 text-xs text-red-500 hover:text-red-400"
-                        >
-                          Remove
-                        </button>
+                        <div className="mt-2 flex gap-2">
+                          <button
+                            onClick={() => setAnalyzedPad(analyzedPad === `${bank}${pad}` ? null : `${bank}${pad}`)}
+                            className="text-xs text-blue-400 hover:text-blue-300"
+                          >
+                            Spectrum
+                          </button>
+                          <button
+                            onClick={() => handleRemoveSample(bank, pad)}
+                            className="text-xs text-red-500 hover:text-red-400"
+                          >
+                            Remove
+                          </button>
+                        </div>
                       </>
                     ) : (
                       <span className="text-xs text-gray-500">
@@ -323,6 +488,13 @@ const SampleUpload = ({ onAssignmentsChange }: SampleUploadProps) => {
           </div>
         ))}
       </div>
+
+      {analyzed && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Spectrum: {analyzed.bank}{analyzed.padNumber} {analyzed.name}</h3>
+          <SpectrumAnalyzer traces={spectrumTraces} />
+        </div>
+      )}
     </div>
   )
 }
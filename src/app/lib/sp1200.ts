@@ -1,3 +1,18 @@
+import { ChannelSelection, decodeAudio, DecodedAudio, selectChannel } from '../../lib/audioDecoder'
+import { getResampledLength, resample, ResampleQuality } from '../../lib/resampler'
+import { applySampleEditsToAudio, SampleEdit } from '../../lib/sampleEdits'
+import { analyzeLevels, CLIP_LEVEL_12BIT, ConversionLevels, gainToDb } from '../../lib/levelAnalysis'
+import { SliceRange } from '../../lib/onsetDetection'
+import { SP1200_MAX_PADS, SP1200Sequence } from '../../lib/sp1200Sequence'
+
+export {
+  SP1200_DEFAULT_TEMPO,
+  SP1200_MAX_PADS,
+  SP1200_STEPS_PER_BEAT,
+  SP1200_SWING_VALUES,
+} from '../../lib/sp1200Sequence'
+export type { SP1200Sequence } from '../../lib/sp1200Sequence'
+
 // SP-1200 File Format Constants
 export const SP1200_MAGIC = 0x1200 // Magic number for .sp12 files
 export const SP1200_SAMPLE_RATE = 26040
@@ -10,9 +25,7 @@ export const SP1200_PAD_ENTRY_SIZE = 32
 export const SP1200_SAMPLE_DATA_OFFSET = 0x1000
 export const SP1200_SAMPLE_ALIGN = 256
 export const SP1200_END_MARKER = 0x8000
-export const SP1200_MAX_PADS = 32 // 8 pads per bank, 4 banks
 export const SP1200_MIN_DISK_SIZE = 0x1000
-export const SP1200_DEFAULT_TEMPO = 100
 export const SP1200_VOLUME_MAX = 255
 export const SP1200_BLOCK_SIZE = 256 // Memory block size in bytes
 
@@ -50,12 +63,6 @@ export interface SP1200Sample {
   metadata?: SP1200SampleMetadata
 }
 
-export interface SP1200Sequence {
-  name: string
-  tempo: number
-  steps: number[][]
-}
-
 export interface SP1200Disk {
   samples: SP1200Sample[]
   sequences: SP1200Sequence[]
@@ -63,6 +70,7 @@ export interface SP1200Disk {
 
 // Update bank type to include all 4 banks
 export type SP1200Bank = 'A' | 'B' | 'C' | 'D'
+export const SP1200_BANKS: SP1200Bank[] = ['A', 'B', 'C', 'D']
 
 // Bank and pad validation
 export const isValidBank = (bank: string): bank is SP1200Bank => 
@@ -238,161 +246,19 @@ export class SP1200DiskBuilderImpl implements SP1200DiskBuilder {
 // Create a singleton instance for the application
 export const diskBuilder = new SP1200DiskBuilderImpl()
 
-// Helper function to parse WAV header - more flexible implementation
-export function parseWavHeader(buffer: ArrayBuffer): {
-  audioFormat: number;
-  channels: number;
-  sampleRate: number;
-  bitsPerSample: number;
-  dataOffset: number;
-  dataLength: number;
-} {
-  const view = new DataView(buffer)
-  
-  // Check minimum buffer size
-  if (buffer.byteLength < 44) {
-    throw new Error('Invalid WAV: file too small')
-  }
-  
-  // Check RIFF header
-  const riff = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))
-  if (riff !== 'RIFF') {
-    throw new Error('Invalid WAV: RIFF header not found')
-  }
-  
-  // Check WAVE format
-  const wave = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11))
-  if (wave !== 'WAVE') {
-    throw new Error('Invalid WAV: WAVE format not found')
-  }
-  
-  // Search for fmt and data chunks
-  let offset = 12
-  let foundFmt = false
-  let audioFormat = 0
-  let channels = 0
-  let sampleRate = 0
-  let bitsPerSample = 0
-  let dataOffset = 0
-  let dataLength = 0
-  
-  try {
-    while (offset < buffer.byteLength - 8) {
-      // Get chunk ID (4 bytes)
-      const chunkId = String.fromCharCode(
-        view.getUint8(offset),
-        view.getUint8(offset + 1),
-        view.getUint8(offset + 2),
-        view.getUint8(offset + 3)
-      )
-      
-      // Get chunk size (4 bytes)
-      const chunkSize = view.getUint32(offset + 4, true)
-      
-      console.log(`Found chunk: ${chunkId}, size: ${chunkSize}, at offset: ${offset}`)
-      
-      if (chunkId === 'fmt ') {
-        foundFmt = true
-        
-        // Parse fmt chunk (basic PCM format)
-        audioFormat = view.getUint16(offset + 8, true)
-        channels = view.getUint16(offset + 10, true)
-        sampleRate = view.getUint32(offset + 12, true)
-        
-        // For most WAV files, bits per sample is at offset 22 from the start of the fmt chunk
-        if (offset + 22 + 2 <= buffer.byteLength) {
-          bitsPerSample = view.getUint16(offset + 22, true)
-        } else {
-          // Default to 16-bit if we can't read it
-          bitsPerSample = 16
-          console.warn('Could not read bits per sample, defaulting to 16-bit')
-        }
-        
-        console.log(`WAV format: ${audioFormat}, channels: ${channels}, rate: ${sampleRate}, bits: ${bitsPerSample}`)
-      } else if (chunkId === 'data') {
-        dataOffset = offset + 8  // Skip chunk ID and size
-        dataLength = chunkSize
-        console.log(`Found data chunk: offset ${dataOffset}, length ${dataLength}`)
-      }
-      
-      // Move to next chunk (chunk ID + chunk size + chunk data)
-      offset += 8 + chunkSize
-      
-      // Handle padding byte if chunk size is odd
-      if (chunkSize % 2 !== 0) {
-        offset += 1
-      }
-    }
-  } catch (error) {
-    console.error('Error parsing WAV header:', error)
-    throw new Error('Invalid WAV: error parsing header')
-  }
-  
-  if (!foundFmt) {
-    throw new Error('Invalid WAV: fmt chunk not found')
-  }
-  
-  if (dataOffset === 0) {
-    throw new Error('Invalid WAV: data chunk not found')
-  }
-  
-  return {
-    audioFormat,
-    channels,
-    sampleRate,
-    bitsPerSample,
-    dataOffset,
-    dataLength
-  }
-}
-
-// Helper function to validate WAV format
-function validateWavFormat(wav: any): { isValid: boolean; error?: string } {
-  // Debug information to console for troubleshooting
-  console.log('WAV validation:', {
-    audioFormat: wav.audioFormat,
-    channels: wav.channels,
-    sampleRate: wav.sampleRate,
-    bitsPerSample: wav.bitsPerSample,
-    dataLength: wav.dataLength
-  })
-
-  // Check audio format (1 = PCM)
-  if (wav.audioFormat !== 1) {
-    return { 
-      isValid: false, 
-      error: `Unsupported audio format: ${wav.audioFormat}. Only PCM (type 1) is supported. This may be a compressed format like MP3 or AAC.` 
-    }
-  }
-  
+// Helper function to validate a decoded source before conversion
+function validateSourceFormat(audio: DecodedAudio): { isValid: boolean; error?: string } {
   // Check sample rate (should be between 8kHz and 192kHz)
-  if (wav.sampleRate < 8000 || wav.sampleRate > 192000) {
+  if (audio.sampleRate < 8000 || audio.sampleRate > 192000) {
     return { 
       isValid: false, 
-      error: `Invalid sample rate: ${wav.sampleRate} Hz. Must be between 8kHz and 192kHz.` 
-    }
-  }
-
-  // Check bits per sample (support 8, 16, or 24 bit)
-  if (![8, 16, 24].includes(wav.bitsPerSample)) {
-    return { 
-      isValid: false, 
-      error: `Unsupported bits per sample: ${wav.bitsPerSample}. Only 8, 16, and 24-bit are supported.` 
-    }
-  }
-
-  // Check channels (mono or stereo only)
-  if (wav.channels < 1 || wav.channels > 2) {
-    return { 
-      isValid: false, 
-      error: `Unsupported channel count: ${wav.channels}. Only mono and stereo are supported.` 
+      error: `Invalid sample rate: ${audio.sampleRate} Hz. Must be between 8kHz and 192kHz.` 
     }
   }
 
   // Check data length
   const minSamples = 100 // At least 100 samples
-  const bytesPerSample = wav.bitsPerSample / 8
-  const numSamples = wav.dataLength / bytesPerSample / wav.channels
+  const numSamples = audio.channels[0].length
   
   if (numSamples < minSamples) {
     return { 
@@ -404,37 +270,74 @@ function validateWavFormat(wav: any): { isValid: boolean; error?: string } {
   return { isValid: true }
 }
 
-// Sample conversion with validation and truncation
+// Decode a WAV (PCM, float, extensible, RF64) or AIFF file to one channel,
+// after any edits. Multichannel sources are mixed down unless a zero-based
+// channel is given.
+function readSourceForSP1200(
+  buffer: ArrayBuffer,
+  channel: ChannelSelection,
+  edits: SampleEdit[]
+): { samples: Float32Array; sampleRate: number } {
+  const source = decodeAudio(buffer)
+  const validation = validateSourceFormat(source)
+  if (!validation.isValid) {
+    throw new Error(`Invalid ${source.format === 'aiff' ? 'AIFF' : 'WAV'} file: ${validation.error}`)
+  }
+  const audio = applySampleEditsToAudio(source, edits)
+  if (audio.channels[0].length === 0) {
+    throw new Error('Invalid edits: nothing is left of the sample')
+  }
+  return { samples: selectChannel(audio.channels, channel), sampleRate: audio.sampleRate }
+}
+
+export interface SP1200Conversion {
+  data: Uint8Array
+  // The mixdown or channel converted, and the 12-bit result; gainDb is the
+  // normalization applied
+  levels: ConversionLevels
+  truncated: boolean
+}
+
+// Sample conversion with validation and truncation. Accepts WAV or AIFF.
+// Resampling defaults to drop-sample like the SP-1200 itself; see
+// lib/resampler.ts for the others.
 export function convertWavToSP1200Format(
   wavBuffer: ArrayBuffer, 
-  tuning: number = 0
+  tuning: number = 0,
+  quality: ResampleQuality = 'authentic',
+  channel: ChannelSelection = 'mix',
+  edits: SampleEdit[] = []
 ): Uint8Array {
-  // Parse and validate WAV header
-  const wav = parseWavHeader(wavBuffer)
-  console.log('WAV format:', wav)
-  
-  // Validate WAV format
-  const validation = validateWavFormat(wav)
-  if (!validation.isValid) {
-    throw new Error(`Invalid WAV file: ${validation.error}`)
-  }
-  
-  // Calculate pitch-adjusted sample rate for drop-sample resampling
+  return convertWavToSP1200WithLevels(wavBuffer, tuning, quality, channel, edits).data
+}
+
+// Same as convertWavToSP1200Format, also reporting levels before and after
+// and whether the sample was cut to SP1200_MAX_SECONDS
+export function convertWavToSP1200WithLevels(
+  wavBuffer: ArrayBuffer,
+  tuning: number = 0,
+  quality: ResampleQuality = 'authentic',
+  channel: ChannelSelection = 'mix',
+  edits: SampleEdit[] = []
+): SP1200Conversion {
+  const input = readSourceForSP1200(wavBuffer, channel, edits)
+  const inputSamples = input.samples
+  const numInputSamples = inputSamples.length
+  
+  // Calculate pitch-adjusted sample rate for resampling
   const pitchRatio = Math.pow(2, tuning / 12)
   const targetSampleRate = SP1200_SAMPLE_RATE * pitchRatio
   
-  const view = new DataView(wavBuffer)
-  const numInputSamples = Math.floor(wav.dataLength / (wav.bitsPerSample / 8) / wav.channels)
-  
   // Calculate output samples with truncation to SP1200's max length
   const maxSeconds = SP1200_MAX_SECONDS
   const maxSamples = Math.floor(SP1200_SAMPLE_RATE * maxSeconds)
   const numOutputSamples = Math.min(
-    Math.floor(numInputSamples * (targetSampleRate / wav.sampleRate)),
+    getResampledLength(numInputSamples, input.sampleRate, targetSampleRate),
     maxSamples
   )
   
-  if (numOutputSamples >= maxSamples) {
+  const truncated = numOutputSamples >= maxSamples
+  if (truncated) {
     console.warn(`Sample truncated to ${maxSeconds} seconds (${maxSamples} samples)`)
   }
   
@@ -448,26 +351,23 @@ export function convertWavToSP1200Format(
   const output = new Uint8Array(outputBytes)
   const outputView = new DataView(output.buffer)
   
-  // Extract input samples
-  const inputSamples: number[] = []
+  // Find peak value for normalization
+  let peakValue = 0
   for (let i = 0; i < numInputSamples; i++) {
-    inputSamples.push(getSample(i, view, wav))
+    peakValue = Math.max(peakValue, Math.abs(inputSamples[i]))
   }
-  
-  // Find peak value for normalization
-  const peakValue = Math.max(...inputSamples.map(Math.abs))
   const normalizationFactor = peakValue > 0 ? 4095 / peakValue : 1
   
   // Resample to SP1200 format
+  const resampled = resample(inputSamples, input.sampleRate, targetSampleRate, quality)
   for (let i = 0; i < numOutputSamples; i++) {
-    // Simple drop-sample resampling (same method used by SP-1200)
-    const inputIndex = Math.floor(i * wav.sampleRate / targetSampleRate)
-    const sample = inputSamples[Math.min(inputIndex, numInputSamples - 1)]
+    const sample = resampled[i]
     
     // Convert to 12-bit unsigned (0-4095)
-    // SP-1200 uses 12-bit unsigned samples with a bias of 2048
+    // SP-1200 uses 12-bit unsigned samples with a bias of 2048; the peak
+    // lands at full scale either side of it
     const sample12bit = Math.min(4095, Math.max(0, 
-      Math.round((sample + 32768) * normalizationFactor / 16)
+      Math.round(sample * normalizationFactor / 2 + 2048)
     )) & 0x0FFF
     
     // Calculate position in output buffer (2 bytes per sample)
@@ -481,71 +381,54 @@ export function convertWavToSP1200Format(
   for (let i = numOutputSamples * 2; i < outputBytes; i += 2) {
     outputView.setUint16(i, SP1200_END_MARKER, true)
   }
+
+  // 12-bit words come back as value / 2048, so the overall gain is F / 4096
+  const levels: ConversionLevels = {
+    input: analyzeLevels([inputSamples], input.sampleRate),
+    output: analyzeLevels([sp1200DataToFloat(output)], SP1200_SAMPLE_RATE, CLIP_LEVEL_12BIT),
+    gainDb: peakValue > 0 ? gainToDb(normalizationFactor / 4096) : 0,
+  }
   
-  return output
+  return { data: output, levels, truncated }
 }
 
-// Helper function to get sample value with proper channel handling
-function getSample(index: number, view: DataView, wav: any): number {
-  // Calculate sample offset in bytes
-  const bytesPerSample = wav.bitsPerSample / 8
-  const sampleOffset = wav.dataOffset + index * bytesPerSample * wav.channels
-  
-  // Ensure we don't read past the end of the buffer
-  if (sampleOffset >= view.byteLength) {
-    console.warn(`Sample index ${index} is out of bounds`)
-    return 0
-  }
+export interface SP1200SliceAssignment extends SP1200PadAssignment {
+  levels: ConversionLevels
+  truncated: boolean
+}
 
-  try {
-    let sample = 0
-    
-    // Handle different bit depths
-    if (wav.bitsPerSample === 8) {
-      // 8-bit unsigned (0-255)
-      sample = (view.getUint8(sampleOffset) - 128) / 128
-    } else if (wav.bitsPerSample === 16) {
-      // 16-bit signed (-32768 to 32767)
-      sample = view.getInt16(sampleOffset, true) / 32768
-    } else if (wav.bitsPerSample === 24) {
-      // 24-bit signed (-8388608 to 8388607)
-      const b1 = view.getUint8(sampleOffset)
-      const b2 = view.getUint8(sampleOffset + 1)
-      const b3 = view.getUint8(sampleOffset + 2)
-      const value = (b1 | (b2 << 8) | (b3 << 16)) << 8 >> 8 // Sign extend
-      sample = value / 8388608
+// Convert slices of one source, such as a chopped break, onto consecutive
+// pads from `first`, running on into the following banks. Slices are named
+// after the source ("AMEN 01", ...); those past D8 are left out.
+export function convertSlicesToSP1200Pads(
+  buffer: ArrayBuffer,
+  name: string,
+  slices: SliceRange[],
+  first: { bank: SP1200Bank, padNumber: number },
+  tuning: number = 0,
+  quality: ResampleQuality = 'authentic',
+  channel: ChannelSelection = 'mix'
+): SP1200SliceAssignment[] {
+  const firstIndex = SP1200_BANKS.indexOf(first.bank) * 8 + first.padNumber - 1
+  const base = name.replace(/\.[^/.]+$/, '').slice(0, 9).trimEnd() || 'SLICE'
+  return slices.slice(0, Math.max(0, SP1200_MAX_PADS - firstIndex)).map((slice, i) => {
+    const { data, levels, truncated } = convertWavToSP1200WithLevels(
+      buffer, tuning, quality, channel, [{ type: 'trim', start: slice.start, end: slice.end }]
+    )
+    return {
+      bank: SP1200_BANKS[Math.floor((firstIndex + i) / 8)],
+      padNumber: (firstIndex + i) % 8 + 1,
+      name: `${base} ${String(i + 1).padStart(2, '0')}`,
+      data,
+      metadata: { tuning, volume: SP1200_VOLUME_MAX },
+      levels,
+      truncated,
     }
-    
-    // Handle stereo by mixing down to mono
-    if (wav.channels === 2) {
-      const rightSampleOffset = sampleOffset + bytesPerSample
-      let rightSample = 0
-      
-      if (wav.bitsPerSample === 8) {
-        rightSample = (view.getUint8(rightSampleOffset) - 128) / 128
-      } else if (wav.bitsPerSample === 16) {
-        rightSample = view.getInt16(rightSampleOffset, true) / 32768
-      } else if (wav.bitsPerSample === 24) {
-        const b1 = view.getUint8(rightSampleOffset)
-        const b2 = view.getUint8(rightSampleOffset + 1)
-        const b3 = view.getUint8(rightSampleOffset + 2)
-        const value = (b1 | (b2 << 8) | (b3 << 16)) << 8 >> 8
-        rightSample = value / 8388608
-      }
-      
-      // Mix down to mono (average of left and right)
-      sample = (sample + rightSample) / 2
-    }
-    
-    return sample
-  } catch (error) {
-    console.error('Error reading sample:', error)
-    return 0
-  }
+  })
 }
 
 // Helper function to convert 12-bit SP-1200 samples to 16-bit
-function convert12BitTo16Bit(data: Uint8Array): Int16Array {
+export function convert12BitTo16Bit(data: Uint8Array): Int16Array {
   const numSamples = data.length / 2
   const output = new Int16Array(numSamples)
   const view = new DataView(data.buffer)
@@ -562,6 +445,26 @@ function convert12BitTo16Bit(data: Uint8Array): Int16Array {
   return output
 }
 
+// Sample words up to the first end marker, without the block padding after it
+export function getSP1200SampleLength(data: Uint8Array): number {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const words = Math.floor(data.byteLength / 2)
+  for (let i = 0; i < words; i++) {
+    if (view.getUint16(i * 2, true) === SP1200_END_MARKER) return i
+  }
+  return words
+}
+
+// 12-bit SP-1200 words up to the first end marker, as floats
+export function sp1200DataToFloat(data: Uint8Array): Float32Array {
+  const pcm = convert12BitTo16Bit(data.slice(0, getSP1200SampleLength(data) * 2))
+  const samples = new Float32Array(pcm.length)
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768
+  }
+  return samples
+}
+
 // Create a single sample file
 export function createSP1200SampleFile(sample: SP1200Sample): ArrayBuffer {
   const buffer = new ArrayBuffer(SP1200_DISK_SIZE)
@@ -1,13 +1,46 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import SndPlayer from '@/components/SndPlayer'
-import { convertToSnd } from '@/lib/audioConverter'
+import SndEditor from '@/components/SndEditor'
+import ProgramPlayer from '@/components/ProgramPlayer'
+import AkaiDiskBrowser from '@/components/AkaiDiskBrowser'
+import BreakChopper from '@/components/BreakChopper'
+import { convertToSndFilesInWorker } from '@/lib/audioConverter'
+import { getSndStereoSide } from '@/lib/akaiSnd'
+import { RESAMPLE_QUALITIES, RESAMPLE_QUALITY_NAMES, ResampleQuality } from '@/lib/resampler'
+import { ChannelSelection, decodeAudio, DecodedAudio } from '@/lib/audioDecoder'
+import { convertSlicesToZip } from '@/lib/batchConverter'
+import { PGM_PAD_COUNT } from '@/lib/akaiPgm'
+import { SliceRange } from '@/lib/onsetDetection'
+import { ConversionLevels } from '@/lib/levelAnalysis'
+import LevelReportTable from '@/components/LevelReportTable'
+import { getNoteName, PitchEstimate } from '@/lib/pitchDetection'
+
+// Channels offered for multichannel sources; 7.1 is the widest common export
+const SOURCE_CHANNELS = 8
+
+interface LoadedSnd {
+  file: Blob
+  name: string
+  right?: { file: Blob, name: string } // Right half of a -L/-R stereo pair
+  source?: Blob // The WAV/AIFF it was converted from
+  levels?: Array<{ name: string, levels: ConversionLevels }> // Per SND converted
+  pitch?: PitchEstimate | null // Null when detection found no steady pitch
+}
 
 export default function Home() {
-  const [loadedSndFile, setLoadedSndFile] = useState<{ file: Blob, name: string } | null>(null)
+  const [loadedSndFile, setLoadedSndFile] = useState<LoadedSnd | null>(null)
+  const [keepStereo, setKeepStereo] = useState(false)
+  const [targetRate, setTargetRate] = useState(44100)
+  const [quality, setQuality] = useState<ResampleQuality>('high')
+  const [channel, setChannel] = useState<ChannelSelection>('mix')
+  const [detectPitch, setDetectPitch] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isConverting, setIsConverting] = useState(false)
+  // A break to chop across the pads of a program
+  const [chopSource, setChopSource] = useState<{ audio: DecodedAudio, name: string } | null>(null)
+  const [isChopping, setIsChopping] = useState(false)
+  const [chopStatus, setChopStatus] = useState<string | null>(null)
   const playerInputRef = useRef<HTMLInputElement>(null)
 
   // Prevent default drag-and-drop behavior globally
@@ -24,22 +57,46 @@ export default function Home() {
     };
   }, []);
 
-  const handleFile = async (file: File) => {
+  const handleFiles = async (files: File[]) => {
     setError(null)
     setIsConverting(false)
 
+    const file = files[0]
+    if (!file) return
     try {
       if (file.name.toLowerCase().endsWith('.snd')) {
-        setLoadedSndFile({ file, name: file.name })
-      } else if (file.name.toLowerCase().endsWith('.wav')) {
+        // Two SNDs named -L and -R load as a stereo pair
+        const sides = files.map(f => ({ file: f, stereo: getSndStereoSide(f.name) }))
+        const left = sides.find(s => s.stereo?.side === 'L')
+        const right = sides.find(s => s.stereo?.side === 'R' && s.stereo.base === left?.stereo?.base)
+        if (left && right) {
+          setLoadedSndFile({
+            file: left.file,
+            name: left.file.name,
+            right: { file: right.file, name: right.file.name },
+          })
+        } else {
+          setLoadedSndFile({ file, name: file.name })
+        }
+      } else if (/\.(wav|aiff?)$/i.test(file.name)) {
         setIsConverting(true)
-        const sndBlob = await convertToSnd(file)
+        const [left, right] = await convertToSndFilesInWorker(file, {
+          stereo: keepStereo,
+          sampleRate: targetRate,
+          quality,
+          channel: channel === 'mix' ? undefined : channel,
+          detectPitch,
+        })
         setLoadedSndFile({ 
-          file: sndBlob, 
-          name: file.name.replace(/\.wav$/i, '.snd') 
+          file: left.blob, 
+          name: left.name,
+          right: right ? { file: right.blob, name: right.name } : undefined,
+          source: file,
+          levels: [left, right].filter(output => !!output).map(output => ({ name: output.name, levels: output.levels })),
+          pitch: detectPitch ? left.pitch ?? null : undefined,
         })
       } else {
-        setError('Please select a WAV or SND file.')
+        setError('Please select a WAV, AIFF or SND file.')
       }
     } catch (err) {
       console.error('Error processing file:', err)
@@ -49,6 +106,51 @@ export default function Home() {
     }
   }
 
+  const handleChopFile = async (file: File | undefined) => {
+    setChopStatus(null)
+    if (!file) return
+    try {
+      setChopSource({ audio: decodeAudio(await file.arrayBuffer()), name: file.name })
+    } catch (err) {
+      console.error('Error reading break:', err)
+      setChopSource(null)
+      setChopStatus(err instanceof Error ? err.message : 'Error reading file')
+    }
+  }
+
+  // The slices become SNDs on consecutive pads of a program named after the
+  // break, with the same conversion settings as above
+  const handleChop = async (slices: SliceRange[]) => {
+    if (!chopSource) return
+    setIsChopping(true)
+    setChopStatus(null)
+    try {
+      const { zip, report } = await convertSlicesToZip(chopSource.audio, chopSource.name, slices, {
+        sampleRate: targetRate,
+        quality,
+        stereo: keepStereo,
+        channel: channel === 'mix' ? undefined : channel,
+      })
+      const url = URL.createObjectURL(new Blob([zip], { type: 'application/zip' }))
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${report.programName}.zip`
+      document.body.appendChild(a)
+      a.click()
+      URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+      const warnings = report.files.reduce((count, entry) => count + entry.warnings.length, 0)
+      setChopStatus(`Chopped into ${report.converted} slices` + (warnings > 0 ? `, ${warnings} warnings in report.json` : ''))
+    } catch (err) {
+      console.error('Error chopping break:', err)
+      setChopStatus(err instanceof Error ? err.message : 'Error chopping break')
+    } finally {
+      setIsChopping(false)
+    }
+  }
+
+  const stereoSlices = keepStereo && channel === 'mix' && (chopSource?.audio.channels.length ?? 0) >= 2
+
   return (
     <main className="min-h-screen p-8">
       <div className="max-w-2xl mx-auto">
@@ -60,8 +162,7 @@ export default function Home() {
             onDrop={(e) => {
               e.preventDefault();
               e.stopPropagation();
-              const file = e.dataTransfer.files[0];
-              if (file) handleFile(file);
+              handleFiles(Array.from(e.dataTransfer.files));
             }}
             onDragOver={(e) => {
               e.preventDefault();
@@ -79,31 +180,141 @@ export default function Home() {
               onChange={(e) => {
                 e.preventDefault();
                 e.stopPropagation();
-                const file = e.target.files?.[0];
-                if (file) handleFile(file);
+                handleFiles(Array.from(e.target.files ?? []));
               }}
-              accept=".snd,.wav"
+              accept=".snd,.wav,.aif,.aiff"
+              multiple
               className="hidden"
             />
             <p className="text-gray-600">
               {isConverting ? (
-                'Converting WAV to SND...'
+                'Converting to SND...'
               ) : (
-                'Drop a WAV or SND file here or click to select'
+                'Drop a WAV, AIFF or SND file (or an -L/-R SND pair) here or click to select'
               )}
             </p>
           </div>
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={keepStereo}
+              onChange={(e) => setKeepStereo(e.target.checked)}
+            />
+            Keep stereo sources as an -L/-R SND pair
+          </label>
+          <label className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={detectPitch}
+              onChange={(e) => setDetectPitch(e.target.checked)}
+            />
+            Detect pitch to set the root note and tuning
+          </label>
+          <div className="mt-2 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              Sample rate
+              <select
+                value={targetRate}
+                onChange={(e) => setTargetRate(Number(e.target.value))}
+                className="border border-gray-300 rounded px-1"
+              >
+                <option value={44100}>44100 Hz</option>
+                <option value={22050}>22050 Hz</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Resampling
+              <select
+                value={quality}
+                onChange={(e) => setQuality(e.target.value as ResampleQuality)}
+                className="border border-gray-300 rounded px-1"
+              >
+                {RESAMPLE_QUALITIES.map(q => (
+                  <option key={q} value={q}>{RESAMPLE_QUALITY_NAMES[q]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Channel
+              <select
+                value={channel}
+                onChange={(e) => setChannel(e.target.value === 'mix' ? 'mix' : Number(e.target.value))}
+                className="border border-gray-300 rounded px-1"
+              >
+                <option value="mix">{keepStereo ? 'All (stereo pair)' : 'Mix down'}</option>
+                {Array.from({ length: SOURCE_CHANNELS }, (_, i) => (
+                  <option key={i} value={i}>{i + 1}</option>
+                ))}
+              </select>
+            </label>
+          </div>
           {error && (
             <p className="mt-4 text-red-600">{error}</p>
           )}
           {loadedSndFile && (
             <div className="mt-4">
               <h3 className="font-semibold mb-2">Currently Playing:</h3>
-              <p className="text-sm text-gray-600 mb-4">{loadedSndFile.name}</p>
-              <SndPlayer sndFile={loadedSndFile.file} />
+              <p className="text-sm text-gray-600 mb-4">
+                {loadedSndFile.name}{loadedSndFile.right && ` + ${loadedSndFile.right.name}`}
+              </p>
+              {loadedSndFile.pitch !== undefined && (
+                <p className="text-sm text-gray-600 mb-4">
+                  {loadedSndFile.pitch
+                    ? `Root note ${getNoteName(loadedSndFile.pitch.note)} ${loadedSndFile.pitch.cents >= 0 ? '+' : ''}${loadedSndFile.pitch.cents} cents (${loadedSndFile.pitch.frequency.toFixed(1)} Hz detected)`
+                    : 'No steady pitch found, root note left unchanged'}
+                </p>
+              )}
+              {loadedSndFile.levels?.map(report => (
+                <div key={report.name} className="mb-4 text-gray-700">
+                  <LevelReportTable levels={report.levels} title={report.name} />
+                </div>
+              ))}
+              <SndEditor
+                sndFile={loadedSndFile.file}
+                fileName={loadedSndFile.name}
+                rightSndFile={loadedSndFile.right?.file}
+                rightFileName={loadedSndFile.right?.name}
+                sourceFile={loadedSndFile.source}
+              />
             </div>
           )}
         </div>
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8">
+          <h2 className="text-xl font-semibold mb-4">Break Chopper</h2>
+          <input
+            type="file"
+            accept=".wav,.aif,.aiff"
+            onChange={(e) => handleChopFile(e.target.files?.[0])}
+            className="text-sm text-gray-700"
+          />
+          {chopStatus && (
+            <p className="mt-2 text-sm text-gray-600">{chopStatus}</p>
+          )}
+          {chopSource && (
+            <div className="mt-4">
+              <BreakChopper
+                audio={chopSource.audio}
+                maxSlices={stereoSlices ? PGM_PAD_COUNT / 2 : PGM_PAD_COUNT}
+                chopLabel="Download SNDs and program"
+                onChop={handleChop}
+                busy={isChopping}
+              />
+            </div>
+          )}
+        </div>
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8">
+          <h2 className="text-xl font-semibold mb-4">Program Player</h2>
+          <ProgramPlayer />
+        </div>
+        <div className="bg-white rounded-lg shadow-lg p-6 mt-8">
+          <h2 className="text-xl font-semibold mb-4">Akai Disk Images</h2>
+          <AkaiDiskBrowser
+            onOpenSample={(file, name) => {
+              setError(null)
+              setLoadedSndFile({ file, name })
+            }}
+          />
+        </div>
       </div>
     </main>
   )
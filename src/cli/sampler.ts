@@ -0,0 +1,527 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import {
+  convertSlicesToSP1200Pads,
+  convertWavToSP1200Format,
+  convertWavToSP1200WithLevels,
+  parseSP1200Disk,
+  SP1200_MAGIC,
+  SP1200_MAX_PADS,
+  SP1200_MAX_SECONDS,
+  SP1200_SAMPLE_RATE,
+  SP1200Bank,
+  SP1200DiskBuilderImpl,
+  createSP1200SampleFile,
+  getSP1200SampleLength,
+  sp1200DataToFloat,
+} from '../app/lib/sp1200';
+import { getAkaiVolumePath, readAkaiDisk, readAkaiDiskSample } from '../lib/akaiDisk';
+import { PGM_BANKS, PGM_PADS_PER_BANK, getPgmNote, parsePgmFile } from '../lib/akaiPgm';
+import {
+  getSndSampleRate,
+  parseSndFile,
+  SND_LOOP_HOLD,
+  SND_LOOP_MODE_NAMES,
+  SND_NAME_LENGTH,
+  sndToAiff,
+  sndToWav,
+} from '../lib/akaiSnd';
+import { toAkaiName } from '../lib/akaiText';
+import { decodeAudio, detectAudioFormat, selectChannel } from '../lib/audioDecoder';
+import { encodeWav } from '../lib/audioEncoder';
+import { convertSlicesToZip } from '../lib/batchConverter';
+import { convertAudioToSnd } from '../lib/conversionEngine';
+import { detectOnsets, getSliceRanges } from '../lib/onsetDetection';
+import { RESAMPLE_QUALITIES, ResampleQuality } from '../lib/resampler';
+import { buildSndPlaybackPlan } from '../lib/sndVoice';
+
+/**
+ * Command-line access to the sampler codecs, for scripted conversions:
+ *
+ *   npm run sampler -- info <file>
+ *   npm run sampler -- convert <input> [-o output] [--to snd|wav|aiff|sp12]
+ *   npm run sampler -- extract <disk.img|disk.sp12> [-o folder]
+ *   npm run sampler -- build-disk <folder> [-o disk.sp12]
+ *   npm run sampler -- chop <input> [-o output] [--to snd|sp12] [--sensitivity 0-1]
+ *
+ * --json prints a machine-readable result, with input and output levels for
+ * conversions and the pitch found with --detect-pitch. Exits 1 on invalid
+ * input and 2 on bad usage.
+ */
+const USAGE = `Usage: sampler <command> [options]
+
+Commands:
+  info <file>                 Dump an SND, PGM, .sp12, Akai disk image, WAV or AIFF
+  convert <input>             WAV/AIFF to SND or .sp12, SND to WAV or AIFF
+  extract <image>             Akai S1000/S3000 .img or SP-1200 .sp12 disk to WAVs
+  build-disk <folder>         WAV/AIFFs in a folder to an SP-1200 .sp12 disk, pads A1-D8
+  chop <input>                Slice a break at its onsets: a zip of SNDs and a .pgm, or a .sp12 disk
+
+Options:
+  -o, --output <path>         Output file or folder
+  --to <snd|wav|aiff|sp12>    Output format for convert and chop (default from -o, else snd/wav)
+  --rate <44100|22050>        SND sample rate (default 44100)
+  --quality <q>               Resampling: ${RESAMPLE_QUALITIES.join(', ')}
+  --stereo                    Keep stereo as an -L/-R SND pair
+  --channel <n>               Convert only source channel n (1-based) instead of mixing down
+  --tuning <semitones>        SP-1200 tuning, -12 to +12
+  --detect-pitch              Set the SND root note and tuning from the detected pitch
+  --sensitivity <0-1>         Onset detection for chop, higher finds quieter hits (default 0.5)
+  --json                      Print results as JSON
+  -h, --help                  Show this help`;
+
+class UsageError extends Error {}
+
+type Options = {
+  output?: string;
+  to?: string;
+  rate?: string;
+  quality?: string;
+  stereo?: boolean;
+  channel?: string;
+  tuning?: string;
+  'detect-pitch'?: boolean;
+  sensitivity?: string;
+  json?: boolean;
+};
+
+type Result = Record<string, unknown>;
+
+function baseName(file: string): string {
+  return path.basename(file).replace(/\.[^/.]+$/, '');
+}
+
+function extension(file: string): string {
+  return path.extname(file).slice(1).toLowerCase();
+}
+
+async function readBuffer(file: string): Promise<ArrayBuffer> {
+  const data = await readFile(file);
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function getQuality(options: Options, fallback: ResampleQuality): ResampleQuality {
+  if (!options.quality) return fallback;
+  if (!RESAMPLE_QUALITIES.includes(options.quality as ResampleQuality)) {
+    throw new UsageError(`Invalid resampling quality: ${options.quality}`);
+  }
+  return options.quality as ResampleQuality;
+}
+
+// Zero-based source channel, or undefined to mix down
+function getChannel(options: Options): number | undefined {
+  if (options.channel === undefined) return undefined;
+  const channel = parseInt(options.channel);
+  if (isNaN(channel) || channel < 1) {
+    throw new UsageError(`Invalid channel: ${options.channel}`);
+  }
+  return channel - 1;
+}
+
+function getSndRate(options: Options): number {
+  const rate = parseInt(options.rate ?? '44100');
+  if (rate !== 44100 && rate !== 22050) throw new UsageError(`Invalid sample rate: ${options.rate}`);
+  return rate;
+}
+
+function getSensitivity(options: Options): number {
+  const sensitivity = parseFloat(options.sensitivity ?? '0.5');
+  if (isNaN(sensitivity) || sensitivity < 0 || sensitivity > 1) {
+    throw new UsageError(`Invalid sensitivity: ${options.sensitivity}`);
+  }
+  return sensitivity;
+}
+
+function getTuning(options: Options): number {
+  const tuning = parseInt(options.tuning ?? '0');
+  if (isNaN(tuning) || tuning < -12 || tuning > 12) {
+    throw new UsageError(`Invalid tuning: ${options.tuning}`);
+  }
+  return tuning;
+}
+
+function isSP1200Image(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 2 && new DataView(buffer).getUint16(0, true) === SP1200_MAGIC;
+}
+
+function formatPad(bank: string, pad: number): string {
+  return `${bank}${String(pad).padStart(2, '0')}`;
+}
+
+async function info(file: string): Promise<Result> {
+  const buffer = await readBuffer(file);
+  const ext = extension(file);
+
+  if (ext === 'snd') {
+    const { header } = parseSndFile(buffer);
+    const sampleRate = getSndSampleRate(header);
+    return {
+      type: 'snd',
+      name: header.name,
+      sampleRate,
+      rootNote: header.rootNote,
+      semiTune: header.semiTune,
+      centsTune: header.centsTune,
+      sampleWords: header.sampleWords,
+      seconds: header.sampleWords / sampleRate,
+      startMarker: header.startMarker,
+      endMarker: header.endMarker,
+      loopMode: SND_LOOP_MODE_NAMES[header.loopMode],
+      // The loops playback goes through, from the first active loop
+      loops: buildSndPlaybackPlan(header, header.sampleWords).loops.map(loop => ({
+        start: loop.start,
+        end: loop.end,
+        time: loop.dwell === Infinity ? SND_LOOP_HOLD : Math.round(loop.dwell * 1000),
+      })),
+    };
+  }
+
+  if (ext === 'pgm') {
+    const program = parsePgmFile(buffer);
+    const pads = program.padNotes.map((note, i) => ({
+      pad: formatPad(PGM_BANKS[Math.floor(i / PGM_PADS_PER_BANK)], i % PGM_PADS_PER_BANK + 1),
+      note,
+      sample: getPgmNote(program, note)?.sampleName ?? '',
+    }));
+    return { type: 'pgm', name: program.name, pads: pads.filter(pad => pad.sample) };
+  }
+
+  if (isSP1200Image(buffer)) {
+    const disk = parseSP1200Disk(buffer);
+    return {
+      type: 'sp12',
+      samples: disk.samples.map(sample => {
+        const length = getSP1200SampleLength(sample.data);
+        return {
+          pad: `${sample.bank}${sample.padNumber}`,
+          name: sample.name,
+          samples: length,
+          seconds: length / SP1200_SAMPLE_RATE,
+        };
+      }),
+    };
+  }
+
+  const format = detectAudioFormat(buffer);
+  if (format) {
+    const audio = decodeAudio(buffer);
+    const frames = audio.channels[0]?.length ?? 0;
+    return {
+      type: format,
+      sampleRate: audio.sampleRate,
+      bitsPerSample: audio.bitsPerSample,
+      channels: audio.channels.length,
+      frames,
+      seconds: frames / audio.sampleRate,
+    };
+  }
+
+  const disk = readAkaiDisk(buffer);
+  return {
+    type: 'akai-disk',
+    kind: disk.kind,
+    volumes: disk.volumes.map(volume => ({
+      path: getAkaiVolumePath(volume),
+      model: volume.model,
+      files: volume.files.map(f => ({ name: f.name, kind: f.kind, model: f.model, size: f.size })),
+    })),
+  };
+}
+
+async function convert(input: string, options: Options): Promise<Result> {
+  const buffer = await readBuffer(input);
+  const isSnd = extension(input) === 'snd';
+  const to = (options.to ?? (options.output ? extension(options.output) : isSnd ? 'wav' : 'snd')).replace(/^aif$/, 'aiff');
+  const outputFor = (name: string, ext: string) => options.output ?? path.join(path.dirname(input), `${name}.${ext}`);
+
+  if (to === 'wav') {
+    if (!isSnd) throw new Error(`Cannot convert ${input} to WAV: expected an SND file`);
+    const output = outputFor(baseName(input), 'wav');
+    await writeFile(output, Buffer.from(sndToWav(parseSndFile(buffer))));
+    return { outputs: [output] };
+  }
+
+  if (to === 'aiff') {
+    if (!isSnd) throw new Error(`Cannot convert ${input} to AIFF: expected an SND file`);
+    const output = outputFor(baseName(input), 'aif');
+    await writeFile(output, Buffer.from(sndToAiff(parseSndFile(buffer))));
+    return { outputs: [output] };
+  }
+
+  if (to === 'snd') {
+    const converted = convertAudioToSnd(buffer, toAkaiName(baseName(input), SND_NAME_LENGTH) || 'SAMPLE', {
+      sampleRate: getSndRate(options),
+      quality: getQuality(options, 'high'),
+      stereo: !!options.stereo,
+      channel: getChannel(options),
+      detectPitch: !!options['detect-pitch'],
+    });
+    // With -o, a stereo pair is written next to the given path
+    const folder = options.output ? path.dirname(options.output) : path.dirname(input);
+    const outputs = converted.length === 1 && options.output
+      ? [options.output]
+      : converted.map(output => path.join(folder, output.name));
+    await Promise.all(converted.map((output, i) => writeFile(outputs[i], Buffer.from(output.data))));
+    const warnings = converted.filter(output => output.clippedSamples > 0).map(output => `${output.name} clipped ${output.clippedSamples} samples`);
+    const pitch = converted[0].pitch ?? null;
+    if (options['detect-pitch'] && !pitch) warnings.push(`No steady pitch found in ${input}, root note not changed`);
+    return {
+      outputs,
+      warnings,
+      levels: converted.map(output => ({ name: output.name, ...output.levels })),
+      ...(options['detect-pitch'] ? { pitch } : {}),
+    };
+  }
+
+  if (to === 'sp12') {
+    const tuning = getTuning(options);
+    const { data, levels } = convertWavToSP1200WithLevels(buffer, tuning, getQuality(options, 'authentic'), getChannel(options) ?? 'mix');
+    const output = outputFor(baseName(input), 'sp12');
+    const file = createSP1200SampleFile({
+      name: baseName(input).slice(0, 12),
+      bank: 'A',
+      padNumber: 1,
+      data,
+      sampleRate: SP1200_SAMPLE_RATE,
+      bitsPerSample: 12,
+      length: data.length / 2,
+      metadata: { tuning },
+    });
+    await writeFile(output, Buffer.from(file));
+    return { outputs: [output], levels };
+  }
+
+  throw new UsageError(`Invalid output format: ${to}`);
+}
+
+async function extract(image: string, options: Options): Promise<Result> {
+  const buffer = await readBuffer(image);
+  const folder = options.output ?? path.join(path.dirname(image), baseName(image));
+  const outputs: string[] = [];
+  const failed: string[] = [];
+
+  if (isSP1200Image(buffer)) {
+    await mkdir(folder, { recursive: true });
+    for (const sample of parseSP1200Disk(buffer).samples) {
+      const output = path.join(folder, `${sample.bank}${sample.padNumber} ${sample.name || 'SAMPLE'}.wav`);
+      await writeFile(output, Buffer.from(encodeWav([sp1200DataToFloat(sample.data)], SP1200_SAMPLE_RATE)));
+      outputs.push(output);
+    }
+    return { outputs, failed };
+  }
+
+  const disk = readAkaiDisk(buffer);
+  for (const volume of disk.volumes) {
+    const volumeFolder = path.join(folder, getAkaiVolumePath(volume));
+    await mkdir(volumeFolder, { recursive: true });
+    for (const file of volume.files.filter(f => f.kind === 'sample')) {
+      try {
+        const output = path.join(volumeFolder, `${file.name}.wav`);
+        await writeFile(output, Buffer.from(sndToWav(readAkaiDiskSample(disk, volume, file))));
+        outputs.push(output);
+      } catch (error) {
+        console.warn(`Skipping ${file.name}:`, error instanceof Error ? error.message : error);
+        failed.push(`${getAkaiVolumePath(volume)}/${file.name}`);
+      }
+    }
+  }
+  return { outputs, failed };
+}
+
+async function buildDisk(folder: string, options: Options): Promise<Result> {
+  const tuning = getTuning(options);
+  const quality = getQuality(options, 'authentic');
+  const channel = getChannel(options) ?? 'mix';
+  const banks: SP1200Bank[] = ['A', 'B', 'C', 'D'];
+  const files = (await readdir(folder)).filter(name => /^(wav|aiff?)$/.test(extension(name))).sort();
+  if (files.length === 0) throw new Error(`No WAV or AIFF files in ${folder}`);
+
+  const builder = new SP1200DiskBuilderImpl();
+  const pads: Result[] = [];
+  const warnings: string[] = [];
+  for (let i = 0; i < files.length; i++) {
+    if (i >= SP1200_MAX_PADS) {
+      warnings.push(`${files[i]} not assigned, all ${SP1200_MAX_PADS} pads are used`);
+      continue;
+    }
+    const bank = banks[Math.floor(i / 8)];
+    const padNumber = i % 8 + 1;
+    const data = convertWavToSP1200Format(await readBuffer(path.join(folder, files[i])), tuning, quality, channel);
+    builder.addSample({ bank, padNumber, name: baseName(files[i]).slice(0, 12), data, metadata: { tuning } });
+    pads.push({ pad: `${bank}${padNumber}`, source: files[i] });
+  }
+
+  const output = options.output ?? `${folder.replace(/[\\/]+$/, '')}.sp12`;
+  await writeDiskImage(builder, output);
+  return { outputs: [output], pads, warnings };
+}
+
+async function writeDiskImage(builder: SP1200DiskBuilderImpl, output: string): Promise<void> {
+  let image: ArrayBuffer;
+  try {
+    image = builder.createDiskImage();
+  } catch (error) {
+    // Writing past the end of the image fails before the size check does
+    if (!(error instanceof RangeError)) throw error;
+    throw new Error('Disk image exceeds maximum size: use fewer or shorter samples');
+  }
+  await writeFile(output, Buffer.from(image));
+}
+
+// Slice at the detected onsets onto consecutive pads: SNDs and a program
+// named after the input, zipped, or an SP-1200 disk from A1
+async function chop(input: string, options: Options): Promise<Result> {
+  const buffer = await readBuffer(input);
+  const audio = decodeAudio(buffer);
+  const channel = getChannel(options);
+  const onsets = detectOnsets(selectChannel(audio.channels, channel ?? 'mix'), audio.sampleRate, {
+    sensitivity: getSensitivity(options),
+  });
+  const slices = getSliceRanges(onsets, audio.channels[0]?.length ?? 0);
+  if (slices.length === 0) throw new Error(`No onsets found in ${input}`);
+  const seconds = (frames: number) => Math.round((frames / audio.sampleRate) * 1000) / 1000;
+  const to = (options.to ?? (options.output ? extension(options.output) : 'snd')).replace(/^zip$/, 'snd');
+
+  if (to === 'snd') {
+    const { zip, report } = await convertSlicesToZip(audio, baseName(input), slices, {
+      sampleRate: getSndRate(options),
+      quality: getQuality(options, 'high'),
+      stereo: !!options.stereo,
+      channel,
+    });
+    const output = options.output ?? path.join(path.dirname(input), `${report.programName}.zip`);
+    await writeFile(output, Buffer.from(zip));
+    return {
+      outputs: [output],
+      slices: report.files.map((entry, i) => ({
+        start: seconds(slices[i].start),
+        end: seconds(slices[i].end),
+        outputs: entry.outputs,
+        pads: entry.pads,
+      })),
+      warnings: report.files.reduce((warnings: string[], entry) => warnings.concat(entry.warnings), []),
+    };
+  }
+
+  if (to === 'sp12') {
+    const tuning = getTuning(options);
+    const builder = new SP1200DiskBuilderImpl();
+    const assignments = convertSlicesToSP1200Pads(
+      buffer, baseName(input), slices, { bank: 'A', padNumber: 1 }, tuning, getQuality(options, 'authentic'), channel ?? 'mix'
+    );
+    const warnings: string[] = [];
+    assignments.forEach(({ levels, truncated, ...assignment }) => {
+      builder.addSample(assignment);
+      if (truncated) warnings.push(`${assignment.name} truncated to ${SP1200_MAX_SECONDS} seconds`);
+    });
+    if (slices.length > assignments.length) {
+      warnings.push(`${slices.length - assignments.length} slices not assigned, all ${SP1200_MAX_PADS} pads are used`);
+    }
+    const output = options.output ?? path.join(path.dirname(input), `${baseName(input)}.sp12`);
+    await writeDiskImage(builder, output);
+    return {
+      outputs: [output],
+      slices: assignments.map((assignment, i) => ({
+        start: seconds(slices[i].start),
+        end: seconds(slices[i].end),
+        pad: `${assignment.bank}${assignment.padNumber}`,
+        name: assignment.name,
+      })),
+      warnings,
+    };
+  }
+
+  throw new UsageError(`Invalid output format for chop: ${to}`);
+}
+
+function printResult(result: Result, json: boolean): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+  const outputs = result.outputs as string[] | undefined;
+  if (!outputs) {
+    // info is a dump either way
+    process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    return;
+  }
+  outputs.forEach(output => process.stdout.write(`Wrote ${output}\n`));
+  ((result.warnings ?? []) as string[]).forEach(warning => process.stderr.write(`Warning: ${warning}\n`));
+  ((result.failed ?? []) as string[]).forEach(name => process.stderr.write(`Failed: ${name}\n`));
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        to: { type: 'string' },
+        rate: { type: 'string' },
+        quality: { type: 'string' },
+        stereo: { type: 'boolean' },
+        channel: { type: 'string' },
+        tuning: { type: 'string' },
+        'detect-pitch': { type: 'boolean' },
+        sensitivity: { type: 'string' },
+        json: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : error}\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, target] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return values.help ? 0 : 2;
+  }
+
+  try {
+    if (!target) throw new UsageError(`Missing input for ${command}`);
+    let result: Result;
+    switch (command) {
+      case 'info':
+        result = await info(target);
+        break;
+      case 'convert':
+        result = await convert(target, values);
+        break;
+      case 'extract':
+        result = await extract(target, values);
+        break;
+      case 'build-disk':
+        result = await buildDisk(target, values);
+        break;
+      case 'chop':
+        result = await chop(target, values);
+        break;
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+    printResult(result, !!values.json);
+    return (result.failed as string[] | undefined)?.length ? 1 : 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (values.json) {
+      process.stdout.write(`${JSON.stringify({ error: message }, null, 2)}\n`);
+    } else {
+      process.stderr.write(`Error: ${message}\n`);
+    }
+    if (error instanceof UsageError) {
+      if (!values.json) process.stderr.write(`\n${USAGE}\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,199 @@
+'use client'
+
+import { useRef, useState } from 'react'
+import {
+  AkaiDisk,
+  AkaiDiskFile,
+  extractAkaiDiskToZip,
+  getAkaiVolumePath,
+  readAkaiDisk,
+  readAkaiDiskSample,
+} from '@/lib/akaiDisk'
+import { createSndFile } from '@/lib/akaiSnd'
+
+interface AkaiDiskBrowserProps {
+  onOpenSample: (file: Blob, name: string) => void
+}
+
+const KIND_LABELS: Record<AkaiDiskFile['kind'], string> = {
+  sample: 'Sample',
+  program: 'Program',
+  other: 'Other',
+}
+
+export default function AkaiDiskBrowser({ onOpenSample }: AkaiDiskBrowserProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [disk, setDisk] = useState<AkaiDisk | null>(null)
+  const [diskName, setDiskName] = useState('')
+  const [volumeIndex, setVolumeIndex] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [isExtracting, setIsExtracting] = useState(false)
+
+  const volume = disk?.volumes[volumeIndex]
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    setStatus(null)
+    try {
+      const loaded = readAkaiDisk(await file.arrayBuffer())
+      setDisk(loaded)
+      setDiskName(file.name.replace(/\.img$/i, ''))
+      setVolumeIndex(0)
+    } catch (err) {
+      console.error('Error reading disk image:', err)
+      setDisk(null)
+      setError(err instanceof Error ? err.message : 'Error reading disk image')
+    }
+  }
+
+  const handleOpen = (file: AkaiDiskFile) => {
+    if (!disk || !volume) return
+    setError(null)
+    try {
+      const sample = readAkaiDiskSample(disk, volume, file)
+      onOpenSample(new Blob([createSndFile(sample)], { type: 'audio/snd' }), `${file.name}.snd`)
+    } catch (err) {
+      console.error(`Error extracting ${file.name}:`, err)
+      setError(err instanceof Error ? err.message : `Error extracting ${file.name}`)
+    }
+  }
+
+  const handleExtract = async (allVolumes: boolean) => {
+    if (!disk || !volume) return
+    setError(null)
+    setIsExtracting(true)
+    try {
+      const result = await extractAkaiDiskToZip(disk, allVolumes ? disk.volumes : [volume])
+      const url = URL.createObjectURL(result.zip)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${allVolumes ? diskName : getAkaiVolumePath(volume)}.zip`
+      document.body.appendChild(a)
+      a.click()
+      URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+      setStatus(
+        `Extracted ${result.extracted} samples` +
+        (result.failed.length > 0 ? `, ${result.failed.length} failed: ${result.failed.join(', ')}` : '')
+      )
+    } catch (err) {
+      console.error('Error extracting disk:', err)
+      setError(err instanceof Error ? err.message : 'Error extracting disk')
+    } finally {
+      setIsExtracting(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-blue-500 transition-colors"
+        onDrop={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          const file = e.dataTransfer.files[0]
+          if (file) handleFile(file)
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+        }}
+        onClick={() => inputRef.current?.click()}
+      >
+        <input
+          type="file"
+          ref={inputRef}
+          accept=".img"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) handleFile(file)
+          }}
+        />
+        <p className="text-gray-600">Drop an Akai S1000/S3000 floppy or hard disk .img here, or click to select</p>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {disk && volume && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-semibold">{diskName}</span>
+            <span className="text-gray-500">{disk.kind === 'floppy' ? 'Floppy' : 'Hard disk'}</span>
+            {disk.volumes.length > 1 && (
+              <select
+                value={volumeIndex}
+                onChange={(e) => setVolumeIndex(Number(e.target.value))}
+                className="border border-gray-300 rounded px-1"
+              >
+                {disk.volumes.map((v, i) => (
+                  <option key={`${v.partition}-${v.name}-${i}`} value={i}>
+                    {getAkaiVolumePath(v)} ({v.model})
+                  </option>
+                ))}
+              </select>
+            )}
+            <div className="ml-auto flex gap-2">
+              <button
+                onClick={() => handleExtract(false)}
+                disabled={isExtracting}
+                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+              >
+                Extract volume
+              </button>
+              {disk.volumes.length > 1 && (
+                <button
+                  onClick={() => handleExtract(true)}
+                  disabled={isExtracting}
+                  className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+                >
+                  Extract all
+                </button>
+              )}
+            </div>
+          </div>
+
+          {status && <p className="text-sm text-gray-600">{status}</p>}
+
+          <div className="max-h-80 overflow-y-auto border border-gray-200 rounded">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-2 py-1">Name</th>
+                  <th className="px-2 py-1">Type</th>
+                  <th className="px-2 py-1 text-right">Size</th>
+                  <th className="px-2 py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {volume.files.map((file, i) => (
+                  <tr key={`${file.name}-${i}`} className="border-t border-gray-100">
+                    <td className="px-2 py-1 font-mono">{file.name}</td>
+                    <td className="px-2 py-1">{file.model} {KIND_LABELS[file.kind]}</td>
+                    <td className="px-2 py-1 text-right">{(file.size / 1024).toFixed(1)} KB</td>
+                    <td className="px-2 py-1 text-right">
+                      {file.kind === 'sample' && (
+                        <button
+                          onClick={() => handleOpen(file)}
+                          className="px-2 py-0.5 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+                        >
+                          Open
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                {volume.files.length === 0 && (
+                  <tr>
+                    <td colSpan={4} className="px-2 py-2 text-center text-gray-500">Empty volume</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
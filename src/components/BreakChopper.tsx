@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Waveform from '@/components/Waveform'
+import { DecodedAudio, selectChannel } from '@/lib/audioDecoder'
+import { detectOnsets, getSliceRanges, SliceRange } from '@/lib/onsetDetection'
+import { buildPeakCache } from '@/lib/peakCache'
+import { findNearestZeroCrossing } from '@/lib/zeroCrossings'
+
+interface BreakChopperProps {
+  audio: DecodedAudio
+  // Pads the slices go to; slices past them are flagged
+  maxSlices: number
+  chopLabel: string
+  onChop: (slices: SliceRange[]) => void
+  busy?: boolean
+}
+
+const BUTTON_CLASS = 'px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50'
+const NUDGE_MS = [-10, -1, 1, 10]
+
+/**
+ * Slice a break at its detected onsets. Slice points can be dragged on the
+ * waveform, nudged, added with a double-click and removed, then the slices
+ * go to consecutive pads through `onChop`.
+ */
+export default function BreakChopper({ audio, maxSlices, chopLabel, onChop, busy = false }: BreakChopperProps) {
+  const [sensitivity, setSensitivity] = useState(0.5)
+  const [snapToZero, setSnapToZero] = useState(true)
+  const [points, setPoints] = useState<number[]>([])
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const voiceRef = useRef<AudioBufferSourceNode | null>(null)
+
+  const samples = useMemo(() => selectChannel(audio.channels, 'mix'), [audio])
+  const peaks = useMemo(() => buildPeakCache(audio.channels), [audio])
+  const slices = useMemo(() => getSliceRanges(points, samples.length), [points, samples])
+
+  // Re-detected for a new source or sensitivity, replacing any nudges
+  useEffect(() => {
+    setPoints(detectOnsets(samples, audio.sampleRate, { sensitivity }))
+  }, [samples, audio.sampleRate, sensitivity])
+
+  useEffect(() => () => {
+    voiceRef.current?.stop()
+    audioContextRef.current?.close()
+  }, [])
+
+  const ms = (frames: number) => Math.round((frames / audio.sampleRate) * 1000)
+
+  // Snap within `reach` frames, so a nudge can't snap back to where it was
+  const snap = (frame: number, reach = 2048) => (snapToZero ? findNearestZeroCrossing(samples, frame, reach) : frame)
+
+  const handleMarkersChange = (markers: number[]) => {
+    setPoints(markers.map(marker => snap(marker)).sort((a, b) => a - b))
+  }
+
+  const nudge = (index: number, deltaMs: number) => {
+    const delta = Math.round((deltaMs / 1000) * audio.sampleRate)
+    const frame = Math.max(0, Math.min(samples.length - 1, slices[index].start + delta))
+    const moved = snap(frame, Math.floor(Math.abs(delta) / 2))
+    setPoints(slices.map((slice, i) => (i === index ? moved : slice.start)).sort((a, b) => a - b))
+  }
+
+  const removePoint = (index: number) => {
+    setPoints(slices.filter((_, i) => i !== index).map(slice => slice.start))
+  }
+
+  const play = (slice: SliceRange) => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)()
+    }
+    const context = audioContextRef.current
+    const channels = audio.channels.slice(0, 2)
+    const buffer = context.createBuffer(channels.length, slice.end - slice.start, audio.sampleRate)
+    channels.forEach((channel, i) => buffer.copyToChannel(channel.slice(slice.start, slice.end), i))
+    voiceRef.current?.stop()
+    const voice = context.createBufferSource()
+    voice.buffer = buffer
+    voice.connect(context.destination)
+    voice.start()
+    voiceRef.current = voice
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-gray-700">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2">
+          Sensitivity
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={sensitivity}
+            onChange={(e) => setSensitivity(Number(e.target.value))}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={snapToZero}
+            onChange={(e) => setSnapToZero(e.target.checked)}
+          />
+          Snap to zero crossings
+        </label>
+        <span className="text-xs text-gray-500">Drag slice points, double-click to add or remove one</span>
+      </div>
+
+      <Waveform
+        peaks={peaks}
+        height={120}
+        markers={points}
+        onMarkersChange={handleMarkersChange}
+        className="bg-white rounded border border-gray-200"
+      />
+
+      {slices.length > 0 && (
+        <table className="text-xs text-gray-600 w-full max-w-lg">
+          <thead>
+            <tr className="text-left">
+              <th className="font-normal">Slice</th>
+              <th className="font-normal">Start</th>
+              <th className="font-normal">Length</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {slices.map((slice, i) => (
+              <tr key={i} className={i >= maxSlices ? 'opacity-50' : ''}>
+                <td>{i + 1}</td>
+                <td>{ms(slice.start)} ms</td>
+                <td>{ms(slice.end - slice.start)} ms</td>
+                <td className="flex flex-wrap gap-1 py-0.5">
+                  <button onClick={() => play(slice)} className={BUTTON_CLASS}>Play</button>
+                  {NUDGE_MS.map(delta => (
+                    <button key={delta} onClick={() => nudge(i, delta)} className={BUTTON_CLASS}>
+                      {delta > 0 ? `+${delta}` : delta} ms
+                    </button>
+                  ))}
+                  <button onClick={() => removePoint(i)} className="text-xs text-red-500 hover:text-red-400">
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {slices.length > maxSlices && (
+        <p className="text-xs text-gray-500">
+          Only the first {maxSlices} slices fit on the pads; lower the sensitivity or remove some.
+        </p>
+      )}
+
+      <div>
+        <button
+          onClick={() => onChop(slices.slice(0, maxSlices))}
+          disabled={busy || slices.length === 0}
+          className="px-3 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+        >
+          {chopLabel}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+import { ConversionLevels, LEVEL_FLOOR_DB, LevelReport } from '@/lib/levelAnalysis'
+
+interface LevelReportTableProps {
+  levels: ConversionLevels
+  title?: string
+}
+
+const WARNING_CLASS = 'text-red-500'
+
+function formatDb(db: number, unit = 'dB'): string {
+  if (db <= LEVEL_FLOOR_DB) return `-inf ${unit}`
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} ${unit}`
+}
+
+const ROWS: Array<{ label: string, format: (report: LevelReport) => string, warn?: (report: LevelReport) => boolean }> = [
+  { label: 'Peak', format: report => formatDb(report.peakDb, 'dBFS') },
+  { label: 'True peak', format: report => formatDb(report.truePeakDb, 'dBTP'), warn: report => report.truePeakDb > 0 },
+  { label: 'RMS', format: report => formatDb(report.rmsDb, 'dBFS') },
+  { label: 'Loudness', format: report => formatDb(report.loudness, 'LUFS') },
+  { label: 'Crest factor', format: report => formatDb(report.crestFactorDb) },
+  { label: 'DC offset', format: report => `${(report.dcOffset * 100).toFixed(2)}%`, warn: report => Math.abs(report.dcOffset) > 0.01 },
+  { label: 'Clipped samples', format: report => `${report.clippedSamples}`, warn: report => report.clippedSamples > 0 },
+]
+
+// Input against output levels of a conversion, flagging overs, clipping and
+// more than 1% DC offset
+export default function LevelReportTable({ levels, title }: LevelReportTableProps) {
+  return (
+    <div className="text-xs">
+      {title && <div className="font-medium mb-1">{title}</div>}
+      <table className="w-full max-w-sm">
+        <thead>
+          <tr className="text-left opacity-70">
+            <th className="font-normal"></th>
+            <th className="font-normal">Input ({levels.input.sampleRate} Hz)</th>
+            <th className="font-normal">Output ({levels.output.sampleRate} Hz)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ROWS.map(row => (
+            <tr key={row.label}>
+              <td className="pr-2 opacity-70">{row.label}</td>
+              {[levels.input, levels.output].map((report, i) => (
+                <td key={i} className={`pr-2 ${row.warn?.(report) ? WARNING_CLASS : ''}`}>
+                  {row.format(report)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {levels.gainDb !== 0 && (
+        <div className="mt-1 opacity-70">Normalized by {formatDb(levels.gainDb)}</div>
+      )}
+    </div>
+  )
+}
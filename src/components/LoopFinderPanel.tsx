@@ -0,0 +1,124 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CROSSFADE_CURVES, CrossfadeCurve, findLoopCandidates, LoopCandidate } from '@/lib/loopFinder'
+
+interface LoopFinderPanelProps {
+  data: Int16Array | Float32Array
+  sampleRate: number
+  // Where to look, normally the start/end markers
+  region: { start: number, end: number }
+  // Crossfade is null when the loop should be used as found
+  onUse: (loop: LoopCandidate, crossfade: { frames: number, curve: CrossfadeCurve } | null) => void
+}
+
+const BUTTON_CLASS = 'px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50'
+const INPUT_CLASS = 'w-16 border border-gray-300 rounded px-1'
+
+// Proposes loops inside the region, ranked by how smoothly they join, and
+// optionally crossfades the chosen one into the audio
+export default function LoopFinderPanel({ data, sampleRate, region, onUse }: LoopFinderPanelProps) {
+  const [candidates, setCandidates] = useState<LoopCandidate[] | null>(null)
+  const [minLengthMs, setMinLengthMs] = useState(20)
+  const [crossfade, setCrossfade] = useState(false)
+  const [crossfadeMs, setCrossfadeMs] = useState(10)
+  const [crossfadeCurve, setCrossfadeCurve] = useState<CrossfadeCurve>('equal-power')
+
+  // Results go stale as soon as the audio or region changes
+  useEffect(() => {
+    setCandidates(null)
+  }, [data, region.start, region.end])
+
+  const ms = (frames: number) => Math.round((frames / sampleRate) * 1000)
+
+  const findLoops = () => {
+    setCandidates(findLoopCandidates(data, region.start, region.end, {
+      minLength: Math.round((minLengthMs / 1000) * sampleRate),
+    }))
+  }
+
+  const chooseLoop = (loop: LoopCandidate) => {
+    onUse(loop, crossfade
+      ? { frames: Math.round((crossfadeMs / 1000) * sampleRate), curve: crossfadeCurve }
+      : null)
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-gray-700">
+      <span className="font-medium">Loop finder</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          Shortest
+          <input
+            type="number"
+            min={1}
+            value={minLengthMs}
+            onChange={(e) => setMinLengthMs(Math.max(1, Number(e.target.value) || 1))}
+            className={INPUT_CLASS}
+          />
+          ms
+        </label>
+        <button onClick={findLoops} className={BUTTON_CLASS}>
+          Find loops between markers
+        </button>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={crossfade}
+            onChange={(e) => setCrossfade(e.target.checked)}
+          />
+          Crossfade
+        </label>
+        <input
+          type="number"
+          min={1}
+          value={crossfadeMs}
+          disabled={!crossfade}
+          onChange={(e) => setCrossfadeMs(Math.max(1, Number(e.target.value) || 1))}
+          className={INPUT_CLASS}
+        />
+        ms
+        <select
+          value={crossfadeCurve}
+          disabled={!crossfade}
+          onChange={(e) => setCrossfadeCurve(e.target.value as CrossfadeCurve)}
+          className="border border-gray-300 rounded px-1"
+        >
+          {CROSSFADE_CURVES.map(curve => (
+            <option key={curve} value={curve}>{curve}</option>
+          ))}
+        </select>
+      </div>
+
+      {candidates && candidates.length === 0 && (
+        <p className="text-xs text-gray-500">No loops found; try a longer region or a shorter minimum.</p>
+      )}
+      {candidates && candidates.length > 0 && (
+        <table className="text-xs text-gray-600 w-full max-w-md">
+          <thead>
+            <tr className="text-left">
+              <th className="font-normal">Start - end</th>
+              <th className="font-normal">Length</th>
+              <th className="font-normal">Match</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {candidates.map(loop => (
+              <tr key={`${loop.start}:${loop.end}`}>
+                <td>{loop.start} - {loop.end}</td>
+                <td>{ms(loop.end - loop.start)} ms</td>
+                <td>{(loop.score * 100).toFixed(1)}%</td>
+                <td>
+                  <button onClick={() => chooseLoop(loop)} className="text-blue-500 hover:text-blue-600">
+                    Use
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
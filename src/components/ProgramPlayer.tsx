@@ -0,0 +1,371 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  getPadNote,
+  parsePgmFile,
+  PgmBank,
+  PgmDecayMode,
+  PgmNote,
+  PgmProgram,
+  PgmVoiceOverlap,
+  PGM_BANKS,
+  PGM_MAX_MUTE_GROUP,
+  PGM_PADS_PER_BANK,
+  writePgmFile,
+} from '@/lib/akaiPgm'
+import { MAX_VELOCITY, MpcProgramPlayer } from '@/lib/programPlayer'
+import { MPC3000_VOICE_LIMIT } from '@/lib/voiceAllocator'
+import { buildSampleLibrary, getDroppedFiles, LibraryFile, SampleLibrary } from '@/lib/sampleLibrary'
+import SequenceTransport from '@/components/SequenceTransport'
+
+// MPC pad layout: pad 1 bottom left, pad 16 top right
+const PAD_ROWS = [
+  [13, 14, 15, 16],
+  [9, 10, 11, 12],
+  [5, 6, 7, 8],
+  [1, 2, 3, 4],
+]
+
+export default function ProgramPlayer() {
+  const playerRef = useRef<MpcProgramPlayer | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [library, setLibrary] = useState<SampleLibrary | null>(null)
+  const [program, setProgram] = useState<PgmProgram | null>(null)
+  const [programFile, setProgramFile] = useState<LibraryFile | null>(null)
+  const [missing, setMissing] = useState<string[]>([])
+  const [bank, setBank] = useState<PgmBank>('A')
+  const [fullLevel, setFullLevel] = useState(false)
+  const [activePad, setActivePad] = useState<number | null>(null)
+  const [selectedPad, setSelectedPad] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [voiceLimit, setVoiceLimit] = useState(MPC3000_VOICE_LIMIT)
+  const [, setRevision] = useState(0)
+
+  useEffect(() => {
+    playerRef.current = new MpcProgramPlayer()
+    return () => {
+      playerRef.current?.stopAll()
+      playerRef.current?.context?.close()
+    }
+  }, [])
+
+  const loadProgramFile = async (file: LibraryFile, sampleLibrary: SampleLibrary) => {
+    if (!playerRef.current) return
+    const parsed = parsePgmFile(file.data)
+    const result = await playerRef.current.loadProgram(parsed, sampleLibrary)
+    setProgram(parsed)
+    setProgramFile(file)
+    setMissing(result.missing)
+    setSelectedPad(null)
+  }
+
+  const handleFiles = async (files: File[]) => {
+    setError(null)
+    setIsLoading(true)
+    try {
+      const sampleLibrary = await buildSampleLibrary(files)
+      if (sampleLibrary.programs.length === 0) {
+        throw new Error('No .PGM file found. Drop a program together with its SND files, a folder or a zip.')
+      }
+      setLibrary(sampleLibrary)
+      await loadProgramFile(sampleLibrary.programs[0], sampleLibrary)
+    } catch (err) {
+      console.error('Error loading program:', err)
+      setError(err instanceof Error ? err.message : 'Error loading program')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleProgramSelect = async (name: string) => {
+    const file = library?.programs.find(p => p.name === name)
+    if (!file || !library) return
+    try {
+      await loadProgramFile(file, library)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error loading program')
+    }
+  }
+
+  // Velocity follows how high on the pad it was hit, unless Full Level is on
+  const handlePadDown = async (e: React.PointerEvent<HTMLButtonElement>, pad: number) => {
+    if (!playerRef.current) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const height = 1 - (e.clientY - rect.top) / rect.height
+    const velocity = fullLevel
+      ? MAX_VELOCITY
+      : Math.max(1, Math.min(MAX_VELOCITY, Math.round(height * MAX_VELOCITY)))
+
+    setActivePad(pad)
+    setSelectedPad(pad)
+    await playerRef.current.resume()
+    playerRef.current.playPad(bank, pad, velocity)
+  }
+
+  const handlePadUp = (pad: number) => {
+    if (activePad !== pad) return
+    setActivePad(null)
+    playerRef.current?.releasePad(bank, pad)
+  }
+
+  const updateSelectedNote = (changes: Partial<PgmNote>) => {
+    if (!program || selectedPad === null) return
+    const note = getPadNote(program, bank, selectedPad)
+    if (!note) return
+    // The player reads parameters from this program on every hit
+    Object.assign(note, changes)
+    setRevision(r => r + 1)
+  }
+
+  const handleVoiceLimitChange = (limit: number) => {
+    const clamped = Math.max(1, Math.min(64, limit || 1))
+    setVoiceLimit(clamped)
+    playerRef.current?.setVoiceLimit(clamped)
+  }
+
+  const handleSave = () => {
+    if (!program) return
+    const blob = new Blob([writePgmFile(program)], { type: 'application/octet-stream' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = programFile?.name ?? `${program.name || 'PROGRAM'}.PGM`
+    document.body.appendChild(a)
+    a.click()
+    URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const selectedNote = program && selectedPad !== null ? getPadNote(program, bank, selectedPad) : undefined
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div
+        className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center cursor-pointer hover:border-blue-500 transition-colors"
+        onDrop={async (e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          handleFiles(await getDroppedFiles(e.dataTransfer))
+        }}
+        onDragOver={(e) => {
+          e.preventDefault()
+          e.stopPropagation()
+        }}
+        onClick={() => inputRef.current?.click()}
+      >
+        <input
+          type="file"
+          ref={inputRef}
+          multiple
+          accept=".pgm,.snd,.seq,.all,.mid,.midi,.zip"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? [])
+            if (files.length > 0) handleFiles(files)
+          }}
+        />
+        <p className="text-gray-600">
+          {isLoading
+            ? 'Loading program...'
+            : 'Drop a .PGM with its SND files (and any .SEQ/.ALL/.MID), a folder or a zip here, or click to select'}
+        </p>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {program && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{program.name || 'Untitled'}</span>
+              {library && library.programs.length > 1 && (
+                <select
+                  value={programFile?.name}
+                  onChange={(e) => handleProgramSelect(e.target.value)}
+                  className="border border-gray-300 rounded px-1 text-sm"
+                >
+                  {library.programs.map(p => (
+                    <option key={p.name} value={p.name}>{p.name}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <button
+              onClick={handleSave}
+              className="px-3 py-1 text-sm bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Save PGM
+            </button>
+          </div>
+
+          {missing.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              Missing samples: {missing.join(', ')}
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            {PGM_BANKS.map(b => (
+              <button
+                key={b}
+                onClick={() => setBank(b)}
+                className={`px-3 py-1 rounded text-sm font-medium transition-colors ${
+                  bank === b ? 'bg-blue-500 text-white' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+              >
+                Bank {b}
+              </button>
+            ))}
+            <label className="ml-auto flex items-center gap-1 text-sm text-gray-700">
+              Voices
+              <input
+                type="number"
+                min={1}
+                max={64}
+                value={voiceLimit}
+                onChange={(e) => handleVoiceLimitChange(Number(e.target.value))}
+                className="w-14 border border-gray-300 rounded px-1"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={fullLevel}
+                onChange={(e) => setFullLevel(e.target.checked)}
+              />
+              Full level
+            </label>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {PAD_ROWS.flat().map(pad => {
+              const note = getPadNote(program, bank, pad)
+              const hasSample = !!note && playerRef.current?.hasSample(note.note)
+              return (
+                <button
+                  key={pad}
+                  onPointerDown={(e) => handlePadDown(e, pad)}
+                  onPointerUp={() => handlePadUp(pad)}
+                  onPointerLeave={() => handlePadUp(pad)}
+                  className={`
+                    aspect-square rounded-lg p-2 flex flex-col items-center justify-center
+                    transition-colors duration-100 select-none touch-none
+                    ${activePad === pad ? 'bg-blue-400 text-white' : hasSample ? 'bg-gray-200 hover:bg-gray-300' : 'bg-gray-100 text-gray-400'}
+                    ${selectedPad === pad ? 'ring-2 ring-blue-500' : ''}
+                  `}
+                >
+                  <span className="text-sm font-bold">{bank}{pad}</span>
+                  <span className="text-xs truncate w-full text-center">
+                    {note?.sampleName || 'Empty'}
+                  </span>
+                  {note && <span className="text-[10px] text-gray-500">Note {note.note}</span>}
+                </button>
+              )
+            })}
+          </div>
+
+          {selectedNote && selectedPad !== null && (
+            <div className="p-4 bg-gray-50 rounded-lg grid grid-cols-3 gap-4 text-sm text-gray-700">
+              <label className="flex flex-col gap-1">
+                Tune: {selectedNote.tuning.toFixed(1)}
+                <input
+                  type="range"
+                  min={-12}
+                  max={12}
+                  step={0.1}
+                  value={selectedNote.tuning}
+                  onChange={(e) => updateSelectedNote({ tuning: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Level: {selectedNote.level}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={selectedNote.level}
+                  onChange={(e) => updateSelectedNote({ level: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Pan: {selectedNote.pan - 50}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={selectedNote.pan}
+                  onChange={(e) => updateSelectedNote({ pan: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Attack: {selectedNote.attack}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={selectedNote.attack}
+                  onChange={(e) => updateSelectedNote({ attack: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Decay: {selectedNote.decay}
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={selectedNote.decay}
+                  onChange={(e) => updateSelectedNote({ decay: Number(e.target.value) })}
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                Decay mode
+                <select
+                  value={selectedNote.decayMode}
+                  onChange={(e) => updateSelectedNote({ decayMode: e.target.value as PgmDecayMode })}
+                  className="border border-gray-300 rounded px-1"
+                >
+                  <option value="end">End</option>
+                  <option value="start">Start</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Mute group
+                <select
+                  value={selectedNote.muteGroup}
+                  onChange={(e) => updateSelectedNote({ muteGroup: Number(e.target.value) })}
+                  className="border border-gray-300 rounded px-1"
+                >
+                  <option value={0}>Off</option>
+                  {Array.from({ length: PGM_MAX_MUTE_GROUP }, (_, i) => i + 1).map(group => (
+                    <option key={group} value={group}>{group}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                Voice overlap
+                <select
+                  value={selectedNote.voiceOverlap}
+                  onChange={(e) => updateSelectedNote({ voiceOverlap: e.target.value as PgmVoiceOverlap })}
+                  className="border border-gray-300 rounded px-1"
+                >
+                  <option value="poly">Poly</option>
+                  <option value="mono">Mono</option>
+                </select>
+              </label>
+            </div>
+          )}
+
+          {library && library.sequences.length > 0 && playerRef.current && (
+            <SequenceTransport player={playerRef.current} files={library.sequences} />
+          )}
+
+          <p className="text-xs text-gray-500 text-center">
+            {PGM_PADS_PER_BANK} pads per bank. Hit higher on a pad for more velocity.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
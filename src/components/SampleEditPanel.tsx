@@ -0,0 +1,151 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  describeSampleEdit,
+  FADE_CURVES,
+  FadeCurve,
+  NormalizeMode,
+  SampleEdit,
+  SAMPLE_EDIT_NAMES,
+} from '@/lib/sampleEdits'
+
+interface SampleEditPanelProps {
+  edits: SampleEdit[]
+  sampleRate: number
+  // Current start/end markers, what "Trim to selection" keeps
+  selection: { start: number, end: number }
+  onAdd: (edit: SampleEdit) => void
+  onUndo: () => void
+  onRevert: () => void
+}
+
+const BUTTON_CLASS = 'px-2 py-1 text-xs bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50'
+const INPUT_CLASS = 'w-16 border border-gray-300 rounded px-1'
+
+// Controls for building the edit list; nothing is applied to the source
+// until the sample is saved or exported
+export default function SampleEditPanel({ edits, sampleRate, selection, onAdd, onUndo, onRevert }: SampleEditPanelProps) {
+  const [normalizeMode, setNormalizeMode] = useState<NormalizeMode>('peak')
+  const [normalizeDb, setNormalizeDb] = useState(-0.3)
+  const [fadeMs, setFadeMs] = useState(10)
+  const [fadeCurve, setFadeCurve] = useState<FadeCurve>('linear')
+  const [gainDb, setGainDb] = useState(-3)
+  const [silenceDb, setSilenceDb] = useState(-60)
+
+  const fadeFrames = Math.round((fadeMs / 1000) * sampleRate)
+
+  return (
+    <div className="flex flex-col gap-2 text-sm text-gray-700">
+      <span className="font-medium">Edits</span>
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onAdd({ type: 'trim', start: selection.start, end: selection.end })}
+          className={BUTTON_CLASS}
+        >
+          {SAMPLE_EDIT_NAMES.trim}
+        </button>
+        <button onClick={() => onAdd({ type: 'reverse' })} className={BUTTON_CLASS}>
+          {SAMPLE_EDIT_NAMES.reverse}
+        </button>
+        <button onClick={() => onAdd({ type: 'removeDc' })} className={BUTTON_CLASS}>
+          {SAMPLE_EDIT_NAMES.removeDc}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={normalizeMode}
+          onChange={(e) => setNormalizeMode(e.target.value as NormalizeMode)}
+          className="border border-gray-300 rounded px-1"
+        >
+          <option value="peak">Peak</option>
+          <option value="rms">RMS</option>
+        </select>
+        <input
+          type="number"
+          step={0.1}
+          max={0}
+          value={normalizeDb}
+          onChange={(e) => setNormalizeDb(Number(e.target.value) || 0)}
+          className={INPUT_CLASS}
+        />
+        dB
+        <button
+          onClick={() => onAdd({ type: 'normalize', mode: normalizeMode, targetDb: normalizeDb })}
+          className={BUTTON_CLASS}
+        >
+          {SAMPLE_EDIT_NAMES.normalize}
+        </button>
+        <input
+          type="number"
+          step={0.5}
+          value={gainDb}
+          onChange={(e) => setGainDb(Number(e.target.value) || 0)}
+          className={INPUT_CLASS}
+        />
+        dB
+        <button onClick={() => onAdd({ type: 'gain', db: gainDb })} className={BUTTON_CLASS}>
+          {SAMPLE_EDIT_NAMES.gain}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="number"
+          min={1}
+          value={fadeMs}
+          onChange={(e) => setFadeMs(Math.max(1, Number(e.target.value) || 1))}
+          className={INPUT_CLASS}
+        />
+        ms
+        <select
+          value={fadeCurve}
+          onChange={(e) => setFadeCurve(e.target.value as FadeCurve)}
+          className="border border-gray-300 rounded px-1"
+        >
+          {FADE_CURVES.map(curve => (
+            <option key={curve} value={curve}>{curve}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onAdd({ type: 'fade', direction: 'in', frames: fadeFrames, curve: fadeCurve })}
+          className={BUTTON_CLASS}
+        >
+          Fade in
+        </button>
+        <button
+          onClick={() => onAdd({ type: 'fade', direction: 'out', frames: fadeFrames, curve: fadeCurve })}
+          className={BUTTON_CLASS}
+        >
+          Fade out
+        </button>
+        <input
+          type="number"
+          max={0}
+          value={silenceDb}
+          onChange={(e) => setSilenceDb(Number(e.target.value) || 0)}
+          className={INPUT_CLASS}
+        />
+        dB
+        <button onClick={() => onAdd({ type: 'stripSilence', thresholdDb: silenceDb })} className={BUTTON_CLASS}>
+          {SAMPLE_EDIT_NAMES.stripSilence}
+        </button>
+      </div>
+
+      {edits.length > 0 && (
+        <div className="flex flex-col gap-1">
+          <ol className="list-decimal pl-5 text-xs text-gray-600">
+            {edits.map((edit, i) => (
+              <li key={i}>{describeSampleEdit(edit, sampleRate)}</li>
+            ))}
+          </ol>
+          <div className="flex gap-2">
+            <button onClick={onUndo} className={BUTTON_CLASS}>Undo last edit</button>
+            <button onClick={onRevert} className={BUTTON_CLASS}>Revert to original</button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
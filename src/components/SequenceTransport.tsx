@@ -0,0 +1,201 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  formatSeqPosition,
+  parseAllFile,
+  parseSeqFile,
+  SeqSequence,
+} from '@/lib/akaiSeq'
+import { midiToSequence, parseMidiFile, sequenceToMidi, writeMidiFile } from '@/lib/midiFile'
+import { MpcProgramPlayer } from '@/lib/programPlayer'
+import { LibraryFile } from '@/lib/sampleLibrary'
+import { SequencePlayer } from '@/lib/sequencePlayer'
+
+interface SequenceEntry {
+  label: string
+  sequence: SeqSequence
+}
+
+interface SequenceTransportProps {
+  player: MpcProgramPlayer
+  files: LibraryFile[] // .SEQ, .ALL and .MID files
+}
+
+// Read every sequence out of the dropped .SEQ, .ALL and .MID files
+function loadSequences(files: LibraryFile[]): { entries: SequenceEntry[], errors: string[] } {
+  const entries: SequenceEntry[] = []
+  const errors: string[] = []
+  files.forEach(file => {
+    try {
+      const name = file.name.toLowerCase()
+      if (name.endsWith('.mid') || name.endsWith('.midi')) {
+        const sequence = midiToSequence(parseMidiFile(file.data), { name: file.name.replace(/\.midi?$/i, '') })
+        entries.push({ label: `${file.name}: ${sequence.name}`, sequence })
+      } else if (name.endsWith('.all')) {
+        parseAllFile(file.data).sequences.forEach(sequence => {
+          entries.push({ label: `${file.name} ${sequence.number}: ${sequence.name}`, sequence })
+        })
+      } else {
+        const sequence = parseSeqFile(file.data)
+        entries.push({ label: `${file.name}: ${sequence.name}`, sequence })
+      }
+    } catch (err) {
+      console.error(`Error reading ${file.name}:`, err)
+      errors.push(`${file.name}: ${err instanceof Error ? err.message : 'unreadable'}`)
+    }
+  })
+  return { entries, errors }
+}
+
+export default function SequenceTransport({ player, files }: SequenceTransportProps) {
+  const sequencerRef = useRef<SequencePlayer | null>(null)
+  const { entries, errors } = useMemo(() => loadSequences(files), [files])
+  const [selected, setSelected] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [tempo, setTempo] = useState(120)
+  const [, setRevision] = useState(0)
+
+  const sequence = entries[selected]?.sequence
+
+  useEffect(() => {
+    const sequencer = new SequencePlayer(player)
+    sequencer.onstop = () => setIsPlaying(false)
+    sequencerRef.current = sequencer
+    return () => sequencer.stop()
+  }, [player])
+
+  useEffect(() => {
+    if (!sequence || !sequencerRef.current) return
+    sequencerRef.current.load(sequence)
+    setTempo(sequence.tempo)
+    setPosition(0)
+  }, [sequence, player])
+
+  useEffect(() => {
+    if (!isPlaying) return
+    const interval = setInterval(() => {
+      setPosition(sequencerRef.current?.getPosition() ?? 0)
+    }, 50)
+    return () => clearInterval(interval)
+  }, [isPlaying])
+
+  const handlePlay = async () => {
+    const sequencer = sequencerRef.current
+    if (!sequencer) return
+    if (sequencer.isPlaying) {
+      sequencer.stop()
+      return
+    }
+    await sequencer.play()
+    setIsPlaying(sequencer.isPlaying)
+  }
+
+  const handleTempoChange = (bpm: number) => {
+    sequencerRef.current?.setTempo(bpm)
+    setTempo(sequencerRef.current?.currentTempo ?? bpm)
+  }
+
+  const handleExportMidi = () => {
+    if (!sequence) return
+    const blob = new Blob([writeMidiFile(sequenceToMidi(sequence))], { type: 'audio/midi' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${sequence.name || 'SEQUENCE'}.mid`
+    document.body.appendChild(a)
+    a.click()
+    URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const toggleMute = (index: number) => {
+    const track = sequence?.tracks.find(t => t.index === index)
+    if (!track) return
+    // The sequencer checks the mute flag as it schedules each note
+    track.muted = !track.muted
+    setRevision(r => r + 1)
+  }
+
+  if (entries.length === 0 && errors.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-3 p-4 bg-gray-50 rounded-lg text-sm text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold">Sequence</span>
+        {entries.length > 0 && (
+          <select
+            value={selected}
+            onChange={(e) => setSelected(Number(e.target.value))}
+            className="border border-gray-300 rounded px-1"
+          >
+            {entries.map((entry, i) => (
+              <option key={entry.label} value={i}>{entry.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {errors.map(error => (
+        <p key={error} className="text-red-600">{error}</p>
+      ))}
+
+      {sequence && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={handlePlay}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+            >
+              {isPlaying ? 'Stop' : 'Play'}
+            </button>
+            <span className="font-mono">{formatSeqPosition(position, sequence.timeSignature)}</span>
+            <label className="flex items-center gap-1">
+              Tempo
+              <input
+                type="number"
+                min={30}
+                max={300}
+                step={0.1}
+                value={tempo}
+                onChange={(e) => handleTempoChange(Number(e.target.value))}
+                className="w-20 border border-gray-300 rounded px-1"
+              />
+            </label>
+            <span>
+              {sequence.timeSignature.numerator}/{sequence.timeSignature.denominator},{' '}
+              {sequence.bars} bars, {sequence.loopToBar > 0 ? `loop to bar ${sequence.loopToBar}` : 'loop off'}
+            </span>
+            <button
+              onClick={handleExportMidi}
+              className="ml-auto px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+            >
+              Export MIDI
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-1">
+            {sequence.tracks.map(track => (
+              <label key={track.index} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={!track.muted}
+                  disabled={track.type === 'midi'}
+                  onChange={() => toggleMute(track.index)}
+                />
+                <span className="truncate">
+                  {String(track.index + 1).padStart(2, '0')} {track.name || 'Untitled'}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {track.type === 'midi' ? `MIDI ch ${track.midiChannel || 'off'}` : `PGM ${track.program}`}
+                  {' '}· {track.events.filter(e => e.type === 'note').length} notes
+                </span>
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
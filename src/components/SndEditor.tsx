@@ -0,0 +1,592 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import SndPlayer from '@/components/SndPlayer'
+import SampleEditPanel from '@/components/SampleEditPanel'
+import LoopFinderPanel from '@/components/LoopFinderPanel'
+import SpectrumAnalyzer, { SpectrumTrace } from '@/components/SpectrumAnalyzer'
+import {
+  createEmptyLoop,
+  createSndFile,
+  createSndLoop,
+  getSndLoopBounds,
+  getSndSampleRate,
+  parseSndFile,
+  SndLoopMode,
+  SndSample,
+  SND_LOOP_HOLD,
+  SND_LOOP_IN_RELEASE,
+  SND_LOOP_MODE_NAMES,
+  SND_LOOP_NONE,
+  SND_LOOP_PLAY_TO_END,
+  SND_LOOP_UNTIL_RELEASE,
+  SND_MAX_LOOPS,
+  sndDataToFloat,
+  sndToAiff,
+  sndToWav,
+} from '@/lib/akaiSnd'
+import { decodeAudio, selectChannel } from '@/lib/audioDecoder'
+import { CrossfadeCurve, LoopCandidate } from '@/lib/loopFinder'
+import { applySampleEdits, applySampleEditsToSnd, EditTransform, mapEditedRange, SampleEdit } from '@/lib/sampleEdits'
+import { findNearestZeroCrossing } from '@/lib/zeroCrossings'
+
+interface SndEditorProps {
+  sndFile: Blob
+  fileName: string
+  // Right half of a linked stereo pair, edited together with the left
+  rightSndFile?: Blob
+  rightFileName?: string
+  // The WAV/AIFF the SND was converted from, overlaid in the spectrum
+  sourceFile?: Blob
+}
+
+interface EditorLoop {
+  start: number
+  end: number
+  time: number // msec, SND_LOOP_HOLD for hold
+}
+
+interface EditorMarkers {
+  start: number
+  end: number
+  loopMode: SndLoopMode
+  loops: EditorLoop[]
+}
+
+// An applied edit and the markers from before it, restored on undo
+interface EditEntry {
+  edit: SampleEdit
+  markersBefore: EditorMarkers
+}
+
+type DragTarget =
+  | { kind: 'start' }
+  | { kind: 'end' }
+  | { kind: 'loopStart' | 'loopEnd', index: number }
+
+const CANVAS_WIDTH = 800
+const CANVAS_HEIGHT = 160
+const HANDLE_HIT_PX = 6
+const LOOP_COLORS = ['#3b82f6', '#a855f7', '#f59e0b', '#14b8a6', '#ec4899', '#84cc16', '#f97316']
+const LOOP_MODES: SndLoopMode[] = [SND_LOOP_NONE, SND_LOOP_UNTIL_RELEASE, SND_LOOP_IN_RELEASE, SND_LOOP_PLAY_TO_END]
+
+function markersFromSample({ header, data }: SndSample): EditorMarkers {
+  const end = Math.min(header.endMarker || data.length, data.length)
+  const loops: EditorLoop[] = []
+  for (let i = 0; i < header.activeLoops && header.firstActiveLoop + i < SND_MAX_LOOPS; i++) {
+    const loop = header.loops[header.firstActiveLoop + i]
+    const bounds = getSndLoopBounds(loop)
+    if (bounds.end > bounds.start) {
+      loops.push({ start: bounds.start, end: bounds.end, time: loop.time })
+    }
+  }
+  return { start: Math.min(header.startMarker, end), end, loopMode: header.loopMode, loops }
+}
+
+// Write the edited markers into a copy of the sample's header
+function applyMarkers(sample: SndSample, markers: EditorMarkers): SndSample {
+  const loops = markers.loops.map(loop => createSndLoop(loop.start, loop.end, loop.time))
+  while (loops.length < SND_MAX_LOOPS) loops.push(createEmptyLoop())
+  return {
+    data: sample.data,
+    header: {
+      ...sample.header,
+      startMarker: Math.round(markers.start),
+      endMarker: Math.round(markers.end),
+      activeLoops: markers.loops.length,
+      firstActiveLoop: 0,
+      loopMode: markers.loops.length > 0 ? markers.loopMode : SND_LOOP_NONE,
+      loops,
+    },
+  }
+}
+
+// Move markers along with an edit; start/end fall back to the whole sample
+// and loops that were cut away are dropped
+function mapMarkers(markers: EditorMarkers, transforms: EditTransform[], length: number): EditorMarkers {
+  const range = mapEditedRange(transforms, markers.start, markers.end)
+  const loops: EditorLoop[] = []
+  markers.loops.forEach(loop => {
+    const mapped = mapEditedRange(transforms, loop.start, loop.end)
+    if (mapped && mapped.end > mapped.start) loops.push({ ...loop, ...mapped })
+  })
+  return {
+    ...markers,
+    start: range ? range.start : 0,
+    end: range ? range.end : length,
+    loops: loops.sort((a, b) => a.end - b.end),
+  }
+}
+
+function downloadBlob(blob: Blob, fileName: string, extension = '.snd') {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName.replace(/\.[^/.]+$/, '') + extension
+  document.body.appendChild(a)
+  a.click()
+  URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
+
+export default function SndEditor({ sndFile, fileName, rightSndFile, rightFileName, sourceFile }: SndEditorProps) {
+  // The files as loaded, kept intact; everything below works on the edited copy
+  const [source, setSource] = useState<SndSample | null>(null)
+  const [rightSource, setRightSource] = useState<SndSample | null>(null)
+  const [edits, setEdits] = useState<EditEntry[]>([])
+  const [markers, setMarkers] = useState<EditorMarkers | null>(null)
+  const [draft, setDraft] = useState<EditorMarkers | null>(null)
+  const [snapToZero, setSnapToZero] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showSpectrum, setShowSpectrum] = useState(false)
+  const [sourceAudio, setSourceAudio] = useState<{ samples: Float32Array, sampleRate: number } | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragRef = useRef<DragTarget | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([sndFile.arrayBuffer(), rightSndFile?.arrayBuffer()]).then(([buffer, rightBuffer]) => {
+      if (cancelled) return
+      try {
+        const parsed = parseSndFile(buffer)
+        setSource(parsed)
+        setRightSource(rightBuffer ? parseSndFile(rightBuffer) : null)
+        setEdits([])
+        setMarkers(markersFromSample(parsed))
+        setError(null)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Error reading SND file')
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sndFile, rightSndFile])
+
+  useEffect(() => {
+    let cancelled = false
+    setSourceAudio(null)
+    sourceFile?.arrayBuffer().then(buffer => {
+      if (cancelled) return
+      try {
+        const audio = decodeAudio(buffer)
+        setSourceAudio({ samples: selectChannel(audio.channels, 'mix'), sampleRate: audio.sampleRate })
+      } catch (err) {
+        console.warn('Source not available for the spectrum:', err)
+      }
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [sourceFile])
+
+  const processed = useMemo(
+    () => (source ? applySampleEditsToSnd(source, edits.map(entry => entry.edit), rightSource) : null),
+    [source, rightSource, edits]
+  )
+  const sample = processed?.left ?? null
+  const rightSample = processed?.right ?? null
+
+  const shown = draft ?? markers
+
+  // Loops are searched in what both halves of a pair have in common
+  const loopSearchData = useMemo(() => {
+    if (!sample || !rightSample) return sample?.data ?? null
+    return selectChannel([sndDataToFloat(sample.data), sndDataToFloat(rightSample.data)], 'mix')
+  }, [sample, rightSample])
+
+  // Built only while the analyzer is open, it re-runs the FFTs on every edit
+  const spectrumTraces = useMemo(() => {
+    if (!showSpectrum || !sample) return []
+    const rate = getSndSampleRate(sample.header)
+    const traces: SpectrumTrace[] = [
+      { label: rightSample ? 'SND left' : 'SND', samples: sndDataToFloat(sample.data), sampleRate: rate, color: '#60a5fa' },
+    ]
+    if (rightSample) {
+      traces.push({ label: 'SND right', samples: sndDataToFloat(rightSample.data), sampleRate: rate, color: '#a78bfa' })
+    }
+    if (sourceAudio) {
+      traces.push({ label: 'Source', ...sourceAudio, color: '#f59e0b' })
+    }
+    return traces
+  }, [showSpectrum, sample, rightSample, sourceAudio])
+
+  // Draw the waveform with markers and loop regions on top
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || !sample || !shown) return
+
+    const { data } = sample
+    const framesPerPixel = Math.max(1, data.length / CANVAS_WIDTH)
+    const toX = (frame: number) => (frame / Math.max(1, data.length)) * CANVAS_WIDTH
+    const mid = CANVAS_HEIGHT / 2
+
+    ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT)
+
+    shown.loops.forEach((loop, i) => {
+      ctx.fillStyle = `${LOOP_COLORS[i]}33`
+      ctx.fillRect(toX(loop.start), 0, toX(loop.end) - toX(loop.start), CANVAS_HEIGHT)
+    })
+
+    ctx.fillStyle = '#4b5563'
+    for (let x = 0; x < CANVAS_WIDTH; x++) {
+      const from = Math.floor(x * framesPerPixel)
+      const to = Math.min(data.length, Math.floor((x + 1) * framesPerPixel))
+      let min = 0
+      let max = 0
+      for (let i = from; i < to; i++) {
+        if (data[i] < min) min = data[i]
+        if (data[i] > max) max = data[i]
+      }
+      const top = mid - (max / 32768) * mid
+      const bottom = mid - (min / 32768) * mid
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top))
+    }
+
+    // Shade what is outside the start/end markers
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.6)'
+    ctx.fillRect(0, 0, toX(shown.start), CANVAS_HEIGHT)
+    ctx.fillRect(toX(shown.end), 0, CANVAS_WIDTH - toX(shown.end), CANVAS_HEIGHT)
+
+    const drawLine = (frame: number, color: string, label: string) => {
+      const x = Math.round(toX(frame)) + 0.5
+      ctx.strokeStyle = color
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, CANVAS_HEIGHT)
+      ctx.stroke()
+      ctx.fillStyle = color
+      ctx.font = '10px sans-serif'
+      ctx.fillText(label, x + 2, 10)
+    }
+
+    drawLine(shown.start, '#16a34a', 'S')
+    drawLine(shown.end, '#dc2626', 'E')
+    shown.loops.forEach((loop, i) => {
+      drawLine(loop.start, LOOP_COLORS[i], `L${i + 1}`)
+      drawLine(loop.end, LOOP_COLORS[i], '')
+    })
+  }, [sample, shown])
+
+  const editedSample = useMemo(
+    () => (sample && markers ? applyMarkers(sample, markers) : null),
+    [sample, markers]
+  )
+
+  // Rebuilt only when an edit is committed, so dragging doesn't reload the player
+  const previewBlob = useMemo(
+    () => (editedSample ? new Blob([createSndFile(editedSample)], { type: 'audio/snd' }) : null),
+    [editedSample]
+  )
+
+  // The right half of a stereo pair takes the same markers and loops
+  const rightPreviewBlob = useMemo(
+    () => (rightSample && markers
+      ? new Blob([createSndFile(applyMarkers(rightSample, markers))], { type: 'audio/snd' })
+      : undefined),
+    [rightSample, markers]
+  )
+
+  const frameAtPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+    return ratio * (sample?.data.length ?? 0)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!sample || !markers) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const frame = frameAtPointer(e)
+    const framesPerPx = sample.data.length / rect.width
+    const hitFrames = HANDLE_HIT_PX * framesPerPx
+
+    const candidates: Array<{ target: DragTarget, frame: number }> = [
+      { target: { kind: 'start' }, frame: markers.start },
+      { target: { kind: 'end' }, frame: markers.end },
+    ]
+    markers.loops.forEach((loop, index) => {
+      candidates.push({ target: { kind: 'loopStart', index }, frame: loop.start })
+      candidates.push({ target: { kind: 'loopEnd', index }, frame: loop.end })
+    })
+
+    let closest: { target: DragTarget, distance: number } | null = null
+    for (const candidate of candidates) {
+      const distance = Math.abs(candidate.frame - frame)
+      if (distance <= hitFrames && (!closest || distance < closest.distance)) {
+        closest = { target: candidate.target, distance }
+      }
+    }
+    if (!closest) return
+
+    dragRef.current = closest.target
+    setDraft(markers)
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const target = dragRef.current
+    if (!target || !sample || !draft) return
+
+    let frame = Math.round(frameAtPointer(e))
+    if (snapToZero) frame = findNearestZeroCrossing(sample.data, frame)
+
+    const next: EditorMarkers = { ...draft, loops: draft.loops.map(loop => ({ ...loop })) }
+    if (target.kind === 'start') {
+      next.start = Math.min(frame, next.end - 1)
+      next.loops.forEach(loop => { loop.start = Math.max(loop.start, next.start) })
+    } else if (target.kind === 'end') {
+      next.end = Math.max(frame, next.start + 1)
+      next.loops.forEach(loop => { loop.end = Math.min(loop.end, next.end) })
+    } else if (target.kind === 'loopStart') {
+      const loop = next.loops[target.index]
+      loop.start = Math.max(next.start, Math.min(frame, loop.end - 1))
+    } else {
+      const loop = next.loops[target.index]
+      loop.end = Math.min(next.end, Math.max(frame, loop.start + 1))
+    }
+    setDraft(next)
+  }
+
+  const handlePointerUp = () => {
+    if (!dragRef.current || !draft) return
+    dragRef.current = null
+    // Loops play in the order of their end points
+    setMarkers({ ...draft, loops: [...draft.loops].sort((a, b) => a.end - b.end) })
+    setDraft(null)
+  }
+
+  const addLoop = () => {
+    if (!sample || !markers || markers.loops.length >= SND_MAX_LOOPS) return
+    const from = markers.loops.length > 0 ? markers.loops[markers.loops.length - 1].end : markers.start
+    if (markers.end - from < 2) return
+    let start = from + Math.floor((markers.end - from) / 2)
+    let end = markers.end
+    if (snapToZero) {
+      start = findNearestZeroCrossing(sample.data, start)
+      end = Math.max(start + 1, findNearestZeroCrossing(sample.data, end - 1))
+    }
+    setMarkers({
+      ...markers,
+      loopMode: markers.loopMode === SND_LOOP_NONE || markers.loopMode === SND_LOOP_PLAY_TO_END
+        ? SND_LOOP_UNTIL_RELEASE
+        : markers.loopMode,
+      loops: [...markers.loops, { start, end: Math.min(end, markers.end), time: SND_LOOP_HOLD }],
+    })
+  }
+
+  const updateLoop = (index: number, changes: Partial<EditorLoop>) => {
+    if (!markers) return
+    setMarkers({
+      ...markers,
+      loops: markers.loops.map((loop, i) => (i === index ? { ...loop, ...changes } : loop)),
+    })
+  }
+
+  const removeLoop = (index: number) => {
+    if (!markers) return
+    setMarkers({ ...markers, loops: markers.loops.filter((_, i) => i !== index) })
+  }
+
+  const addEdit = (edit: SampleEdit) => {
+    if (!sample || !markers) return
+    // Both halves of a pair, since silence is measured across them
+    const current = [sample, rightSample].filter((s): s is SndSample => !!s).map(s => sndDataToFloat(s.data))
+    const { channels, transforms } = applySampleEdits(current, [edit])
+    setEdits([...edits, { edit, markersBefore: markers }])
+    setMarkers(mapMarkers(markers, transforms, channels[0].length))
+  }
+
+  // A found loop replaces loop 1. Its crossfade goes on the edit list along
+  // with the markers from before, so undo takes back both.
+  const applyFoundLoop = (loop: LoopCandidate, crossfade: { frames: number, curve: CrossfadeCurve } | null) => {
+    if (!markers) return
+    if (crossfade) {
+      const edit: SampleEdit = { type: 'crossfadeLoop', start: loop.start, end: loop.end, ...crossfade }
+      setEdits([...edits, { edit, markersBefore: markers }])
+    }
+    const found: EditorLoop = { start: loop.start, end: loop.end, time: markers.loops[0]?.time ?? SND_LOOP_HOLD }
+    setMarkers({
+      ...markers,
+      loopMode: markers.loopMode === SND_LOOP_NONE || markers.loopMode === SND_LOOP_PLAY_TO_END
+        ? SND_LOOP_UNTIL_RELEASE
+        : markers.loopMode,
+      loops: [found, ...markers.loops.slice(1)].sort((a, b) => a.end - b.end),
+    })
+  }
+
+  const undoEdit = () => {
+    const last = edits[edits.length - 1]
+    if (!last) return
+    setEdits(edits.slice(0, -1))
+    setMarkers(last.markersBefore)
+  }
+
+  const revertEdits = () => {
+    if (edits.length === 0) return
+    setMarkers(edits[0].markersBefore)
+    setEdits([])
+  }
+
+  const handleSave = () => {
+    if (!previewBlob) return
+    downloadBlob(previewBlob, fileName)
+    if (rightPreviewBlob && rightFileName) {
+      downloadBlob(rightPreviewBlob, rightFileName)
+    }
+  }
+
+  // A stereo pair exports as one stereo file named after the pair
+  const handleExport = (format: 'wav' | 'aiff') => {
+    if (!editedSample) return
+    const right = rightSample && markers ? applyMarkers(rightSample, markers) : undefined
+    const blob = format === 'wav'
+      ? new Blob([sndToWav(editedSample, right)], { type: 'audio/wav' })
+      : new Blob([sndToAiff(editedSample, right)], { type: 'audio/aiff' })
+    downloadBlob(blob, right ? fileName.replace(/-L(\.[^/.]+)?$/i, '$1') : fileName, `.${format}`)
+  }
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>
+  }
+
+  if (!sample || !markers || !shown || !previewBlob) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <SndPlayer sndFile={previewBlob} rightSndFile={rightPreviewBlob} />
+
+      <div className="p-4 bg-gray-50 rounded-lg flex flex-col gap-4">
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          className="w-full h-40 bg-white rounded border border-gray-200 cursor-ew-resize touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        />
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <span>Start: {Math.round(shown.start)}</span>
+          <span>End: {Math.round(shown.end)}</span>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={snapToZero}
+              onChange={(e) => setSnapToZero(e.target.checked)}
+            />
+            Snap to zero crossings
+          </label>
+          <label className="flex items-center gap-1">
+            Loop mode
+            <select
+              value={markers.loopMode}
+              onChange={(e) => setMarkers({ ...markers, loopMode: Number(e.target.value) as SndLoopMode })}
+              className="border border-gray-300 rounded px-1"
+            >
+              {LOOP_MODES.map(mode => (
+                <option key={mode} value={mode}>{SND_LOOP_MODE_NAMES[mode]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          {markers.loops.map((loop, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+              <span className="font-medium" style={{ color: LOOP_COLORS[i] }}>Loop {i + 1}</span>
+              <span>{Math.round(loop.start)} - {Math.round(loop.end)}</span>
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={loop.time >= SND_LOOP_HOLD}
+                  onChange={(e) => updateLoop(i, { time: e.target.checked ? SND_LOOP_HOLD : 1000 })}
+                />
+                Hold
+              </label>
+              {loop.time < SND_LOOP_HOLD && (
+                <label className="flex items-center gap-1">
+                  Time (ms)
+                  <input
+                    type="number"
+                    min={0}
+                    max={SND_LOOP_HOLD - 1}
+                    value={loop.time}
+                    onChange={(e) => updateLoop(i, {
+                      time: Math.max(0, Math.min(SND_LOOP_HOLD - 1, Number(e.target.value) || 0)),
+                    })}
+                    className="w-20 border border-gray-300 rounded px-1"
+                  />
+                </label>
+              )}
+              <button
+                onClick={() => removeLoop(i)}
+                className="text-xs text-red-500 hover:text-red-400"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <SampleEditPanel
+          edits={edits.map(entry => entry.edit)}
+          sampleRate={getSndSampleRate(sample.header)}
+          selection={markers}
+          onAdd={addEdit}
+          onUndo={undoEdit}
+          onRevert={revertEdits}
+        />
+
+        {loopSearchData && (
+          <LoopFinderPanel
+            data={loopSearchData}
+            sampleRate={getSndSampleRate(sample.header)}
+            region={markers}
+            onUse={applyFoundLoop}
+          />
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={addLoop}
+            disabled={markers.loops.length >= SND_MAX_LOOPS}
+            className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Add Loop
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-3 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            {rightPreviewBlob ? 'Save SND pair' : 'Save SND'}
+          </button>
+          <button
+            onClick={() => handleExport('wav')}
+            className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            Export WAV
+          </button>
+          <button
+            onClick={() => handleExport('aiff')}
+            className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            Export AIFF
+          </button>
+          <button
+            onClick={() => setShowSpectrum(!showSpectrum)}
+            className="px-3 py-2 text-sm bg-gray-200 rounded hover:bg-gray-300 transition-colors"
+          >
+            {showSpectrum ? 'Hide spectrum' : 'Spectrum'}
+          </button>
+        </div>
+
+        {showSpectrum && <SpectrumAnalyzer traces={spectrumTraces} />}
+      </div>
+    </div>
+  )
+}
@@ -1,50 +1,51 @@
 /**
  * SND Player component for MPC3000/S3000 SND files.
- * 
- * Format specification based on "Akai sampler disk and file formats" documentation:
- * - 192-byte header
- * - First byte: 3
- * - Second byte: 1 for 44.1kHz, 0 for 22.05kHz
- * - Third byte: MIDI root note (C3=60)
- * - Bytes 3-14: Filename (12 bytes, AKAII format)
- * - Byte 15: Always 128
- * - Byte 16: Number of active loops
- * - Byte 17: First active loop
- * - Byte 18: Always 0
- * - Byte 19: Loop mode (2=none)
- * - Byte 20: Cents tune
- * - Byte 21: Semi tune
- * - Bytes 22-25: Fixed values (0,8,2,0)
- * - Bytes 26-29: Number of sample words
- * - Bytes 30-33: Start marker
- * - Bytes 34-37: End marker
- * - Bytes 38-181: Loop markers (7 loops)
- * - Bytes 182-185: End markers (0,0,255,255)
- * - Bytes 186-187: Sampling frequency
- * - Byte 188: Loop tune offset
- * - Bytes 189-191: Reserved (0)
- * 
- * Followed by 16-bit PCM data
+ *
+ * Header parsing lives in `lib/akaiSnd.ts`, shared with the converter.
+ * Pass the "-R" half of a linked stereo pair as `rightSndFile` to play the
+ * pair in stereo; markers and loops follow the left sample.
  */
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
+import {
+  parseSndFile,
+  SndLoopMode,
+  SND_LOOP_MODE_NAMES,
+} from '@/lib/akaiSnd'
+import {
+  buildSndPlaybackPlan,
+  createSndAudioBuffer,
+  createSndStereoAudioBuffer,
+  SndLoopRegion,
+  SndPlaybackPlan,
+  SndVoice,
+} from '@/lib/sndVoice'
+import { buildPeakCache, PeakCache } from '@/lib/peakCache'
+import Waveform, { WaveformSelection } from './Waveform'
 
 interface SndPlayerProps {
   sndFile: Blob
+  rightSndFile?: Blob
 }
 
-export default function SndPlayer({ sndFile }: SndPlayerProps) {
+export default function SndPlayer({ sndFile, rightSndFile }: SndPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false)
   const [isPaused, setIsPaused] = useState(false)
+  const [isReleased, setIsReleased] = useState(false)
   const [duration, setDuration] = useState(0)
   const [currentTime, setCurrentTime] = useState(0)
   const [pitch, setPitch] = useState(0) // Pitch in semitones (-12 to +12)
+  const [loopInfo, setLoopInfo] = useState<{ mode: SndLoopMode, loops: SndLoopRegion[] } | null>(null)
+  const [isStereo, setIsStereo] = useState(false)
+  const [peaks, setPeaks] = useState<PeakCache | null>(null)
+  const [playhead, setPlayhead] = useState<number | null>(null) // Frames
+  const [selection, setSelection] = useState<WaveformSelection | null>(null)
   const audioContextRef = useRef<AudioContext | null>(null)
-  const sourceRef = useRef<AudioBufferSourceNode | null>(null)
+  const voiceRef = useRef<SndVoice | null>(null)
   const bufferRef = useRef<AudioBuffer | null>(null)
-  const startTimeRef = useRef<number>(0)
-  const pauseTimeRef = useRef<number>(0)
+  const planRef = useRef<SndPlaybackPlan | null>(null)
+  const pausePositionRef = useRef<number | null>(null)
   const animationFrameRef = useRef<number>()
 
   useEffect(() => {
@@ -55,65 +56,21 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
     const loadSndFile = async () => {
       try {
         const arrayBuffer = await sndFile.arrayBuffer()
-        const view = new DataView(arrayBuffer)
+        const sample = parseSndFile(arrayBuffer)
+        const { header } = sample
         
-        // Parse S3000/MPC3000 header
-        const format = view.getUint8(0)
-        const sampleRateFlag = view.getUint8(1)
-        const midiRootNote = view.getUint8(2)
-        const filenameBytes = new Uint8Array(arrayBuffer.slice(3, 15))
-        const filename = String.fromCharCode(...Array.from(filenameBytes)).replace(/\0/g, '')
-        const numSamples = view.getUint32(26, true)
-        const sampleRate = sampleRateFlag === 1 ? 44100 : 22050 // Use sample rate flag to determine sample rate
-        
-        // Debug output
-        console.log('SND Header Debug:')
-        console.log('Format byte:', format)
-        console.log('Sample rate flag:', sampleRateFlag)
-        console.log('MIDI root note:', midiRootNote)
-        console.log('Filename:', filename)
-        console.log('Num samples:', numSamples)
-        console.log('Sample rate:', sampleRate)
-        
-        // Debug: log raw bytes at offsets 26 and 186
-        console.log('Raw bytes at offset 26 (num samples):', Array.from(new Uint8Array(arrayBuffer.slice(26, 30))))
-        console.log('Raw bytes at offset 186 (sample rate):', Array.from(new Uint8Array(arrayBuffer.slice(186, 188))))
-        
-        // Read PCM data (skip 192-byte header)
-        const pcmData = new Int16Array(arrayBuffer.slice(192))
-        // Log first 10 PCM values (raw)
-        console.log('First 10 PCM (raw, little-endian):', Array.from(pcmData.slice(0, 10)))
-        // Log first 10 PCM (big-endian swap)
-        const swapped = Array.from(pcmData.slice(0, 10)).map(sample => ((sample & 0xFF) << 8) | ((sample >> 8) & 0xFF))
-        console.log('First 10 PCM (big-endian swap):', swapped)
-        
-        // Create audio buffer
-        const audioBuffer = audioContextRef.current!.createBuffer(
-          1, // Mono
-          numSamples,
-          sampleRate
-        )
-        
-        // Read PCM data (skip 192-byte header)
-        const floatData = new Float32Array(pcmData.length)
-        
-        // Convert 16-bit PCM to float32 (no byte swap, just signed conversion)
-        for (let i = 0; i < pcmData.length; i++) {
-          floatData[i] = Math.max(-1, Math.min(1, pcmData[i] / 32768));
-        }
-        
-        // Debug: log first 10 float values
-        console.log('First 10 floatData values:', Array.from(floatData.slice(0, 10)))
-        
-        // Copy to audio buffer
-        audioBuffer.copyToChannel(floatData, 0)
-        
-        // Debug: log audio buffer info
-        console.log('AudioBuffer duration:', audioBuffer.duration)
-        console.log('AudioBuffer sampleRate:', audioBuffer.sampleRate)
-        console.log('AudioBuffer length:', audioBuffer.length)
+        // Create audio buffer, stereo when the right half of a pair is given
+        const rightSample = rightSndFile ? parseSndFile(await rightSndFile.arrayBuffer()) : null
+        const audioBuffer = rightSample
+          ? createSndStereoAudioBuffer(audioContextRef.current!, sample, rightSample)
+          : createSndAudioBuffer(audioContextRef.current!, sample)
+        setIsStereo(!!rightSample)
+        setPeaks(buildPeakCache(rightSample ? [sample.data, rightSample.data] : [sample.data], 32768))
+        setSelection(null)
         
         bufferRef.current = audioBuffer
+        planRef.current = buildSndPlaybackPlan(header, audioBuffer.length)
+        setLoopInfo({ mode: header.loopMode, loops: planRef.current.loops })
         setDuration(audioBuffer.duration)
       } catch (error) {
         console.error('Error loading SND file:', error)
@@ -123,8 +80,9 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
     loadSndFile()
     
     return () => {
-      if (sourceRef.current) {
-        sourceRef.current.stop()
+      if (voiceRef.current) {
+        voiceRef.current.onended = null
+        voiceRef.current.stop()
       }
       if (audioContextRef.current) {
         audioContextRef.current.close()
@@ -133,87 +91,81 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
         cancelAnimationFrame(animationFrameRef.current)
       }
     }
-  }, [sndFile])
+  }, [sndFile, rightSndFile])
 
   const play = () => {
-    console.log('DEBUG: play() function called');
-    if (!audioContextRef.current || !bufferRef.current) return
+    if (!audioContextRef.current || !bufferRef.current || !planRef.current) return
     
     // Resume audio context if suspended
     if (audioContextRef.current.state === 'suspended') {
       audioContextRef.current.resume()
     }
     
-    // Create new source
-    const source = audioContextRef.current.createBufferSource()
-    source.buffer = bufferRef.current
-    
     // Set playback rate based on pitch (2^(pitch/12))
     const playbackRate = Math.pow(2, pitch / 12)
-    source.playbackRate.value = playbackRate
-    
-    // Create gain node for volume control
-    const gainNode = audioContextRef.current.createGain()
-    gainNode.gain.value = 1.0
-    
-    // Connect nodes
-    source.connect(gainNode)
-    gainNode.connect(audioContextRef.current.destination)
-    
-    // Start playback
-    if (isPaused) {
-      // Resume from pause position
-      source.start(0, pauseTimeRef.current)
-      startTimeRef.current = audioContextRef.current.currentTime - pauseTimeRef.current
-    } else {
-      // Start from beginning
-      source.start(0)
-      startTimeRef.current = audioContextRef.current.currentTime
-    }
+    const voice = new SndVoice(
+      audioContextRef.current,
+      bufferRef.current,
+      planRef.current,
+      audioContextRef.current.destination,
+      playbackRate
+    )
     
-    sourceRef.current = source
+    voiceRef.current = voice
     setIsPlaying(true)
     setIsPaused(false)
-    
-    // Debug output
-    console.log('Playback started:', { isPaused, startTime: startTimeRef.current, pitch, playbackRate })
+    setIsReleased(false)
     
     // Update progress
+    const sampleRate = bufferRef.current.sampleRate
     const updateProgress = () => {
-      if (!audioContextRef.current || !sourceRef.current) return
-      
-      const currentTime = audioContextRef.current.currentTime - startTimeRef.current
-      setCurrentTime(currentTime)
-      
-      if (currentTime < bufferRef.current!.duration) {
-        animationFrameRef.current = requestAnimationFrame(updateProgress)
-      } else {
-        setIsPlaying(false)
-        setIsPaused(false)
-        setCurrentTime(0)
-      }
+      if (!voiceRef.current) return
+      const position = voiceRef.current.getPosition()
+      setPlayhead(position)
+      setCurrentTime(position / sampleRate)
+      animationFrameRef.current = requestAnimationFrame(updateProgress)
     }
     
     animationFrameRef.current = requestAnimationFrame(updateProgress)
     
-    // Handle end of playback
-    source.onended = () => {
+    // Handle end of playback, set before starting since a voice with nothing
+    // to play ends inside start()
+    voice.onended = () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current)
+      }
       setIsPlaying(false)
       setIsPaused(false)
+      setIsReleased(false)
       setCurrentTime(0)
-      sourceRef.current = null
+      setPlayhead(null)
+      voiceRef.current = null
     }
+    
+    // Start from the start marker or the selection, or resume from the
+    // pause position
+    const offset = isPaused && pausePositionRef.current !== null
+      ? pausePositionRef.current
+      : selection?.start
+    voice.start(audioContextRef.current.currentTime, offset)
+  }
+
+  // Note-off: leaves hold loops or fades out, depending on the loop mode
+  const release = () => {
+    if (!voiceRef.current) return
+    voiceRef.current.release()
+    setIsReleased(true)
   }
 
   const pause = () => {
-    if (!audioContextRef.current || !sourceRef.current) return
+    if (!voiceRef.current) return
     
-    // Stop current playback
-    sourceRef.current.stop()
-    sourceRef.current = null
+    // Store current position and stop playback
+    pausePositionRef.current = voiceRef.current.getPosition()
+    voiceRef.current.onended = null
+    voiceRef.current.stop()
+    voiceRef.current = null
     
-    // Store current position
-    pauseTimeRef.current = currentTime
     setIsPlaying(false)
     setIsPaused(true)
     
@@ -223,19 +175,28 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
   }
 
   const stop = () => {
-    if (sourceRef.current) {
-      sourceRef.current.stop()
-      sourceRef.current = null
+    if (voiceRef.current) {
+      voiceRef.current.onended = null
+      voiceRef.current.stop()
+      voiceRef.current = null
     }
     setIsPlaying(false)
     setIsPaused(false)
+    setIsReleased(false)
     setCurrentTime(0)
-    pauseTimeRef.current = 0
+    setPlayhead(null)
+    pausePositionRef.current = null
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current)
     }
   }
 
+  // A new selection replaces the pause position as the place to start from
+  const select = (range: WaveformSelection | null) => {
+    setSelection(range)
+    if (isPaused) stop()
+  }
+
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60)
     const seconds = Math.floor(time % 60)
@@ -279,8 +240,33 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
               </svg>
             </button>
           )}
+
+          {loopInfo && loopInfo.loops.length > 0 && (
+            <button
+              onClick={release}
+              disabled={!isPlaying || isReleased}
+              className="px-3 py-2 text-sm bg-gray-200 rounded-full hover:bg-gray-300 transition-colors disabled:opacity-50"
+              title="Release (note off)"
+            >
+              Release
+            </button>
+          )}
         </div>
 
+        {/* Loop Info */}
+        {loopInfo && (
+          <div className="text-xs text-gray-600 text-center">
+            {isStereo && <span className="mr-2 font-semibold">Stereo</span>}
+            {SND_LOOP_MODE_NAMES[loopInfo.mode]}
+            {loopInfo.loops.map((loop, i) => (
+              <span key={i} className="ml-2">
+                [L{i + 1} {Math.round(loop.start)}-{Math.round(loop.end)}
+                {loop.dwell === Infinity ? ' hold' : ` ${Math.round(loop.dwell * 1000)}ms`}]
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Pitch Control */}
         <div className="flex flex-col items-center gap-2">
           <label htmlFor="pitch" className="text-sm font-medium text-gray-700">
@@ -297,6 +283,17 @@ export default function SndPlayer({ sndFile }: SndPlayerProps) {
           />
         </div>
 
+        {/* Waveform, drag to select where playback starts */}
+        {peaks && (
+          <Waveform
+            peaks={peaks}
+            playhead={playhead}
+            followPlayhead={isPlaying}
+            selection={selection}
+            onSelectionChange={select}
+          />
+        )}
+
         {/* Progress Bar */}
         <div className="flex-1">
           <div className="h-2 bg-gray-200 rounded-full">
@@ -0,0 +1,238 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  computeSpectrogram,
+  computeSpectrum,
+  FFT_SIZES,
+  getBinFrequency,
+  SPECTRUM_FLOOR_DB,
+} from '@/lib/spectrum'
+
+export interface SpectrumTrace {
+  label: string
+  samples: Float32Array // -1..1
+  sampleRate: number
+  color: string
+}
+
+interface SpectrumAnalyzerProps {
+  // Overlaid in the spectrum view, e.g. a source and its conversion
+  traces: SpectrumTrace[]
+}
+
+type AnalyzerView = 'spectrum' | 'spectrogram'
+
+const WIDTH = 800
+const HEIGHT = 240
+const MIN_FREQUENCY = 20
+const GRID_FREQUENCIES = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]
+// Larger spectrogram FFTs only add rows the canvas can't show
+const MAX_SPECTROGRAM_FFT = 2048
+const BACKGROUND = '#18181b'
+const GRID_COLOR = '#3f3f46'
+const LABEL_COLOR = '#a1a1aa'
+
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`
+}
+
+// Dark blue through red to yellow, for 0 (floor) to 1 (0 dB)
+function heatColor(level: number): [number, number, number] {
+  const t = Math.max(0, Math.min(1, level))
+  return [
+    Math.round(255 * Math.min(1, t * 2)),
+    Math.round(255 * Math.max(0, t * 2 - 1)),
+    Math.round(255 * Math.max(0, 0.5 - Math.abs(t - 0.25)) * 2),
+  ]
+}
+
+/**
+ * Averaged spectrum of one or more traces on a log frequency axis, and a
+ * spectrogram of one trace that scrolls sideways for long samples. Each
+ * trace's Nyquist frequency is marked, so what a lower-rate conversion
+ * folds back below it shows up against the source.
+ */
+export default function SpectrumAnalyzer({ traces }: SpectrumAnalyzerProps) {
+  const [view, setView] = useState<AnalyzerView>('spectrum')
+  const [fftSize, setFftSize] = useState(4096)
+  const [hidden, setHidden] = useState<string[]>([])
+  const [spectrogramLabel, setSpectrogramLabel] = useState<string | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  const spectrogramTrace = traces.filter(trace => trace.label === spectrogramLabel)[0] ?? traces[0]
+
+  const spectra = useMemo(
+    () => view === 'spectrum'
+      ? traces.map(trace => computeSpectrum(trace.samples, trace.sampleRate, fftSize))
+      : [],
+    [traces, fftSize, view]
+  )
+
+  const spectrogram = useMemo(
+    () => view === 'spectrogram' && spectrogramTrace
+      ? computeSpectrogram(spectrogramTrace.samples, spectrogramTrace.sampleRate, Math.min(fftSize, MAX_SPECTROGRAM_FFT))
+      : null,
+    [spectrogramTrace, fftSize, view]
+  )
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || view !== 'spectrum') return
+
+    canvas.width = WIDTH
+    canvas.height = HEIGHT
+    ctx.fillStyle = BACKGROUND
+    ctx.fillRect(0, 0, WIDTH, HEIGHT)
+
+    const visible = traces.filter(trace => hidden.indexOf(trace.label) === -1)
+    const maxFrequency = Math.max(MIN_FREQUENCY * 2, ...visible.map(trace => trace.sampleRate / 2))
+    const toX = (frequency: number) =>
+      (Math.log(frequency / MIN_FREQUENCY) / Math.log(maxFrequency / MIN_FREQUENCY)) * WIDTH
+    const toY = (db: number) => (db / SPECTRUM_FLOOR_DB) * HEIGHT
+
+    ctx.strokeStyle = GRID_COLOR
+    ctx.fillStyle = LABEL_COLOR
+    ctx.font = '10px sans-serif'
+    ctx.lineWidth = 1
+    GRID_FREQUENCIES.filter(frequency => frequency < maxFrequency).forEach(frequency => {
+      const x = Math.round(toX(frequency)) + 0.5
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, HEIGHT)
+      ctx.stroke()
+      ctx.fillText(formatFrequency(frequency), x + 2, HEIGHT - 4)
+    })
+    for (let db = -20; db > SPECTRUM_FLOOR_DB; db -= 20) {
+      const y = Math.round(toY(db)) + 0.5
+      ctx.beginPath()
+      ctx.moveTo(0, y)
+      ctx.lineTo(WIDTH, y)
+      ctx.stroke()
+      ctx.fillText(`${db} dB`, 2, y - 2)
+    }
+
+    traces.forEach((trace, i) => {
+      if (hidden.indexOf(trace.label) !== -1 || !spectra[i]) return
+      const { db } = spectra[i]
+      ctx.strokeStyle = trace.color
+      ctx.beginPath()
+      let started = false
+      for (let bin = 1; bin < db.length; bin++) {
+        const x = toX(getBinFrequency(bin, fftSize, trace.sampleRate))
+        if (x < 0) continue
+        if (started) {
+          ctx.lineTo(x, toY(db[bin]))
+        } else {
+          ctx.moveTo(x, toY(db[bin]))
+          started = true
+        }
+      }
+      ctx.stroke()
+
+      const nyquist = Math.round(toX(trace.sampleRate / 2)) - 0.5
+      ctx.setLineDash([4, 4])
+      ctx.beginPath()
+      ctx.moveTo(nyquist, 0)
+      ctx.lineTo(nyquist, HEIGHT)
+      ctx.stroke()
+      ctx.setLineDash([])
+    })
+  }, [view, traces, hidden, spectra, fftSize])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || view !== 'spectrogram' || !spectrogram) return
+
+    // One pixel per column, low frequencies at the bottom
+    const { columns } = spectrogram
+    const bins = columns[0]?.length ?? 0
+    const width = Math.max(1, columns.length)
+    canvas.width = width
+    canvas.height = HEIGHT
+    const image = ctx.createImageData(width, HEIGHT)
+    columns.forEach((column, x) => {
+      for (let y = 0; y < HEIGHT; y++) {
+        const bin = Math.min(bins - 1, Math.floor(((HEIGHT - 1 - y) / HEIGHT) * bins))
+        const [r, g, b] = heatColor(1 - column[bin] / SPECTRUM_FLOOR_DB)
+        const offset = (y * width + x) * 4
+        image.data[offset] = r
+        image.data[offset + 1] = g
+        image.data[offset + 2] = b
+        image.data[offset + 3] = 255
+      }
+    })
+    ctx.putImageData(image, 0, 0)
+  }, [view, spectrogram])
+
+  const toggleTrace = (label: string) => {
+    setHidden(current => current.indexOf(label) === -1
+      ? current.concat(label)
+      : current.filter(hiddenLabel => hiddenLabel !== label))
+  }
+
+  if (traces.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={view}
+          onChange={(e) => setView(e.target.value as AnalyzerView)}
+          className="border border-gray-300 rounded px-1 text-gray-700"
+        >
+          <option value="spectrum">Spectrum</option>
+          <option value="spectrogram">Spectrogram</option>
+        </select>
+        <label className="flex items-center gap-1">
+          FFT
+          <select
+            value={fftSize}
+            onChange={(e) => setFftSize(Number(e.target.value))}
+            className="border border-gray-300 rounded px-1 text-gray-700"
+          >
+            {FFT_SIZES.map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+        {view === 'spectrum' ? traces.map(trace => (
+          <label key={trace.label} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={hidden.indexOf(trace.label) === -1}
+              onChange={() => toggleTrace(trace.label)}
+            />
+            <span style={{ color: trace.color }}>{trace.label}</span>
+            <span className="text-xs opacity-70">{trace.sampleRate} Hz</span>
+          </label>
+        )) : traces.length > 1 && (
+          <select
+            value={spectrogramTrace?.label}
+            onChange={(e) => setSpectrogramLabel(e.target.value)}
+            className="border border-gray-300 rounded px-1 text-gray-700"
+          >
+            {traces.map(trace => (
+              <option key={trace.label} value={trace.label}>{trace.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <div className="overflow-x-auto rounded" style={{ background: BACKGROUND }}>
+        <canvas
+          ref={canvasRef}
+          style={{ height: HEIGHT }}
+          className={view === 'spectrum' ? 'w-full' : 'max-w-none'}
+        />
+      </div>
+      {view === 'spectrogram' && spectrogram && (
+        <span className="text-xs opacity-70">
+          0 - {formatFrequency(Math.round(spectrogram.sampleRate / 2))} Hz,
+          {' '}{Math.round((spectrogram.hop / spectrogram.sampleRate) * 1000)} ms per column
+        </span>
+      )}
+    </div>
+  )
+}
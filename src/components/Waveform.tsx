@@ -0,0 +1,306 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getPeakColumns, PeakCache } from '@/lib/peakCache'
+
+export interface WaveformSelection {
+  start: number // Frames
+  end: number
+}
+
+interface WaveformProps {
+  peaks: PeakCache
+  height?: number
+  color?: string
+  // Playback position in frames, drawn as a line
+  playhead?: number | null
+  // Page the view along when the playhead leaves it
+  followPlayhead?: boolean
+  selection?: WaveformSelection | null
+  // Dragging selects a range when given; a click clears it
+  onSelectionChange?: (selection: WaveformSelection | null) => void
+  // Frame positions drawn as numbered lines, such as slice points
+  markers?: number[]
+  // Makes markers draggable; a double-click adds one, or removes the one
+  // under the pointer
+  onMarkersChange?: (markers: number[]) => void
+  // Zoom and scroll controls; off for thumbnails
+  controls?: boolean
+  className?: string
+}
+
+// Closest zoom, in frames across the whole width
+const MIN_VIEW_FRAMES = 32
+const ZOOM_STEP = 2
+const MARKER_HIT_PX = 6
+const MARKER_COLOR = '#16a34a'
+
+// A view of `frames` frames from `start`, kept within a sample of `length`
+function clampView(start: number, frames: number, length: number) {
+  const visible = Math.max(Math.min(MIN_VIEW_FRAMES, length), Math.min(length, frames))
+  return { start: Math.max(0, Math.min(length - visible, start)), frames: visible }
+}
+
+/**
+ * Waveform view drawn from a peak cache (see lib/peakCache.ts). Zoom with
+ * the buttons or the mouse wheel around the pointer, scroll with the slider
+ * or a horizontal/shift wheel.
+ */
+export default function Waveform({
+  peaks,
+  height = 96,
+  color = '#4b5563',
+  playhead = null,
+  followPlayhead = false,
+  selection = null,
+  onSelectionChange,
+  markers = [],
+  onMarkersChange,
+  controls = true,
+  className = '',
+}: WaveformProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const dragStartRef = useRef<number | null>(null)
+  const markerDragRef = useRef<number | null>(null)
+  const [width, setWidth] = useState(0)
+  const [view, setView] = useState({ start: 0, frames: peaks.length })
+  const [draft, setDraft] = useState<WaveformSelection | null>(null)
+  const [draftMarkers, setDraftMarkers] = useState<number[] | null>(null)
+
+  // A new sample starts fully zoomed out
+  useEffect(() => {
+    setView({ start: 0, frames: peaks.length })
+  }, [peaks])
+
+  // Match the canvas to its laid-out width
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(() => setWidth(canvas.clientWidth))
+    observer.observe(canvas)
+    setWidth(canvas.clientWidth)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (!followPlayhead || playhead === null) return
+    if (playhead < view.start || playhead >= view.start + view.frames) {
+      setView(clampView(playhead - view.frames * 0.1, view.frames, peaks.length))
+    }
+  }, [followPlayhead, playhead, view, peaks.length])
+
+  const pixelRatio = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1
+  const columns = Math.round(width * pixelRatio)
+
+  // Only recomputed when the view changes, not on every playhead move
+  const peakColumns = useMemo(
+    () => getPeakColumns(peaks, view.start, view.start + view.frames, columns),
+    [peaks, view, columns]
+  )
+
+  const shownSelection = draft ?? selection
+  const shownMarkers = draftMarkers ?? markers
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || columns === 0) return
+    const canvasHeight = Math.round(height * pixelRatio)
+    canvas.width = columns
+    canvas.height = canvasHeight
+    const mid = canvasHeight / 2
+    const toX = (frame: number) => ((frame - view.start) / view.frames) * columns
+
+    ctx.clearRect(0, 0, columns, canvasHeight)
+
+    if (shownSelection) {
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.2)'
+      const left = toX(Math.min(shownSelection.start, shownSelection.end))
+      const right = toX(Math.max(shownSelection.start, shownSelection.end))
+      ctx.fillRect(left, 0, Math.max(1, right - left), canvasHeight)
+    }
+
+    ctx.fillStyle = color
+    for (let x = 0; x < columns; x++) {
+      const top = mid - peakColumns.max[x] * mid
+      const bottom = mid - peakColumns.min[x] * mid
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top))
+    }
+
+    ctx.strokeStyle = MARKER_COLOR
+    ctx.fillStyle = MARKER_COLOR
+    ctx.lineWidth = pixelRatio
+    ctx.font = `${10 * pixelRatio}px sans-serif`
+    shownMarkers.forEach((marker, i) => {
+      if (marker < view.start || marker > view.start + view.frames) return
+      const x = Math.round(toX(marker)) + 0.5
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, canvasHeight)
+      ctx.stroke()
+      ctx.fillText(`${i + 1}`, x + 2 * pixelRatio, 10 * pixelRatio)
+    })
+
+    if (playhead !== null) {
+      const x = Math.round(toX(playhead)) + 0.5
+      ctx.strokeStyle = '#dc2626'
+      ctx.lineWidth = pixelRatio
+      ctx.beginPath()
+      ctx.moveTo(x, 0)
+      ctx.lineTo(x, canvasHeight)
+      ctx.stroke()
+    }
+  }, [peakColumns, columns, height, pixelRatio, color, view, playhead, shownSelection, shownMarkers])
+
+  // Native listener so the page doesn't scroll while zooming
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !controls) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      setView(current => {
+        if (e.shiftKey || Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+          const delta = (e.shiftKey ? e.deltaY : e.deltaX) / canvas.clientWidth
+          return clampView(current.start + delta * current.frames, current.frames, peaks.length)
+        }
+        const rect = canvas.getBoundingClientRect()
+        const anchor = current.start + ((e.clientX - rect.left) / rect.width) * current.frames
+        const frames = e.deltaY < 0 ? current.frames / ZOOM_STEP : current.frames * ZOOM_STEP
+        const clamped = clampView(0, frames, peaks.length)
+        return clampView(anchor - ((e.clientX - rect.left) / rect.width) * clamped.frames, clamped.frames, peaks.length)
+      })
+    }
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => canvas.removeEventListener('wheel', handleWheel)
+  }, [controls, peaks.length])
+
+  const frameAtPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const ratio = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width))
+    return Math.round(view.start + ratio * view.frames)
+  }
+
+  // Index of the marker within reach of the pointer, if any
+  const markerAtPointer = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const frame = view.start + ((e.clientX - rect.left) / rect.width) * view.frames
+    const reach = (MARKER_HIT_PX / rect.width) * view.frames
+    let closest: number | null = null
+    markers.forEach((marker, i) => {
+      const distance = Math.abs(marker - frame)
+      if (distance <= reach && (closest === null || distance < Math.abs(markers[closest] - frame))) closest = i
+    })
+    return closest
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const marker = onMarkersChange ? markerAtPointer(e) : null
+    if (marker !== null) {
+      markerDragRef.current = marker
+      setDraftMarkers(markers)
+    } else if (onSelectionChange) {
+      dragStartRef.current = frameAtPointer(e)
+    } else {
+      return
+    }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const marker = markerDragRef.current
+    if (marker !== null) {
+      const frame = Math.max(0, Math.min(peaks.length - 1, frameAtPointer(e)))
+      setDraftMarkers(markers.map((position, i) => (i === marker ? frame : position)))
+      return
+    }
+    if (dragStartRef.current === null) return
+    setDraft({ start: dragStartRef.current, end: frameAtPointer(e) })
+  }
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (markerDragRef.current !== null) {
+      markerDragRef.current = null
+      if (draftMarkers) onMarkersChange?.([...draftMarkers].sort((a, b) => a - b))
+      setDraftMarkers(null)
+      return
+    }
+    const start = dragStartRef.current
+    if (start === null || !onSelectionChange) return
+    dragStartRef.current = null
+    setDraft(null)
+    const end = frameAtPointer(e)
+    onSelectionChange(end === start ? null : { start: Math.min(start, end), end: Math.max(start, end) })
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onMarkersChange) return
+    const marker = markerAtPointer(e)
+    if (marker !== null) {
+      onMarkersChange(markers.filter((_, i) => i !== marker))
+      return
+    }
+    const rect = e.currentTarget.getBoundingClientRect()
+    const frame = Math.round(view.start + ((e.clientX - rect.left) / rect.width) * view.frames)
+    onMarkersChange([...markers, Math.max(0, Math.min(peaks.length - 1, frame))].sort((a, b) => a - b))
+  }
+
+  const zoom = (factor: number) => {
+    const center = view.start + view.frames / 2
+    const clamped = clampView(0, view.frames * factor, peaks.length)
+    setView(clampView(center - clamped.frames / 2, clamped.frames, peaks.length))
+  }
+
+  const zoomedIn = view.frames < peaks.length
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`}>
+      <canvas
+        ref={canvasRef}
+        style={{ height }}
+        className={`w-full ${onSelectionChange || onMarkersChange ? 'cursor-text touch-none' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
+      />
+      {controls && (
+        <div className="flex items-center gap-2 text-xs text-gray-600">
+          <button
+            onClick={() => zoom(ZOOM_STEP)}
+            disabled={!zoomedIn}
+            className="px-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            title="Zoom out"
+          >
+            -
+          </button>
+          <button
+            onClick={() => zoom(1 / ZOOM_STEP)}
+            disabled={view.frames <= MIN_VIEW_FRAMES}
+            className="px-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            title="Zoom in"
+          >
+            +
+          </button>
+          <button
+            onClick={() => setView({ start: 0, frames: peaks.length })}
+            disabled={!zoomedIn}
+            className="px-2 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            Fit
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, peaks.length - view.frames)}
+            value={view.start}
+            disabled={!zoomedIn}
+            onChange={(e) => setView(clampView(Number(e.target.value), view.frames, peaks.length))}
+            className="flex-1"
+            aria-label="Scroll"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,218 @@
+import { WavLoop, WavMetadata } from './wavChunks';
+
+/**
+ * AIFF sampler metadata chunks. All values are big-endian. Loops point at
+ * markers rather than holding positions themselves, so both chunks are
+ * needed to recover them; they map onto the same WavMetadata the WAV
+ * `smpl`/`inst` chunks use.
+ *
+ * MARK, 2 bytes plus one entry per marker:
+ *   0  number of markers
+ *   2  markers: +0 id (signed 16-bit, > 0)   +2 position (frames, the gap
+ *                                                 before that frame)
+ *               +6 name, a Pascal string padded to an even length
+ *
+ * INST, 20 bytes:
+ *   0  base note         1  detune (cents, signed)   2  low note
+ *   3  high note         4  low velocity             5  high velocity
+ *   6  gain (dB, signed 16-bit)
+ *   8  sustain loop: +0 play mode (0 = none, 1 = forward,
+ *                       2 = forward/backward)
+ *                    +2 begin marker id   +4 end marker id
+ *   14 release loop, as above
+ */
+export interface AiffMarker {
+  id: number;
+  position: number;
+  name: string;
+}
+
+export interface AiffLoop {
+  playMode: number;
+  beginMarker: number;
+  endMarker: number;
+}
+
+export interface AiffInstrument {
+  baseNote: number;
+  detune: number;
+  lowNote: number;
+  highNote: number;
+  lowVelocity: number;
+  highVelocity: number;
+  gain: number;
+  sustainLoop: AiffLoop;
+  releaseLoop: AiffLoop;
+}
+
+const INST_SIZE = 20;
+const AIFF_LOOP_NONE = 0;
+const AIFF_LOOP_FORWARD = 1;
+const AIFF_LOOP_ALTERNATING = 2;
+
+function createChunk(id: string, size: number): { bytes: Uint8Array; view: DataView } {
+  // Chunks are padded to an even length
+  const bytes = new Uint8Array(8 + size + (size % 2));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) {
+    bytes[i] = id.charCodeAt(i);
+  }
+  view.setUint32(4, size, false);
+  return { bytes, view };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+// Read a MARK chunk body. Markers that run past the declared size are dropped.
+export function readMarkChunk(view: DataView, offset: number, size: number): AiffMarker[] {
+  if (size < 2) {
+    throw new Error('Invalid AIFF: MARK chunk too small');
+  }
+  const declared = view.getUint16(offset, false);
+  const end = offset + size;
+  const markers: AiffMarker[] = [];
+  let pos = offset + 2;
+  for (let i = 0; i < declared && pos + 7 <= end; i++) {
+    const nameLength = view.getUint8(pos + 6);
+    let name = '';
+    for (let j = 0; j < nameLength && pos + 7 + j < end; j++) {
+      name += String.fromCharCode(view.getUint8(pos + 7 + j));
+    }
+    markers.push({ id: view.getInt16(pos, false), position: view.getUint32(pos + 2, false), name });
+    // Count byte plus text, padded to an even length
+    pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+  }
+  if (markers.length < declared) {
+    console.warn(`MARK chunk declares ${declared} markers but holds ${markers.length}`);
+  }
+  return markers;
+}
+
+function readLoop(view: DataView, offset: number): AiffLoop {
+  return {
+    playMode: view.getInt16(offset, false),
+    beginMarker: view.getInt16(offset + 2, false),
+    endMarker: view.getInt16(offset + 4, false),
+  };
+}
+
+// Read an INST chunk body
+export function readAiffInstChunk(view: DataView, offset: number, size: number): AiffInstrument {
+  if (size < INST_SIZE) {
+    throw new Error('Invalid AIFF: INST chunk too small');
+  }
+  return {
+    baseNote: Math.min(127, view.getUint8(offset)),
+    detune: view.getInt8(offset + 1),
+    lowNote: view.getInt8(offset + 2),
+    highNote: view.getInt8(offset + 3),
+    lowVelocity: view.getInt8(offset + 4),
+    highVelocity: view.getInt8(offset + 5),
+    gain: view.getInt16(offset + 6, false),
+    sustainLoop: readLoop(view, offset + 8),
+    releaseLoop: readLoop(view, offset + 14),
+  };
+}
+
+/**
+ * Turn INST and MARK data into sampler metadata: base note and detune become
+ * the unity note, the sustain loop comes first and the release loop second.
+ * Loops pointing at missing markers, or with end before begin, are skipped.
+ */
+export function getAiffWavMetadata(instrument: AiffInstrument | null, markers: AiffMarker[]): WavMetadata {
+  if (!instrument) return {};
+
+  const loops: WavLoop[] = [];
+  [instrument.sustainLoop, instrument.releaseLoop].forEach(loop => {
+    if (loop.playMode === AIFF_LOOP_NONE) return;
+    const begin = markers.filter(marker => marker.id === loop.beginMarker)[0];
+    const end = markers.filter(marker => marker.id === loop.endMarker)[0];
+    if (!begin || !end || end.position <= begin.position) {
+      console.warn(`Skipping AIFF loop with markers ${loop.beginMarker}-${loop.endMarker}`);
+      return;
+    }
+    loops.push({
+      start: begin.position,
+      end: end.position,
+      type: loop.playMode === AIFF_LOOP_ALTERNATING ? 'alternating' : 'forward',
+      playCount: 0,
+    });
+  });
+
+  const unityCents = instrument.baseNote * 100 - instrument.detune;
+  const unityNote = Math.floor(unityCents / 100);
+  return {
+    sampler: { unityNote, pitchFraction: unityCents - unityNote * 100, loops },
+    instrument: {
+      unshiftedNote: instrument.baseNote,
+      fineTune: instrument.detune,
+      gain: instrument.gain,
+      lowNote: instrument.lowNote,
+      highNote: instrument.highNote,
+      lowVelocity: instrument.lowVelocity,
+      highVelocity: instrument.highVelocity,
+    },
+  };
+}
+
+/**
+ * Complete MARK and INST chunks for sampler metadata, or none when there is
+ * nothing to write. AIFF holds two loops, so only the first two are kept;
+ * backward loops become forward ones.
+ */
+export function createAiffMetadataChunks(metadata: WavMetadata): Uint8Array[] {
+  const { sampler, instrument } = metadata;
+  if (!sampler && !instrument) return [];
+
+  let baseNote = 60;
+  let detune = 0;
+  if (instrument) {
+    baseNote = instrument.unshiftedNote;
+    detune = instrument.fineTune;
+  } else if (sampler) {
+    const unityCents = sampler.unityNote * 100 + sampler.pitchFraction;
+    baseNote = Math.round(unityCents / 100);
+    detune = baseNote * 100 - unityCents;
+  }
+
+  const allLoops = sampler?.loops ?? [];
+  const loops = allLoops.slice(0, 2);
+  if (allLoops.length > loops.length) {
+    console.warn(`AIFF holds 2 loops, dropping ${allLoops.length - loops.length}`);
+  }
+
+  // Unnamed markers, ids 1 and 2 for the sustain loop, 3 and 4 for release
+  const chunks: Uint8Array[] = [];
+  if (loops.length > 0) {
+    const mark = createChunk('MARK', 2 + loops.length * 2 * 8);
+    mark.view.setUint16(8, loops.length * 2, false);
+    loops.forEach((loop, i) => {
+      [loop.start, loop.end].forEach((position, j) => {
+        const offset = 10 + (i * 2 + j) * 8;
+        mark.view.setInt16(offset, i * 2 + j + 1, false);
+        mark.view.setUint32(offset + 2, Math.max(0, Math.round(position)), false);
+      });
+    });
+    chunks.push(mark.bytes);
+  }
+
+  const inst = createChunk('INST', INST_SIZE);
+  const body = 8;
+  inst.view.setInt8(body, clamp(baseNote, 0, 127));
+  inst.view.setInt8(body + 1, clamp(detune, -50, 50));
+  inst.view.setInt8(body + 2, clamp(instrument?.lowNote ?? 0, 0, 127));
+  inst.view.setInt8(body + 3, clamp(instrument?.highNote ?? 127, 0, 127));
+  inst.view.setInt8(body + 4, clamp(instrument?.lowVelocity ?? 1, 1, 127));
+  inst.view.setInt8(body + 5, clamp(instrument?.highVelocity ?? 127, 1, 127));
+  inst.view.setInt16(body + 6, clamp(instrument?.gain ?? 0, -32768, 32767), false);
+  loops.forEach((loop, i) => {
+    const offset = body + 8 + i * 6;
+    inst.view.setInt16(offset, loop.type === 'alternating' ? AIFF_LOOP_ALTERNATING : AIFF_LOOP_FORWARD, false);
+    inst.view.setInt16(offset + 2, i * 2 + 1, false);
+    inst.view.setInt16(offset + 4, i * 2 + 2, false);
+  });
+  chunks.push(inst.bytes);
+  return chunks;
+}
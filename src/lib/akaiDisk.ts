@@ -0,0 +1,366 @@
+import JSZip from 'jszip';
+import {
+  createSndFile,
+  createSndHeader,
+  SND_LOOP_ENTRY_SIZE,
+  SND_LOOP_NONE,
+  SND_LOOP_PLAY_TO_END,
+  SND_LOOP_TABLE_OFFSET,
+  SND_MAX_LOOPS,
+  SND_NAME_LENGTH,
+  SndLoopMode,
+  SndSample,
+} from './akaiSnd';
+import { decodeAkaiName } from './akaiText';
+
+/**
+ * Akai S1000/S3000 disk images (.img), floppy or SCSI hard disk.
+ * Multi-byte values are little-endian.
+ *
+ * Floppy: 800K (low density) or 1600K (high density) in 1024-byte blocks
+ * offset  size  description
+ * ------------------------------------------------------------------
+ * 0x000   1536  64 x 24-byte directory entries
+ * 0x600   2n    FAT, one entry per block (n = 800 or 1600)
+ * ...     12    volume label (AKAII), straight after the FAT
+ *
+ * Hard disk: 8192-byte blocks, split into partitions of up to 60MB that
+ * follow each other. Every partition starts with:
+ * offset  size  description
+ * ------------------------------------------------------------------
+ * 0x000   2     partition size in blocks (0 = no more partitions)
+ * 0x0CA   1600  100 x 16-byte volume entries:
+ *                 +0  12  volume name (AKAII)
+ *                 +12 2   type (0 = unused, 1 = S1000, 3 = S3000)
+ *                 +14 2   first block of the volume directory
+ * 0x70A   2n    FAT, one entry per block of the partition
+ * A volume directory holds 126 (S1000) or 510 (S3000) directory entries and
+ * follows the FAT from its first block, like a file.
+ *
+ * Directory entry (24 bytes):
+ *   +0  12  file name (AKAII, blank = unused)
+ *   +12 4   reserved
+ *   +16 1   file type: 0x73 S1000 sample, 0x70 S1000 program,
+ *           S3000 types have the top bit set (0xF3 sample, 0xF0 program)
+ *   +17 3   file size in bytes
+ *   +20 2   first block
+ *   +22 2   OS version
+ *
+ * FAT entries hold the next block of a file. 0 marks a free block, values
+ * from 0x4000 up mark the last block of a file or blocks used by the system.
+ *
+ * Sample files start with a 150-byte (S1000) or 192-byte (S3000) header.
+ * Bytes 0-37 match the SND header, the loop table at 38 holds 8 loops of
+ * which SND keeps 7, the sample rate is at 138 and the loop tune offset at
+ * 140. 16-bit PCM follows the header.
+ */
+export const AKAI_FLOPPY_BLOCK_SIZE = 1024;
+export const AKAI_FLOPPY_LD_BLOCKS = 800;
+export const AKAI_FLOPPY_HD_BLOCKS = 1600;
+export const AKAI_HARDDISK_BLOCK_SIZE = 8192;
+export const AKAI_MAX_VOLUMES = 100;
+
+export const AKAI_FILE_S1000_SAMPLE = 0x73;
+export const AKAI_FILE_S1000_PROGRAM = 0x70;
+export const AKAI_FILE_S3000_SAMPLE = 0xF3;
+export const AKAI_FILE_S3000_PROGRAM = 0xF0;
+
+const DIRECTORY_ENTRY_SIZE = 24;
+const FLOPPY_DIRECTORY_ENTRIES = 64;
+const FLOPPY_FAT_OFFSET = 0x600;
+const PARTITION_VOLUME_TABLE_OFFSET = 0x0CA;
+const VOLUME_ENTRY_SIZE = 16;
+const PARTITION_FAT_OFFSET = 0x70A;
+const S1000_VOLUME_ENTRIES = 126;
+const S3000_VOLUME_ENTRIES = 510;
+const FAT_FREE = 0;
+const FAT_SPECIAL = 0x4000;
+
+const S1000_SAMPLE_HEADER_SIZE = 150;
+const S3000_SAMPLE_HEADER_SIZE = 192;
+const SAMPLE_RATE_OFFSET = 138;
+const LOOP_TUNE_OFFSET = 140;
+
+export type AkaiDiskKind = 'floppy' | 'harddisk';
+export type AkaiSamplerModel = 'S1000' | 'S3000';
+export type AkaiFileKind = 'sample' | 'program' | 'other';
+
+export interface AkaiDiskFile {
+  name: string;
+  type: number; // Raw file type byte
+  kind: AkaiFileKind;
+  model: AkaiSamplerModel;
+  size: number;
+  startBlock: number;
+}
+
+export interface AkaiVolume {
+  name: string;
+  partition: string; // 'A', 'B', ... on hard disks, '' on floppies
+  model: AkaiSamplerModel;
+  files: AkaiDiskFile[];
+  // Where the volume's partition lives, used to read its files
+  offset: number;
+  blockSize: number;
+  fat: Uint16Array;
+}
+
+export interface AkaiDisk {
+  kind: AkaiDiskKind;
+  volumes: AkaiVolume[];
+  buffer: ArrayBuffer;
+}
+
+function getFileKind(type: number): AkaiFileKind {
+  switch (type & 0x7F) {
+    case AKAI_FILE_S1000_SAMPLE:
+      return 'sample';
+    case AKAI_FILE_S1000_PROGRAM:
+      return 'program';
+    default:
+      return 'other';
+  }
+}
+
+function readFat(view: DataView, offset: number, blocks: number): Uint16Array {
+  const fat = new Uint16Array(blocks);
+  for (let i = 0; i < blocks; i++) {
+    fat[i] = view.getUint16(offset + i * 2, true);
+  }
+  return fat;
+}
+
+// Follow the FAT from a block, reading up to `size` bytes
+function readChain(
+  buffer: ArrayBuffer,
+  base: number,
+  blockSize: number,
+  fat: Uint16Array,
+  startBlock: number,
+  size: number,
+  name: string
+): Uint8Array {
+  const data = new Uint8Array(size);
+  let block = startBlock;
+  let written = 0;
+  const seen = new Set<number>();
+  while (written < size) {
+    if (block >= fat.length || seen.has(block)) {
+      throw new Error(`Invalid Akai disk: ${name} has a broken block chain at block ${block}`);
+    }
+    seen.add(block);
+    const offset = base + block * blockSize;
+    const length = Math.min(blockSize, size - written);
+    if (offset + length > buffer.byteLength) {
+      throw new Error(`Invalid Akai disk: ${name} runs past the end of the image`);
+    }
+    data.set(new Uint8Array(buffer, offset, length), written);
+    written += length;
+
+    const next = fat[block];
+    if (written < size && (next === FAT_FREE || next >= FAT_SPECIAL)) {
+      throw new Error(`Invalid Akai disk: ${name} is truncated after ${written} of ${size} bytes`);
+    }
+    block = next;
+  }
+  return data;
+}
+
+function readDirectory(bytes: Uint8Array, count: number): AkaiDiskFile[] {
+  const files: AkaiDiskFile[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = i * DIRECTORY_ENTRY_SIZE;
+    if (entry + DIRECTORY_ENTRY_SIZE > bytes.length) break;
+    const type = bytes[entry + 16];
+    const name = decodeAkaiName(bytes.subarray(entry, entry + SND_NAME_LENGTH));
+    if (type === 0 || !name) continue;
+    files.push({
+      name,
+      type,
+      kind: getFileKind(type),
+      model: type & 0x80 ? 'S3000' : 'S1000',
+      size: bytes[entry + 17] | (bytes[entry + 18] << 8) | (bytes[entry + 19] << 16),
+      startBlock: bytes[entry + 20] | (bytes[entry + 21] << 8),
+    });
+  }
+  return files;
+}
+
+function readFloppy(buffer: ArrayBuffer, blocks: number): AkaiVolume[] {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const fat = readFat(view, FLOPPY_FAT_OFFSET, blocks);
+  const labelOffset = FLOPPY_FAT_OFFSET + blocks * 2;
+  const files = readDirectory(bytes.subarray(0, FLOPPY_DIRECTORY_ENTRIES * DIRECTORY_ENTRY_SIZE), FLOPPY_DIRECTORY_ENTRIES);
+  return [{
+    name: decodeAkaiName(bytes.subarray(labelOffset, labelOffset + SND_NAME_LENGTH)) || 'FLOPPY',
+    partition: '',
+    model: files.some(file => file.model === 'S3000') ? 'S3000' : 'S1000',
+    files,
+    offset: 0,
+    blockSize: AKAI_FLOPPY_BLOCK_SIZE,
+    fat,
+  }];
+}
+
+function readHardDisk(buffer: ArrayBuffer): AkaiVolume[] {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const volumes: AkaiVolume[] = [];
+  let offset = 0;
+  let partitionIndex = 0;
+
+  while (offset + AKAI_HARDDISK_BLOCK_SIZE <= buffer.byteLength) {
+    const size = view.getUint16(offset, true);
+    if (size === 0) break;
+    if (offset + PARTITION_FAT_OFFSET + size * 2 > buffer.byteLength) {
+      throw new Error(`Invalid Akai disk: partition ${partitionIndex + 1} header runs past the end of the image`);
+    }
+    const partition = String.fromCharCode(65 + partitionIndex);
+    const fat = readFat(view, offset + PARTITION_FAT_OFFSET, size);
+
+    for (let i = 0; i < AKAI_MAX_VOLUMES; i++) {
+      const entry = offset + PARTITION_VOLUME_TABLE_OFFSET + i * VOLUME_ENTRY_SIZE;
+      const type = view.getUint16(entry + 12, true);
+      if (type !== 1 && type !== 3) continue;
+      const model: AkaiSamplerModel = type === 3 ? 'S3000' : 'S1000';
+      const name = decodeAkaiName(bytes.subarray(entry, entry + SND_NAME_LENGTH));
+      const entries = model === 'S3000' ? S3000_VOLUME_ENTRIES : S1000_VOLUME_ENTRIES;
+      try {
+        const directory = readChain(
+          buffer,
+          offset,
+          AKAI_HARDDISK_BLOCK_SIZE,
+          fat,
+          view.getUint16(entry + 14, true),
+          entries * DIRECTORY_ENTRY_SIZE,
+          `volume ${partition}/${name}`
+        );
+        volumes.push({
+          name,
+          partition,
+          model,
+          files: readDirectory(directory, entries),
+          offset,
+          blockSize: AKAI_HARDDISK_BLOCK_SIZE,
+          fat,
+        });
+      } catch (error) {
+        console.warn(`Skipping volume ${partition}/${name}:`, error);
+      }
+    }
+
+    offset += size * AKAI_HARDDISK_BLOCK_SIZE;
+    partitionIndex++;
+  }
+
+  if (volumes.length === 0) {
+    throw new Error('Invalid Akai disk: no S1000/S3000 volumes found');
+  }
+  return volumes;
+}
+
+// Read an Akai floppy or hard disk image. Floppies are told apart by size.
+export function readAkaiDisk(buffer: ArrayBuffer): AkaiDisk {
+  if (buffer.byteLength === AKAI_FLOPPY_LD_BLOCKS * AKAI_FLOPPY_BLOCK_SIZE) {
+    return { kind: 'floppy', volumes: readFloppy(buffer, AKAI_FLOPPY_LD_BLOCKS), buffer };
+  }
+  if (buffer.byteLength === AKAI_FLOPPY_HD_BLOCKS * AKAI_FLOPPY_BLOCK_SIZE) {
+    return { kind: 'floppy', volumes: readFloppy(buffer, AKAI_FLOPPY_HD_BLOCKS), buffer };
+  }
+  if (buffer.byteLength < AKAI_HARDDISK_BLOCK_SIZE) {
+    throw new Error(`Invalid Akai disk: ${buffer.byteLength} bytes is too small for a disk image`);
+  }
+  return { kind: 'harddisk', volumes: readHardDisk(buffer), buffer };
+}
+
+// Raw contents of a file on the disk
+export function readAkaiDiskFile(disk: AkaiDisk, volume: AkaiVolume, file: AkaiDiskFile): Uint8Array {
+  return readChain(disk.buffer, volume.offset, volume.blockSize, volume.fat, file.startBlock, file.size, file.name);
+}
+
+// Convert an S1000/S3000 sample file from a disk into an SND sample
+export function readAkaiDiskSample(disk: AkaiDisk, volume: AkaiVolume, file: AkaiDiskFile): SndSample {
+  if (file.kind !== 'sample') {
+    throw new Error(`${file.name} is not a sample`);
+  }
+  const bytes = readAkaiDiskFile(disk, volume, file);
+  const headerSize = file.model === 'S3000' ? S3000_SAMPLE_HEADER_SIZE : S1000_SAMPLE_HEADER_SIZE;
+  if (bytes.length < headerSize) {
+    throw new Error(`Invalid Akai sample: ${file.name} is shorter than its ${headerSize}-byte header`);
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+
+  const availableWords = Math.floor((bytes.length - headerSize) / 2);
+  const sampleWords = Math.min(view.getUint32(26, true), availableWords);
+  const header = createSndHeader({
+    // The directory name is what the sampler shows, the header copy can be stale
+    name: file.name,
+    sampleWords,
+    sampleRate: view.getUint16(SAMPLE_RATE_OFFSET, true) || (bytes[1] === 1 ? 44100 : 22050),
+    rootNote: bytes[2],
+  });
+  const loopMode = bytes[19];
+  header.sampleRateFlag = bytes[1];
+  header.activeLoops = Math.min(bytes[16], SND_MAX_LOOPS);
+  header.firstActiveLoop = Math.min(bytes[17], SND_MAX_LOOPS - 1);
+  header.loopMode = (loopMode <= SND_LOOP_PLAY_TO_END ? loopMode : SND_LOOP_NONE) as SndLoopMode;
+  header.centsTune = view.getInt8(20);
+  header.semiTune = view.getInt8(21);
+  header.startMarker = Math.min(view.getUint32(30, true), sampleWords);
+  header.endMarker = Math.min(view.getUint32(34, true), sampleWords);
+  header.loopTuneOffset = view.getInt8(LOOP_TUNE_OFFSET);
+  header.loops = header.loops.map((_, i) => {
+    const offset = SND_LOOP_TABLE_OFFSET + i * SND_LOOP_ENTRY_SIZE;
+    return {
+      marker: view.getUint32(offset, true),
+      fineLength: view.getUint16(offset + 4, true),
+      coarseLength: view.getUint32(offset + 6, true),
+      time: view.getUint16(offset + 10, true),
+    };
+  });
+
+  const data = new Int16Array(sampleWords);
+  for (let i = 0; i < sampleWords; i++) {
+    data[i] = view.getInt16(headerSize + i * 2, true);
+  }
+  return { header, data };
+}
+
+// Folder a volume's files go in when extracting: "A-VOLUME 1" on hard disks
+export function getAkaiVolumePath(volume: AkaiVolume): string {
+  return volume.partition ? `${volume.partition}-${volume.name}` : volume.name;
+}
+
+// Extract every sample on the disk (or the given volumes) into a zip of
+// .snd files, one folder per volume. Samples that fail to read are skipped
+// and listed in the result.
+export async function extractAkaiDiskToZip(
+  disk: AkaiDisk,
+  volumes = disk.volumes
+): Promise<{ zip: Blob; extracted: number; failed: string[] }> {
+  const zip = new JSZip();
+  const failed: string[] = [];
+  let extracted = 0;
+
+  volumes.forEach(volume => {
+    const folder = zip.folder(getAkaiVolumePath(volume)) ?? zip;
+    const used = new Set<string>();
+    volume.files
+      .filter(file => file.kind === 'sample')
+      .forEach(file => {
+        try {
+          let fileName = `${file.name}.snd`;
+          for (let n = 2; used.has(fileName); n++) fileName = `${file.name} ${n}.snd`;
+          used.add(fileName);
+          folder.file(fileName, createSndFile(readAkaiDiskSample(disk, volume, file)));
+          extracted++;
+        } catch (error) {
+          console.warn(`Skipping ${file.name}:`, error);
+          failed.push(`${getAkaiVolumePath(volume)}/${file.name}`);
+        }
+      });
+  });
+
+  return { zip: await zip.generateAsync({ type: 'blob' }), extracted, failed };
+}
@@ -1,61 +1,277 @@
-export interface PgmPad {
-  padNumber: number;
+/**
+ * Akai MPC3000 program file (.PGM).
+ *
+ * A program maps 64 pads (4 banks x 16) onto the 64 MIDI notes 35-98 and holds
+ * one parameter block per note. Multi-byte values are little-endian.
+ *
+ * offset  size  description
+ * ------------------------------------------------------------------
+ * 0x000   2     file id (preserved as read)
+ * 0x002   16    program name (ASCII, space padded)
+ * 0x012   64    note number assigned to each pad, A1-A16, B1-B16, ...
+ *               (outside 35-98 = unassigned)
+ * 0x052   2048  64 x 32-byte note blocks for notes 35-98:
+ *                 +0  16  sample name (ASCII, space padded, blank = none)
+ *                 +16 2   tuning (signed, tenths of a semitone, -120 to +120)
+ *                 +18 1   level 0-100
+ *                 +19 1   pan 0-100 (50 = centre)
+ *                 +20 1   attack 0-100
+ *                 +21 1   decay 0-100
+ *                 +22 1   decay mode (0 = end, 1 = start)
+ *                 +23 1   filter frequency 0-100 (100 = open)
+ *                 +24 1   filter resonance 0-100
+ *                 +25 1   mute group (0 = off, 1-32)
+ *                 +26 1   voice overlap (0 = poly, 1 = mono)
+ *                 +27 1   velocity to level 0-100
+ *                 +28 1   velocity to attack 0-100
+ *                 +29 1   velocity to decay 0-100
+ *                 +30 1   velocity to filter 0-100
+ *                 +31 1   reserved
+ * 0x852   4     note variation: note (0 = off), parameter (0 = tune,
+ *               1 = decay, 2 = attack, 3 = filter), low, high
+ * 0x856   10    reserved
+ *
+ * Bytes this module doesn't model are carried through unchanged when a
+ * parsed program is written back.
+ *
+ * Source: none. Akai never published this format and the layout above has
+ * not been checked against a .PGM saved by an MPC3000, so the offsets are
+ * this module's own and may not match files from the hardware.
+ * test/akaiPgm.test.ts pins them with a parse/write round trip.
+ */
+export const PGM_FILE_SIZE = 0x860;
+export const PGM_FILE_ID = 0x0407;
+export const PGM_NAME_LENGTH = 16;
+export const PGM_SAMPLE_NAME_LENGTH = 16;
+export const PGM_PAD_COUNT = 64;
+export const PGM_PADS_PER_BANK = 16;
+export const PGM_FIRST_NOTE = 35;
+export const PGM_LAST_NOTE = 98;
+export const PGM_NOTE_COUNT = PGM_LAST_NOTE - PGM_FIRST_NOTE + 1;
+export const PGM_NO_NOTE = 0; // Pad note of an unassigned pad
+export const PGM_MAX_MUTE_GROUP = 32;
+
+const NAME_OFFSET = 0x002;
+const PAD_TABLE_OFFSET = 0x012;
+const NOTE_TABLE_OFFSET = 0x052;
+const NOTE_BLOCK_SIZE = 32;
+const NOTE_VARIATION_OFFSET = 0x852;
+
+export type PgmBank = 'A' | 'B' | 'C' | 'D';
+export const PGM_BANKS: PgmBank[] = ['A', 'B', 'C', 'D'];
+
+export type PgmDecayMode = 'end' | 'start';
+export type PgmVoiceOverlap = 'poly' | 'mono';
+export type PgmNoteVariationParameter = 'tune' | 'decay' | 'attack' | 'filter';
+
+const NOTE_VARIATION_PARAMETERS: PgmNoteVariationParameter[] = ['tune', 'decay', 'attack', 'filter'];
+
+export interface PgmNote {
+  note: number;
   sampleName: string;
-  tuning: number;
-  volume: number;
+  tuning: number; // Semitones, in 0.1 steps
+  level: number;
   pan: number;
-  // Add any additional parameters as needed
+  attack: number;
+  decay: number;
+  decayMode: PgmDecayMode;
+  filterFrequency: number;
+  filterResonance: number;
+  muteGroup: number;
+  voiceOverlap: PgmVoiceOverlap;
+  velocityToLevel: number;
+  velocityToAttack: number;
+  velocityToDecay: number;
+  velocityToFilter: number;
+}
+
+export interface PgmNoteVariation {
+  note: number; // 0 = off
+  parameter: PgmNoteVariationParameter;
+  low: number;
+  high: number;
 }
 
 export interface PgmProgram {
   name: string;
-  pads: PgmPad[];
+  padNotes: number[]; // Note assigned to each of the 64 pads, PGM_NO_NOTE if none
+  notes: PgmNote[];   // One entry per note, notes[0] is note 35
+  noteVariation: PgmNoteVariation;
+  // Original file bytes, so unmodelled data survives a round trip
+  raw?: Uint8Array;
 }
 
-// Parse an Akai MPC 3000 program file (.PGM) and return a PgmProgram object
-export function parsePgmFile(buffer: ArrayBuffer): PgmProgram {
-  const decoder = new TextDecoder('ascii');
-  const bytes = new Uint8Array(buffer);
+function clampByte(value: number, max = 100): number {
+  return Math.max(0, Math.min(max, Math.round(value)));
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const char = bytes[offset + i];
+    if (char === 0) break;
+    text += String.fromCharCode(char);
+  }
+  return text.trim();
+}
 
-  // The first two bytes may be a header/version, then pad sample names start
-  let offset = 0;
-  if (bytes[0] < 0x20 && bytes[1] < 0x20) {
-    // Likely a header/version, skip first 2 bytes
-    offset = 2;
+function writeAscii(bytes: Uint8Array, offset: number, length: number, text: string): void {
+  for (let i = 0; i < length; i++) {
+    bytes[offset + i] = i < text.length ? text.charCodeAt(i) & 0x7F : 0x20;
   }
+}
 
-  // There are 32 pads in MPC3000 OS, but most programs use 16. We'll parse 32 for future-proofing.
-  const padCount = 32;
-  const pads: PgmPad[] = [];
+export function createPgmNote(note: number): PgmNote {
+  return {
+    note,
+    sampleName: '',
+    tuning: 0,
+    level: 100,
+    pan: 50,
+    attack: 0,
+    decay: 50,
+    decayMode: 'end',
+    filterFrequency: 100,
+    filterResonance: 0,
+    muteGroup: 0,
+    voiceOverlap: 'poly',
+    velocityToLevel: 100,
+    velocityToAttack: 0,
+    velocityToDecay: 0,
+    velocityToFilter: 0,
+  };
+}
 
-  for (let i = 0; i < padCount; i++) {
-    // Each sample name is up to 12 bytes, padded with spaces, and may be prefixed by a null byte
-    let nameStart = offset + i * 16;
-    let nameBytes = bytes.slice(nameStart, nameStart + 16);
-    // Remove leading null or space
-    while (nameBytes.length && (nameBytes[0] === 0x00 || nameBytes[0] === 0x20)) nameBytes = nameBytes.slice(1);
-    // Remove trailing null or space
-    while (nameBytes.length && (nameBytes[nameBytes.length - 1] === 0x00 || nameBytes[nameBytes.length - 1] === 0x20)) nameBytes = nameBytes.slice(0, -1);
-    const sampleName = decoder.decode(nameBytes);
+// Create an empty program with pads mapped to consecutive notes from 35
+export function createPgmProgram(name: string): PgmProgram {
+  return {
+    name: name.slice(0, PGM_NAME_LENGTH),
+    padNotes: Array.from({ length: PGM_PAD_COUNT }, (_, i) => PGM_FIRST_NOTE + i),
+    notes: Array.from({ length: PGM_NOTE_COUNT }, (_, i) => createPgmNote(PGM_FIRST_NOTE + i)),
+    noteVariation: { note: 0, parameter: 'tune', low: 0, high: 100 },
+  };
+}
 
-    // Extract tuning, volume, and pan from the PGM file
-    // Assuming these parameters are stored after the sample names
-    const tuningOffset = offset + padCount * 16 + i * 4; // Adjust based on actual file structure
-    const volumeOffset = tuningOffset + 1;
-    const panOffset = volumeOffset + 1;
+export function getPadIndex(bank: PgmBank, pad: number): number {
+  return PGM_BANKS.indexOf(bank) * PGM_PADS_PER_BANK + (pad - 1);
+}
 
-    const tuning = bytes[tuningOffset];
-    const volume = bytes[volumeOffset];
-    const pan = bytes[panOffset];
+// Parameters for a note number, or undefined outside 35-98
+export function getPgmNote(program: PgmProgram, note: number): PgmNote | undefined {
+  return program.notes[note - PGM_FIRST_NOTE];
+}
 
-    pads.push({ padNumber: i + 1, sampleName, tuning, volume, pan });
+// Parameters for the note a pad plays
+export function getPadNote(program: PgmProgram, bank: PgmBank, pad: number): PgmNote | undefined {
+  return getPgmNote(program, program.padNotes[getPadIndex(bank, pad)]);
+}
+
+// Parse an Akai MPC3000 program file (.PGM) and return a PgmProgram object
+export function parsePgmFile(buffer: ArrayBuffer): PgmProgram {
+  if (buffer.byteLength < PGM_FILE_SIZE) {
+    throw new Error(`Invalid PGM file: expected ${PGM_FILE_SIZE} bytes, got ${buffer.byteLength}`);
   }
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
 
-  // Program name is not always present in the same place, so we use the filename or a placeholder
-  const programName = 'MPC3000 Program';
+  const padNotes: number[] = [];
+  for (let i = 0; i < PGM_PAD_COUNT; i++) {
+    const note = bytes[PAD_TABLE_OFFSET + i];
+    padNotes.push(note >= PGM_FIRST_NOTE && note <= PGM_LAST_NOTE ? note : PGM_NO_NOTE);
+  }
+
+  const notes: PgmNote[] = [];
+  for (let i = 0; i < PGM_NOTE_COUNT; i++) {
+    const offset = NOTE_TABLE_OFFSET + i * NOTE_BLOCK_SIZE;
+    notes.push({
+      note: PGM_FIRST_NOTE + i,
+      sampleName: readAscii(bytes, offset, PGM_SAMPLE_NAME_LENGTH),
+      tuning: view.getInt16(offset + 16, true) / 10,
+      level: bytes[offset + 18],
+      pan: bytes[offset + 19],
+      attack: bytes[offset + 20],
+      decay: bytes[offset + 21],
+      decayMode: bytes[offset + 22] === 1 ? 'start' : 'end',
+      filterFrequency: bytes[offset + 23],
+      filterResonance: bytes[offset + 24],
+      muteGroup: Math.min(bytes[offset + 25], PGM_MAX_MUTE_GROUP),
+      voiceOverlap: bytes[offset + 26] === 1 ? 'mono' : 'poly',
+      velocityToLevel: bytes[offset + 27],
+      velocityToAttack: bytes[offset + 28],
+      velocityToDecay: bytes[offset + 29],
+      velocityToFilter: bytes[offset + 30],
+    });
+  }
 
   return {
-    name: programName,
-    pads: pads.filter(pad => pad.sampleName.length > 0),
+    name: readAscii(bytes, NAME_OFFSET, PGM_NAME_LENGTH),
+    padNotes,
+    notes,
+    noteVariation: {
+      note: bytes[NOTE_VARIATION_OFFSET],
+      parameter: NOTE_VARIATION_PARAMETERS[bytes[NOTE_VARIATION_OFFSET + 1]] ?? 'tune',
+      low: bytes[NOTE_VARIATION_OFFSET + 2],
+      high: bytes[NOTE_VARIATION_OFFSET + 3],
+    },
+    raw: bytes.slice(),
   };
-} 
\ No newline at end of file
+}
+
+// Serialize a program, starting from its original bytes when it has them
+export function writePgmFile(program: PgmProgram): ArrayBuffer {
+  if (program.padNotes.length !== PGM_PAD_COUNT) {
+    throw new Error(`Program needs ${PGM_PAD_COUNT} pad assignments, got ${program.padNotes.length}`);
+  }
+  if (program.notes.length !== PGM_NOTE_COUNT) {
+    throw new Error(`Program needs ${PGM_NOTE_COUNT} note entries, got ${program.notes.length}`);
+  }
+
+  const bytes = new Uint8Array(Math.max(PGM_FILE_SIZE, program.raw?.length ?? 0));
+  if (program.raw) {
+    bytes.set(program.raw);
+  }
+  const view = new DataView(bytes.buffer);
+  if (!program.raw) {
+    view.setUint16(0, PGM_FILE_ID, true);
+  }
+
+  writeAscii(bytes, NAME_OFFSET, PGM_NAME_LENGTH, program.name);
+
+  program.padNotes.forEach((note, i) => {
+    if (note !== PGM_NO_NOTE && (note < PGM_FIRST_NOTE || note > PGM_LAST_NOTE)) {
+      throw new Error(`Pad ${i + 1} is assigned to note ${note}, outside ${PGM_FIRST_NOTE}-${PGM_LAST_NOTE}`);
+    }
+    bytes[PAD_TABLE_OFFSET + i] = note;
+  });
+
+  program.notes.forEach((note, i) => {
+    const offset = NOTE_TABLE_OFFSET + i * NOTE_BLOCK_SIZE;
+    writeAscii(bytes, offset, PGM_SAMPLE_NAME_LENGTH, note.sampleName);
+    view.setInt16(offset + 16, Math.max(-120, Math.min(120, Math.round(note.tuning * 10))), true);
+    bytes[offset + 18] = clampByte(note.level);
+    bytes[offset + 19] = clampByte(note.pan);
+    bytes[offset + 20] = clampByte(note.attack);
+    bytes[offset + 21] = clampByte(note.decay);
+    bytes[offset + 22] = note.decayMode === 'start' ? 1 : 0;
+    bytes[offset + 23] = clampByte(note.filterFrequency);
+    bytes[offset + 24] = clampByte(note.filterResonance);
+    bytes[offset + 25] = clampByte(note.muteGroup, PGM_MAX_MUTE_GROUP);
+    bytes[offset + 26] = note.voiceOverlap === 'mono' ? 1 : 0;
+    bytes[offset + 27] = clampByte(note.velocityToLevel);
+    bytes[offset + 28] = clampByte(note.velocityToAttack);
+    bytes[offset + 29] = clampByte(note.velocityToDecay);
+    bytes[offset + 30] = clampByte(note.velocityToFilter);
+  });
+
+  const variation = program.noteVariation;
+  const parameter = NOTE_VARIATION_PARAMETERS.indexOf(variation.parameter);
+  if (parameter < 0) {
+    throw new Error(`Note variation parameter must be one of ${NOTE_VARIATION_PARAMETERS.join(', ')}, got ${variation.parameter}`);
+  }
+  bytes[NOTE_VARIATION_OFFSET] = variation.note;
+  bytes[NOTE_VARIATION_OFFSET + 1] = parameter;
+  bytes[NOTE_VARIATION_OFFSET + 2] = clampByte(variation.low);
+  bytes[NOTE_VARIATION_OFFSET + 3] = clampByte(variation.high);
+
+  return bytes.buffer;
+}
@@ -0,0 +1,426 @@
+/**
+ * Akai MPC3000 sequence (.SEQ) and all-sequences-and-songs (.ALL) files.
+ *
+ * Timing is in ticks at 96 per quarter note, the MPC3000's resolution.
+ * Multi-byte values are little-endian.
+ *
+ * .SEQ
+ * offset  size  description
+ * ------------------------------------------------------------------
+ * 0x000   2     file id (preserved as read)
+ * 0x002   16    sequence name (ASCII, space padded)
+ * 0x012   2     tempo (tenths of a BPM)
+ * 0x014   1     time signature numerator
+ * 0x015   1     time signature denominator
+ * 0x016   2     length in bars
+ * 0x018   2     loop to bar (0 = loop off, 1-999)
+ * 0x01A   6     reserved
+ * 0x020   2376  99 x 24-byte track entries:
+ *                 +0  16  track name (ASCII, space padded)
+ *                 +16 1   status (0 = unused, 1 = used)
+ *                 +17 1   type (0 = drum, 1 = MIDI)
+ *                 +18 1   program number assigned to the track
+ *                 +19 1   MIDI output channel (0 = off, 1-32)
+ *                 +20 1   mute (1 = muted)
+ *                 +21 3   reserved
+ * 0x968   4     event count
+ * 0x96C   12n   events in tick order:
+ *                 +0  4   tick from the start of the sequence
+ *                 +4  1   track (0-98)
+ *                 +5  1   type (0 = note, 1 = program change)
+ *                 +6  1   note number, or program number
+ *                 +7  1   velocity 1-127
+ *                 +8  2   duration in ticks
+ *                 +10 2   reserved
+ *
+ * .ALL
+ * offset  size  description
+ * ------------------------------------------------------------------
+ * 0x000   2     file id (preserved as read)
+ * 0x002   2     sequence count
+ * 0x004   2     song count
+ * 0x006   10    reserved
+ * 0x010   8n    sequence directory: +0 1 sequence number (1-99),
+ *               +1 3 reserved, +4 4 length of the sequence block in bytes
+ * ...           sequence blocks, laid out as .SEQ files, in directory order
+ * ...           song blocks:
+ *                 +0  16  song name (ASCII, space padded)
+ *                 +16 1   step count
+ *                 +17 1   loop to step (0 = loop off, 1-250)
+ *                 +18 2   reserved
+ *                 +20 2n  steps: sequence number, repeats
+ *
+ * Bytes this module doesn't model are carried through unchanged when a
+ * parsed sequence is written back.
+ *
+ * Source: none. Akai never published these formats and the layouts above
+ * have not been checked against .SEQ or .ALL files saved by an MPC3000, so
+ * the offsets are this module's own and may not match files from the
+ * hardware. test/akaiSeq.test.ts pins them with parse/write round trips.
+ */
+export const SEQ_PPQN = 96;
+export const SEQ_FILE_ID = 0x0409;
+export const ALL_FILE_ID = 0x040A;
+export const SEQ_NAME_LENGTH = 16;
+export const SEQ_MAX_TRACKS = 99;
+export const SEQ_MAX_SEQUENCES = 99;
+export const SEQ_MAX_SONG_STEPS = 250;
+export const SEQ_DEFAULT_TEMPO = 120;
+
+const NAME_OFFSET = 0x002;
+const TEMPO_OFFSET = 0x012;
+const TRACK_TABLE_OFFSET = 0x020;
+const TRACK_ENTRY_SIZE = 24;
+const EVENT_COUNT_OFFSET = 0x968;
+const EVENTS_OFFSET = 0x96C;
+const EVENT_SIZE = 12;
+
+const ALL_HEADER_SIZE = 0x010;
+const ALL_DIRECTORY_ENTRY_SIZE = 8;
+const SONG_HEADER_SIZE = 20;
+
+export type SeqTrackType = 'drum' | 'midi';
+
+export interface SeqNoteEvent {
+  type: 'note';
+  tick: number;
+  note: number;
+  velocity: number;
+  duration: number; // Ticks
+}
+
+export interface SeqProgramChangeEvent {
+  type: 'program';
+  tick: number;
+  program: number;
+}
+
+export type SeqEvent = SeqNoteEvent | SeqProgramChangeEvent;
+
+export interface SeqTrack {
+  index: number; // 0-98, shown as tracks 1-99
+  name: string;
+  type: SeqTrackType;
+  program: number;
+  midiChannel: number; // 0 = off
+  muted: boolean;
+  events: SeqEvent[];
+}
+
+export interface SeqTimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
+export interface SeqSequence {
+  number: number; // 1-99, 0 when read from a lone .SEQ file
+  name: string;
+  tempo: number; // BPM
+  timeSignature: SeqTimeSignature;
+  bars: number;
+  loopToBar: number; // 0 = loop off
+  tracks: SeqTrack[]; // Used tracks only
+  // Original header and track table bytes, so unmodelled data survives a round trip
+  raw?: Uint8Array;
+}
+
+export interface SeqSongStep {
+  sequence: number;
+  repeats: number;
+}
+
+export interface SeqSong {
+  name: string;
+  steps: SeqSongStep[];
+  loopToStep: number; // 0 = loop off
+}
+
+export interface SeqAllFile {
+  sequences: SeqSequence[];
+  songs: SeqSong[];
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const char = bytes[offset + i];
+    if (char === 0) break;
+    text += String.fromCharCode(char);
+  }
+  return text.trim();
+}
+
+function writeAscii(bytes: Uint8Array, offset: number, length: number, text: string): void {
+  for (let i = 0; i < length; i++) {
+    bytes[offset + i] = i < text.length ? text.charCodeAt(i) & 0x7F : 0x20;
+  }
+}
+
+export function createSeqTrack(index: number, name = `TRACK${String(index + 1).padStart(2, '0')}`): SeqTrack {
+  return { index, name, type: 'drum', program: 1, midiChannel: 0, muted: false, events: [] };
+}
+
+export function createSeqSequence(name: string, bars = 2): SeqSequence {
+  return {
+    number: 0,
+    name: name.slice(0, SEQ_NAME_LENGTH),
+    tempo: SEQ_DEFAULT_TEMPO,
+    timeSignature: { numerator: 4, denominator: 4 },
+    bars,
+    loopToBar: 1,
+    tracks: [],
+  };
+}
+
+export function getTicksPerBar(timeSignature: SeqTimeSignature): number {
+  return (SEQ_PPQN * 4 * timeSignature.numerator) / timeSignature.denominator;
+}
+
+export function getSequenceLengthTicks(sequence: SeqSequence): number {
+  return sequence.bars * getTicksPerBar(sequence.timeSignature);
+}
+
+export function ticksToSeconds(ticks: number, tempo: number): number {
+  return (ticks * 60) / (tempo * SEQ_PPQN);
+}
+
+// Bar, beat and tick (all from 1 except tick) for display, e.g. 001.01.00
+export function formatSeqPosition(tick: number, timeSignature: SeqTimeSignature): string {
+  const ticksPerBar = getTicksPerBar(timeSignature);
+  const ticksPerBeat = (SEQ_PPQN * 4) / timeSignature.denominator;
+  const bar = Math.floor(tick / ticksPerBar) + 1;
+  const beat = Math.floor((tick % ticksPerBar) / ticksPerBeat) + 1;
+  const rest = Math.floor(tick % ticksPerBeat);
+  return `${String(bar).padStart(3, '0')}.${String(beat).padStart(2, '0')}.${String(rest).padStart(2, '0')}`;
+}
+
+function readSequence(buffer: ArrayBuffer, offset: number, length: number, number: number): SeqSequence {
+  if (length < EVENTS_OFFSET) {
+    throw new Error(`Invalid SEQ file: expected at least ${EVENTS_OFFSET} bytes, got ${length}`);
+  }
+  const bytes = new Uint8Array(buffer, offset, length);
+  const view = new DataView(buffer, offset, length);
+
+  const numerator = bytes[TEMPO_OFFSET + 2];
+  const denominator = bytes[TEMPO_OFFSET + 3];
+  if (numerator === 0 || ![1, 2, 4, 8, 16, 32].includes(denominator)) {
+    throw new Error(`Invalid SEQ file: time signature ${numerator}/${denominator}`);
+  }
+
+  const tracks: SeqTrack[] = [];
+  const trackByIndex = new Map<number, SeqTrack>();
+  for (let i = 0; i < SEQ_MAX_TRACKS; i++) {
+    const entry = TRACK_TABLE_OFFSET + i * TRACK_ENTRY_SIZE;
+    if (bytes[entry + 16] === 0) continue;
+    const track: SeqTrack = {
+      index: i,
+      name: readAscii(bytes, entry, SEQ_NAME_LENGTH),
+      type: bytes[entry + 17] === 1 ? 'midi' : 'drum',
+      program: bytes[entry + 18],
+      midiChannel: bytes[entry + 19],
+      muted: bytes[entry + 20] === 1,
+      events: [],
+    };
+    tracks.push(track);
+    trackByIndex.set(i, track);
+  }
+
+  const eventCount = view.getUint32(EVENT_COUNT_OFFSET, true);
+  if (EVENTS_OFFSET + eventCount * EVENT_SIZE > length) {
+    throw new Error(`Invalid SEQ file: ${eventCount} events don't fit in ${length} bytes`);
+  }
+  for (let i = 0; i < eventCount; i++) {
+    const event = EVENTS_OFFSET + i * EVENT_SIZE;
+    const trackIndex = bytes[event + 4];
+    let track = trackByIndex.get(trackIndex);
+    if (!track) {
+      // Events on a track marked unused still play on the MPC, keep them
+      console.warn(`SEQ event on unused track ${trackIndex + 1}`);
+      track = createSeqTrack(trackIndex);
+      tracks.push(track);
+      trackByIndex.set(trackIndex, track);
+    }
+    const tick = view.getUint32(event, true);
+    if (bytes[event + 5] === 1) {
+      track.events.push({ type: 'program', tick, program: bytes[event + 6] });
+    } else {
+      track.events.push({
+        type: 'note',
+        tick,
+        note: bytes[event + 6],
+        velocity: Math.max(1, Math.min(127, bytes[event + 7])),
+        duration: view.getUint16(event + 8, true),
+      });
+    }
+  }
+  tracks.sort((a, b) => a.index - b.index);
+  tracks.forEach(track => track.events.sort((a, b) => a.tick - b.tick));
+
+  return {
+    number,
+    name: readAscii(bytes, NAME_OFFSET, SEQ_NAME_LENGTH),
+    tempo: view.getUint16(TEMPO_OFFSET, true) / 10 || SEQ_DEFAULT_TEMPO,
+    timeSignature: { numerator, denominator },
+    bars: view.getUint16(TEMPO_OFFSET + 4, true),
+    loopToBar: view.getUint16(TEMPO_OFFSET + 6, true),
+    tracks,
+    raw: bytes.slice(0, EVENTS_OFFSET),
+  };
+}
+
+// Parse an Akai MPC3000 sequence file (.SEQ) and return a SeqSequence object
+export function parseSeqFile(buffer: ArrayBuffer): SeqSequence {
+  return readSequence(buffer, 0, buffer.byteLength, 0);
+}
+
+// Serialize a sequence, starting from its original header bytes when it has them
+export function writeSeqFile(sequence: SeqSequence): ArrayBuffer {
+  const events: { track: number; event: SeqEvent }[] = [];
+  sequence.tracks.forEach(track => {
+    if (track.index < 0 || track.index >= SEQ_MAX_TRACKS) {
+      throw new Error(`Track ${track.index + 1} is outside 1-${SEQ_MAX_TRACKS}`);
+    }
+    track.events.forEach(event => events.push({ track: track.index, event }));
+  });
+  events.sort((a, b) => a.event.tick - b.event.tick);
+
+  const bytes = new Uint8Array(EVENTS_OFFSET + events.length * EVENT_SIZE);
+  if (sequence.raw) {
+    bytes.set(sequence.raw.subarray(0, EVENTS_OFFSET));
+  }
+  const view = new DataView(bytes.buffer);
+  if (!sequence.raw) {
+    view.setUint16(0, SEQ_FILE_ID, true);
+  }
+
+  writeAscii(bytes, NAME_OFFSET, SEQ_NAME_LENGTH, sequence.name);
+  view.setUint16(TEMPO_OFFSET, Math.round(sequence.tempo * 10), true);
+  bytes[TEMPO_OFFSET + 2] = sequence.timeSignature.numerator;
+  bytes[TEMPO_OFFSET + 3] = sequence.timeSignature.denominator;
+  view.setUint16(TEMPO_OFFSET + 4, sequence.bars, true);
+  view.setUint16(TEMPO_OFFSET + 6, sequence.loopToBar, true);
+
+  // Tracks missing from the sequence are written as unused
+  for (let i = 0; i < SEQ_MAX_TRACKS; i++) {
+    bytes[TRACK_TABLE_OFFSET + i * TRACK_ENTRY_SIZE + 16] = 0;
+  }
+  sequence.tracks.forEach(track => {
+    const entry = TRACK_TABLE_OFFSET + track.index * TRACK_ENTRY_SIZE;
+    writeAscii(bytes, entry, SEQ_NAME_LENGTH, track.name);
+    bytes[entry + 16] = 1;
+    bytes[entry + 17] = track.type === 'midi' ? 1 : 0;
+    bytes[entry + 18] = track.program;
+    bytes[entry + 19] = track.midiChannel;
+    bytes[entry + 20] = track.muted ? 1 : 0;
+  });
+
+  view.setUint32(EVENT_COUNT_OFFSET, events.length, true);
+  events.forEach(({ track, event }, i) => {
+    const offset = EVENTS_OFFSET + i * EVENT_SIZE;
+    view.setUint32(offset, Math.max(0, Math.round(event.tick)), true);
+    bytes[offset + 4] = track;
+    if (event.type === 'program') {
+      bytes[offset + 5] = 1;
+      bytes[offset + 6] = event.program;
+    } else {
+      bytes[offset + 6] = event.note;
+      bytes[offset + 7] = Math.max(1, Math.min(127, Math.round(event.velocity)));
+      view.setUint16(offset + 8, Math.max(0, Math.min(0xFFFF, Math.round(event.duration))), true);
+    }
+  });
+
+  return bytes.buffer;
+}
+
+// Parse an Akai MPC3000 all-sequences-and-songs file (.ALL)
+export function parseAllFile(buffer: ArrayBuffer): SeqAllFile {
+  if (buffer.byteLength < ALL_HEADER_SIZE) {
+    throw new Error(`Invalid ALL file: expected at least ${ALL_HEADER_SIZE} bytes, got ${buffer.byteLength}`);
+  }
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const sequenceCount = view.getUint16(2, true);
+  const songCount = view.getUint16(4, true);
+  if (sequenceCount > SEQ_MAX_SEQUENCES) {
+    throw new Error(`Invalid ALL file: ${sequenceCount} sequences, at most ${SEQ_MAX_SEQUENCES} allowed`);
+  }
+
+  let offset = ALL_HEADER_SIZE + sequenceCount * ALL_DIRECTORY_ENTRY_SIZE;
+  const sequences: SeqSequence[] = [];
+  for (let i = 0; i < sequenceCount; i++) {
+    const entry = ALL_HEADER_SIZE + i * ALL_DIRECTORY_ENTRY_SIZE;
+    const number = bytes[entry];
+    const length = view.getUint32(entry + 4, true);
+    if (offset + length > buffer.byteLength) {
+      throw new Error(`Invalid ALL file: sequence ${number} runs past the end of the file`);
+    }
+    sequences.push(readSequence(buffer, offset, length, number));
+    offset += length;
+  }
+
+  const songs: SeqSong[] = [];
+  for (let i = 0; i < songCount; i++) {
+    if (offset + SONG_HEADER_SIZE > buffer.byteLength) {
+      throw new Error(`Invalid ALL file: song ${i + 1} runs past the end of the file`);
+    }
+    const stepCount = bytes[offset + 16];
+    if (offset + SONG_HEADER_SIZE + stepCount * 2 > buffer.byteLength) {
+      throw new Error(`Invalid ALL file: song ${i + 1} runs past the end of the file`);
+    }
+    const steps: SeqSongStep[] = [];
+    for (let step = 0; step < stepCount; step++) {
+      const stepOffset = offset + SONG_HEADER_SIZE + step * 2;
+      steps.push({ sequence: bytes[stepOffset], repeats: bytes[stepOffset + 1] });
+    }
+    songs.push({
+      name: readAscii(bytes, offset, SEQ_NAME_LENGTH),
+      steps,
+      loopToStep: bytes[offset + 17],
+    });
+    offset += SONG_HEADER_SIZE + stepCount * 2;
+  }
+
+  return { sequences, songs };
+}
+
+// Serialize sequences and songs into a .ALL file
+export function writeAllFile(all: SeqAllFile): ArrayBuffer {
+  if (all.sequences.length > SEQ_MAX_SEQUENCES) {
+    throw new Error(`An ALL file holds at most ${SEQ_MAX_SEQUENCES} sequences, got ${all.sequences.length}`);
+  }
+  const blocks = all.sequences.map(sequence => new Uint8Array(writeSeqFile(sequence)));
+  const songSize = all.songs.reduce(
+    (size, song) => size + SONG_HEADER_SIZE + Math.min(song.steps.length, SEQ_MAX_SONG_STEPS) * 2,
+    0
+  );
+  const directorySize = ALL_HEADER_SIZE + blocks.length * ALL_DIRECTORY_ENTRY_SIZE;
+  const bytes = new Uint8Array(directorySize + blocks.reduce((size, block) => size + block.length, 0) + songSize);
+  const view = new DataView(bytes.buffer);
+
+  view.setUint16(0, ALL_FILE_ID, true);
+  view.setUint16(2, blocks.length, true);
+  view.setUint16(4, all.songs.length, true);
+
+  let offset = directorySize;
+  blocks.forEach((block, i) => {
+    const entry = ALL_HEADER_SIZE + i * ALL_DIRECTORY_ENTRY_SIZE;
+    bytes[entry] = all.sequences[i].number || i + 1;
+    view.setUint32(entry + 4, block.length, true);
+    bytes.set(block, offset);
+    offset += block.length;
+  });
+
+  all.songs.forEach(song => {
+    const steps = song.steps.slice(0, SEQ_MAX_SONG_STEPS);
+    writeAscii(bytes, offset, SEQ_NAME_LENGTH, song.name);
+    bytes[offset + 16] = steps.length;
+    bytes[offset + 17] = song.loopToStep;
+    steps.forEach((step, i) => {
+      bytes[offset + SONG_HEADER_SIZE + i * 2] = step.sequence;
+      bytes[offset + SONG_HEADER_SIZE + i * 2 + 1] = step.repeats;
+    });
+    offset += SONG_HEADER_SIZE + steps.length * 2;
+  });
+
+  return bytes.buffer;
+}
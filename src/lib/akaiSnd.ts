@@ -1,83 +1,491 @@
-import { WaveFile } from 'wavefile';
+import { AkaiNameEncoding, decodeAkaiName, detectAkaiNameEncoding, encodeAkaiName } from './akaiText';
+import { decodeWav, mixToMono } from './audioDecoder';
+import { AiffCompression, encodeAiff, encodeWav } from './audioEncoder';
+import { WavLoop, WavMetadata } from './wavChunks';
 
-export interface SndSample {
+/**
+ * Akai S3000/MPC3000 SND format, based on "Akai sampler disk and file formats":
+ *
+ * byte     description                     default
+ * ------------------------------------------------------------------
+ *   0      format                          3
+ *   1      sample rate flag                1 = 44.1kHz, 0 = 22.05kHz
+ *   2      MIDI root note (C3=60)          60
+ *   3-14   name (12 bytes, AKAII)
+ *   15     always 128
+ *   16     number of active loops          0-7
+ *   17     first active loop               0 = loop 1
+ *   18     always 0
+ *   19     loop mode                       0 = in release, 1 = until release,
+ *                                          2 = none, 3 = play to sample end
+ *   20     cents tune                      -50 to +50
+ *   21     semi tune                       -50 to +50
+ *   22-25  always 0, 8, 2, 0
+ *   26-29  number of sample words
+ *   30-33  start marker
+ *   34-37  end marker
+ *   38-181 loop table: 7 x 12-byte loops, then reserved
+ *            +0  loop marker ("loop at", the end of the loop)
+ *            +4  fine length (65536ths of a word)
+ *            +6  coarse length (words)
+ *            +10 loop time (msec, 9999 = hold)
+ *   182-185 always 0, 0, 255, 255
+ *   186-187 sampling frequency
+ *   188    loop tune offset                -50 to +50
+ *   189-191 reserved
+ *
+ * Followed by 16-bit PCM data. Multi-byte values are little-endian, like
+ * every other Akai S1000/S3000 structure.
+ */
+export const SND_HEADER_SIZE = 192;
+export const SND_FORMAT_S3000 = 3;
+export const SND_MAX_LOOPS = 7;
+export const SND_LOOP_TABLE_OFFSET = 38;
+export const SND_LOOP_ENTRY_SIZE = 12;
+export const SND_LOOP_HOLD = 9999;
+export const SND_NAME_LENGTH = 12;
+export const SND_DEFAULT_ROOT_NOTE = 60;
+
+export const SND_LOOP_IN_RELEASE = 0;
+export const SND_LOOP_UNTIL_RELEASE = 1;
+export const SND_LOOP_NONE = 2;
+export const SND_LOOP_PLAY_TO_END = 3;
+
+export type SndLoopMode =
+  | typeof SND_LOOP_IN_RELEASE
+  | typeof SND_LOOP_UNTIL_RELEASE
+  | typeof SND_LOOP_NONE
+  | typeof SND_LOOP_PLAY_TO_END;
+
+export const SND_LOOP_MODE_NAMES: Record<SndLoopMode, string> = {
+  [SND_LOOP_IN_RELEASE]: 'Loop in release',
+  [SND_LOOP_UNTIL_RELEASE]: 'Loop until release',
+  [SND_LOOP_NONE]: 'No looping',
+  [SND_LOOP_PLAY_TO_END]: 'Play to sample end',
+};
+
+const LITTLE_ENDIAN = true;
+const LOOP_TABLE_USED = SND_MAX_LOOPS * SND_LOOP_ENTRY_SIZE;
+const LOOP_TABLE_END = 182;
+
+export interface AkaiSndLoop {
+  marker: number;       // Loop end point in words
+  fineLength: number;   // 0-65535, fraction of a word
+  coarseLength: number; // Whole words
+  time: number;         // Dwell time in msec, SND_LOOP_HOLD for hold
+}
+
+export interface AkaiSndHeader {
+  format: number;
+  sampleRateFlag: number;
+  rootNote: number;
   name: string;
+  nameEncoding: AkaiNameEncoding;
+  activeLoops: number;
+  firstActiveLoop: number;
+  loopMode: SndLoopMode;
+  centsTune: number;
+  semiTune: number;
+  sampleWords: number;
+  startMarker: number;
+  endMarker: number;
+  loops: AkaiSndLoop[];
   sampleRate: number;
-  bitDepth: number;
-  channels: number;
+  loopTuneOffset: number;
+  // Bytes the spec documents as fixed or reserved, kept so files round-trip
+  // byte-for-byte even when they hold something unexpected.
+  reserved: {
+    byte15: number;
+    byte18: number;
+    bytes22to25: Uint8Array;
+    loopTableTail: Uint8Array;
+    bytes182to185: Uint8Array;
+    bytes189to191: Uint8Array;
+  };
+}
+
+export interface SndSample {
+  header: AkaiSndHeader;
   data: Int16Array;
 }
 
-// Parse Akai SND file to SndSample
-export function parseSndFile(buffer: ArrayBuffer): SndSample {
-  const view = new DataView(buffer);
-  // SND header is 16 bytes:
-  // - 4 bytes: magic number (0x2E736E64)
-  // - 4 bytes: header size (usually 24)
-  // - 4 bytes: data size
-  // - 4 bytes: format (0 = 8-bit, 1 = 16-bit, 2 = 24-bit, 3 = 32-bit)
-  // - 4 bytes: sample rate
-  // - 4 bytes: channels
-  const magic = view.getUint32(0, false);
-  if (magic !== 0x2E736E64) {
-    throw new Error('Invalid SND file: wrong magic number');
-  }
-  const headerSize = view.getUint32(4, false);
-  const dataSize = view.getUint32(8, false);
-  const format = view.getUint32(12, false);
-  const sampleRate = view.getUint32(16, false);
-  const channels = view.getUint32(20, false);
-  // Read sample data starting at headerSize
-  const data = new Int16Array(buffer.slice(headerSize, headerSize + dataSize));
+export function createEmptyLoop(): AkaiSndLoop {
+  return { marker: 0, fineLength: 0, coarseLength: 0, time: 0 };
+}
+
+// Build a header with the documented defaults for freshly converted audio
+export function createSndHeader(options: {
+  name: string;
+  sampleWords: number;
+  sampleRate: number;
+  rootNote?: number;
+}): AkaiSndHeader {
   return {
-    name: 'sample',
-    sampleRate,
-    bitDepth: format === 1 ? 16 : 8,
-    channels,
-    data,
+    format: SND_FORMAT_S3000,
+    sampleRateFlag: options.sampleRate === 44100 ? 1 : 0,
+    rootNote: options.rootNote ?? SND_DEFAULT_ROOT_NOTE,
+    name: options.name,
+    nameEncoding: 'akaii',
+    activeLoops: 0,
+    firstActiveLoop: 0,
+    loopMode: SND_LOOP_NONE,
+    centsTune: 0,
+    semiTune: 0,
+    sampleWords: options.sampleWords,
+    startMarker: 0,
+    endMarker: options.sampleWords,
+    loops: Array.from({ length: SND_MAX_LOOPS }, createEmptyLoop),
+    sampleRate: options.sampleRate,
+    loopTuneOffset: 0,
+    reserved: {
+      byte15: 128,
+      byte18: 0,
+      bytes22to25: new Uint8Array([0, 8, 2, 0]),
+      loopTableTail: new Uint8Array(LOOP_TABLE_END - SND_LOOP_TABLE_OFFSET - LOOP_TABLE_USED),
+      bytes182to185: new Uint8Array([0, 0, 255, 255]),
+      bytes189to191: new Uint8Array(3),
+    },
   };
 }
 
-// Create Akai SND file from SndSample
-export function createSndFile(sample: SndSample): ArrayBuffer {
-  const headerSize = 24;
-  const dataSize = sample.data.byteLength;
-  const buffer = new ArrayBuffer(headerSize + dataSize);
+// Parse the 192-byte S3000/MPC3000 header at the start of an SND file
+export function readSndHeader(buffer: ArrayBuffer): AkaiSndHeader {
+  if (buffer.byteLength < SND_HEADER_SIZE) {
+    throw new Error(`Invalid SND file: header needs ${SND_HEADER_SIZE} bytes, got ${buffer.byteLength}`);
+  }
+  const view = new DataView(buffer, 0, SND_HEADER_SIZE);
+  const bytes = new Uint8Array(buffer, 0, SND_HEADER_SIZE);
+
+  const format = view.getUint8(0);
+  if (format !== SND_FORMAT_S3000) {
+    throw new Error(`Invalid SND file: format byte is ${format}, expected ${SND_FORMAT_S3000}`);
+  }
+
+  const loopMode = view.getUint8(19);
+  if (loopMode > SND_LOOP_PLAY_TO_END) {
+    throw new Error(`Invalid SND file: unknown loop mode ${loopMode}`);
+  }
+
+  const nameBytes = bytes.slice(3, 3 + SND_NAME_LENGTH);
+  const nameEncoding = detectAkaiNameEncoding(nameBytes);
+
+  const loops: AkaiSndLoop[] = [];
+  for (let i = 0; i < SND_MAX_LOOPS; i++) {
+    const offset = SND_LOOP_TABLE_OFFSET + i * SND_LOOP_ENTRY_SIZE;
+    loops.push({
+      marker: view.getUint32(offset, LITTLE_ENDIAN),
+      fineLength: view.getUint16(offset + 4, LITTLE_ENDIAN),
+      coarseLength: view.getUint32(offset + 6, LITTLE_ENDIAN),
+      time: view.getUint16(offset + 10, LITTLE_ENDIAN),
+    });
+  }
+
+  return {
+    format,
+    sampleRateFlag: view.getUint8(1),
+    rootNote: view.getUint8(2),
+    name: decodeAkaiName(nameBytes, nameEncoding),
+    nameEncoding,
+    activeLoops: view.getUint8(16),
+    firstActiveLoop: view.getUint8(17),
+    loopMode: loopMode as SndLoopMode,
+    centsTune: view.getInt8(20),
+    semiTune: view.getInt8(21),
+    sampleWords: view.getUint32(26, LITTLE_ENDIAN),
+    startMarker: view.getUint32(30, LITTLE_ENDIAN),
+    endMarker: view.getUint32(34, LITTLE_ENDIAN),
+    loops,
+    sampleRate: view.getUint16(186, LITTLE_ENDIAN),
+    loopTuneOffset: view.getInt8(188),
+    reserved: {
+      byte15: view.getUint8(15),
+      byte18: view.getUint8(18),
+      bytes22to25: bytes.slice(22, 26),
+      loopTableTail: bytes.slice(SND_LOOP_TABLE_OFFSET + LOOP_TABLE_USED, LOOP_TABLE_END),
+      bytes182to185: bytes.slice(182, 186),
+      bytes189to191: bytes.slice(189, 192),
+    },
+  };
+}
+
+// Serialize a header back into its 192-byte on-disk form
+export function writeSndHeader(header: AkaiSndHeader): ArrayBuffer {
+  if (header.loops.length !== SND_MAX_LOOPS) {
+    throw new Error(`SND header needs exactly ${SND_MAX_LOOPS} loop slots, got ${header.loops.length}`);
+  }
+  const buffer = new ArrayBuffer(SND_HEADER_SIZE);
   const view = new DataView(buffer);
-  // Write SND header
-  view.setUint32(0, 0x2E736E64, false); // magic
-  view.setUint32(4, headerSize, false); // header size
-  view.setUint32(8, dataSize, false);   // data size
-  view.setUint32(12, sample.bitDepth === 16 ? 1 : 0, false); // format
-  view.setUint32(16, sample.sampleRate, false); // sample rate
-  view.setUint32(20, sample.channels, false);   // channels
-  // Write sample data
-  const dataView = new Int16Array(buffer, headerSize);
-  dataView.set(sample.data);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, header.format);
+  view.setUint8(1, header.sampleRateFlag);
+  view.setUint8(2, header.rootNote);
+  bytes.set(encodeAkaiName(header.name, SND_NAME_LENGTH, header.nameEncoding), 3);
+  view.setUint8(15, header.reserved.byte15);
+  view.setUint8(16, header.activeLoops);
+  view.setUint8(17, header.firstActiveLoop);
+  view.setUint8(18, header.reserved.byte18);
+  view.setUint8(19, header.loopMode);
+  view.setInt8(20, header.centsTune);
+  view.setInt8(21, header.semiTune);
+  bytes.set(header.reserved.bytes22to25, 22);
+  view.setUint32(26, header.sampleWords, LITTLE_ENDIAN);
+  view.setUint32(30, header.startMarker, LITTLE_ENDIAN);
+  view.setUint32(34, header.endMarker, LITTLE_ENDIAN);
+
+  header.loops.forEach((loop, i) => {
+    const offset = SND_LOOP_TABLE_OFFSET + i * SND_LOOP_ENTRY_SIZE;
+    view.setUint32(offset, loop.marker, LITTLE_ENDIAN);
+    view.setUint16(offset + 4, loop.fineLength, LITTLE_ENDIAN);
+    view.setUint32(offset + 6, loop.coarseLength, LITTLE_ENDIAN);
+    view.setUint16(offset + 10, loop.time, LITTLE_ENDIAN);
+  });
+  bytes.set(header.reserved.loopTableTail, SND_LOOP_TABLE_OFFSET + LOOP_TABLE_USED);
+
+  bytes.set(header.reserved.bytes182to185, 182);
+  view.setUint16(186, header.sampleRate, LITTLE_ENDIAN);
+  view.setInt8(188, header.loopTuneOffset);
+  bytes.set(header.reserved.bytes189to191, 189);
+
   return buffer;
 }
 
-// Convert SND to WAV (returns a WaveFile instance)
-export function sndToWav(snd: SndSample): WaveFile {
-  const wav = new WaveFile();
-  wav.fromScratch(
-    snd.channels,
-    snd.sampleRate,
-    '16',
-    snd.data as unknown as Int16Array
-  );
-  return wav;
+// Akai loops are stored as the "loop at" point plus a length, so the loop
+// start is the marker minus coarse + fine length.
+export function getSndLoopBounds(loop: AkaiSndLoop): { start: number; end: number } {
+  const length = loop.coarseLength + loop.fineLength / 65536;
+  return { start: Math.max(0, loop.marker - length), end: loop.marker };
 }
 
-// Convert WAV (WaveFile) to SndSample
-export function wavToSnd(wav: WaveFile): SndSample {
-  const samples = wav.getSamples()[0] as Int16Array;
-  const fmt = wav.fmt as any;
+// Build a loop slot from start/end frames, the inverse of getSndLoopBounds
+export function createSndLoop(start: number, end: number, time: number): AkaiSndLoop {
+  const marker = Math.round(end);
+  const length = Math.max(0, marker - start);
+  let coarseLength = Math.floor(length);
+  let fineLength = Math.round((length - coarseLength) * 65536);
+  if (fineLength === 65536) {
+    coarseLength += 1;
+    fineLength = 0;
+  }
+  return { marker, fineLength, coarseLength, time };
+}
+
+export type SndStereoSide = 'L' | 'R';
+
+// The MPC3000 keeps stereo as two linked mono samples named "<name>-L" and
+// "<name>-R". The base name is shortened so the suffix fits in 12 characters.
+export function getSndStereoNames(name: string): { left: string; right: string } {
+  const base = name.trim().slice(0, SND_NAME_LENGTH - 2).trimEnd();
+  return { left: `${base}-L`, right: `${base}-R` };
+}
+
+// Which side of a stereo pair a sample or file name belongs to, if any
+export function getSndStereoSide(name: string): { base: string; side: SndStereoSide } | null {
+  const match = /^(.*)-([LR])(\.snd)?$/i.exec(name.trim());
+  if (!match) return null;
+  return { base: match[1], side: match[2].toUpperCase() as SndStereoSide };
+}
+
+// Sample rate in Hz, falling back to the rate flag for headers without one
+export function getSndSampleRate(header: AkaiSndHeader): number {
+  if (header.sampleRate > 0) return header.sampleRate;
+  return header.sampleRateFlag === 1 ? 44100 : 22050;
+}
+
+// Parse a complete SND file into its header and PCM words
+export function parseSndFile(buffer: ArrayBuffer): SndSample {
+  const header = readSndHeader(buffer);
+  const availableWords = Math.floor((buffer.byteLength - SND_HEADER_SIZE) / 2);
+  if (header.sampleWords > availableWords) {
+    console.warn(`SND header declares ${header.sampleWords} words but file holds ${availableWords}`);
+  }
+  const numWords = Math.min(header.sampleWords, availableWords);
+
+  const view = new DataView(buffer, SND_HEADER_SIZE, numWords * 2);
+  const data = new Int16Array(numWords);
+  for (let i = 0; i < numWords; i++) {
+    data[i] = view.getInt16(i * 2, LITTLE_ENDIAN);
+  }
+  return { header, data };
+}
+
+// Create a complete SND file from a header and PCM words
+export function createSndFile(sample: SndSample): ArrayBuffer {
+  const buffer = new ArrayBuffer(SND_HEADER_SIZE + sample.data.length * 2);
+  new Uint8Array(buffer).set(new Uint8Array(writeSndHeader(sample.header)), 0);
+  const view = new DataView(buffer, SND_HEADER_SIZE);
+  for (let i = 0; i < sample.data.length; i++) {
+    view.setInt16(i * 2, sample.data[i], LITTLE_ENDIAN);
+  }
+  return buffer;
+}
+
+// Convert 16-bit PCM words to floats in the -1..1 range for Web Audio
+export function sndDataToFloat(data: Int16Array): Float32Array {
+  const floatData = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    floatData[i] = data[i] / 32768;
+  }
+  return floatData;
+}
+
+// Convert floats in the -1..1 range to 16-bit PCM words, clamping overs.
+// Scaled by 32768 like sndDataToFloat, so words survive a round trip.
+export function floatToSndData(floatData: Float32Array): Int16Array {
+  const data = new Int16Array(floatData.length);
+  for (let i = 0; i < floatData.length; i++) {
+    data[i] = Math.max(-32768, Math.min(32767, Math.round(floatData[i] * 32768)));
+  }
+  return data;
+}
+
+/**
+ * WAV sampler metadata equivalent to an SND header. The SND root note and
+ * semi/cents tune become the smpl unity note and pitch fraction (the note the
+ * recording actually sounds at), and inst gets the nearest note with the
+ * remainder as fine tune. Loops are only exported when the loop mode plays
+ * them; a loop with a dwell time becomes the play count that fills it.
+ */
+export function getSndWavMetadata(header: AkaiSndHeader): WavMetadata {
+  const unityCents = header.rootNote * 100 - (header.semiTune * 100 + header.centsTune);
+  const unityNote = Math.floor(unityCents / 100);
+  const unshiftedNote = Math.round(unityCents / 100);
+
+  const loops: WavLoop[] = [];
+  if (header.loopMode === SND_LOOP_IN_RELEASE || header.loopMode === SND_LOOP_UNTIL_RELEASE) {
+    const count = Math.min(header.activeLoops, SND_MAX_LOOPS - header.firstActiveLoop);
+    for (let i = 0; i < count; i++) {
+      const loop = header.loops[header.firstActiveLoop + i];
+      const { start, end } = getSndLoopBounds(loop);
+      if (end <= start) continue;
+      const loopSeconds = (end - start) / getSndSampleRate(header);
+      loops.push({
+        start,
+        end,
+        type: 'forward',
+        playCount: loop.time >= SND_LOOP_HOLD ? 0 : Math.max(1, Math.round(loop.time / 1000 / loopSeconds)),
+      });
+    }
+  }
+
   return {
-    name: fmt?.str || 'sample',
-    sampleRate: fmt?.sampleRate || 44100,
-    bitDepth: 16,
-    channels: fmt?.numChannels || 1,
-    data: samples,
+    sampler: { unityNote, pitchFraction: unityCents - unityNote * 100, loops },
+    instrument: {
+      unshiftedNote,
+      fineTune: unshiftedNote * 100 - unityCents,
+      gain: 0,
+      lowNote: 0,
+      highNote: 127,
+      lowVelocity: 1,
+      highVelocity: 127,
+    },
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Map WAV sampler metadata onto an SND header, the inverse of
+ * getSndWavMetadata. Positions are in source frames and are scaled by
+ * `rateRatio` (output rate / source rate) when the audio was resampled.
+ *
+ * - smpl unity note and pitch fraction (or inst note and fine tune) set the
+ *   root note and tuning
+ * - smpl loops fill the loop table, up to seven; a play count becomes the
+ *   dwell time that repeats the loop that often, 0 becomes hold
+ * - without smpl loops, two or more cue points loop from the first to the
+ *   last, which is how editors without smpl support tend to mark loops
+ *
+ * Loops past the end of the (possibly truncated) sample are dropped.
+ */
+export function applyWavMetadataToSndHeader(
+  header: AkaiSndHeader,
+  metadata: WavMetadata,
+  rateRatio = 1
+): AkaiSndHeader {
+  const result = { ...header, loops: header.loops.map(loop => ({ ...loop })) };
+
+  let unityCents: number | null = null;
+  if (metadata.sampler) {
+    unityCents = metadata.sampler.unityNote * 100 + metadata.sampler.pitchFraction;
+  } else if (metadata.instrument) {
+    unityCents = metadata.instrument.unshiftedNote * 100 - metadata.instrument.fineTune;
+  }
+  if (unityCents !== null) {
+    result.rootNote = Math.max(0, Math.min(127, Math.round(unityCents / 100)));
+    result.semiTune = 0;
+    result.centsTune = Math.max(-50, Math.min(50, Math.round(result.rootNote * 100 - unityCents)));
+  }
+
+  const sampleRate = getSndSampleRate(header);
+  const candidates: { start: number; end: number; time: number }[] = [];
+  const smplLoops = metadata.sampler?.loops ?? [];
+  if (smplLoops.length > 0) {
+    smplLoops.forEach(loop => {
+      const start = loop.start * rateRatio;
+      const end = loop.end * rateRatio;
+      const time = Math.round((loop.playCount * (end - start) * 1000) / sampleRate);
+      candidates.push({ start, end, time: loop.playCount === 0 ? SND_LOOP_HOLD : Math.min(SND_LOOP_HOLD - 1, time) });
+    });
+  } else if (metadata.cues && metadata.cues.length >= 2) {
+    const cues = metadata.cues;
+    candidates.push({
+      start: cues[0].position * rateRatio,
+      end: cues[cues.length - 1].position * rateRatio,
+      time: SND_LOOP_HOLD,
+    });
+  }
+
+  // Resampling can round a loop ending on the last frame just past the end
+  const loops = candidates
+    .map(loop => ({ ...loop, end: loop.end <= header.sampleWords + 1 ? Math.min(loop.end, header.sampleWords) : loop.end }))
+    .filter(loop => loop.end > loop.start && loop.end <= header.sampleWords)
+    .slice(0, SND_MAX_LOOPS);
+  if (loops.length < candidates.length) {
+    console.warn(`Dropped ${candidates.length - loops.length} WAV loops that don't fit the SND`);
+  }
+  if (loops.length > 0) {
+    result.loops = loops.map(loop => createSndLoop(loop.start, loop.end, loop.time));
+    while (result.loops.length < SND_MAX_LOOPS) result.loops.push(createEmptyLoop());
+    result.activeLoops = loops.length;
+    result.firstActiveLoop = 0;
+    result.loopMode = SND_LOOP_UNTIL_RELEASE;
+  }
+  return result;
+}
+
+// One float channel per SND, the right cut or padded to the left's length
+function getSndChannels(snd: SndSample, right?: SndSample): Float32Array[] {
+  const channels = [sndDataToFloat(snd.data)];
+  if (right) {
+    const rightData = new Float32Array(snd.data.length);
+    rightData.set(sndDataToFloat(right.data).subarray(0, snd.data.length));
+    channels.push(rightData);
+  }
+  return channels;
+}
+
+// Convert SND to a 16-bit WAV with smpl/inst metadata. Pass the "-R" half of
+// a linked pair as `right` for a stereo WAV; metadata follows the left.
+export function sndToWav(snd: SndSample, right?: SndSample): ArrayBuffer {
+  return encodeWav(getSndChannels(snd, right), getSndSampleRate(snd.header), 16, getSndWavMetadata(snd.header));
+}
+
+// Convert SND to a 16-bit AIFF with MARK/INST loops and tuning, the same way
+// as sndToWav. AIFF holds two loops, so later active loops are dropped.
+export function sndToAiff(snd: SndSample, right?: SndSample, compression?: AiffCompression): ArrayBuffer {
+  return encodeAiff(
+    getSndChannels(snd, right),
+    getSndSampleRate(snd.header),
+    16,
+    getSndWavMetadata(snd.header),
+    compression
+  );
+}
+
+// Convert a WAV file to SndSample, mixing down to mono at the WAV's own rate
+// and keeping its loops and tuning
+export function wavToSnd(buffer: ArrayBuffer, name = 'SAMPLE'): SndSample {
+  const wav = decodeWav(buffer);
+  const data = floatToSndData(mixToMono(wav.channels));
+  const header = createSndHeader({ name, sampleWords: data.length, sampleRate: wav.sampleRate });
+  return { header: applyWavMetadataToSndHeader(header, wav.metadata), data };
+}
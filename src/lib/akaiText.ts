@@ -0,0 +1,53 @@
+// Akai "AKAII" character set used for names in S1000/S3000 headers and disks:
+// 0-9 = '0'-'9', 10 = ' ', 11-36 = 'A'-'Z', 37 = '#', 38 = '+', 39 = '-', 40 = '.'
+const AKAII_CHARS = '0123456789 ABCDEFGHIJKLMNOPQRSTUVWXYZ#+-.';
+const AKAII_SPACE = 10;
+
+export type AkaiNameEncoding = 'akaii' | 'ascii';
+
+// Bytes above the AKAII range mean the name was written as plain ASCII
+// (older versions of this app did that), so decode those as ASCII instead.
+export function detectAkaiNameEncoding(bytes: Uint8Array): AkaiNameEncoding {
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] >= AKAII_CHARS.length) return 'ascii';
+  }
+  return 'akaii';
+}
+
+export function decodeAkaiName(bytes: Uint8Array, encoding = detectAkaiNameEncoding(bytes)): string {
+  let name = '';
+  for (let i = 0; i < bytes.length; i++) {
+    if (encoding === 'ascii') {
+      if (bytes[i] === 0) break;
+      name += String.fromCharCode(bytes[i]);
+    } else {
+      name += AKAII_CHARS[bytes[i]];
+    }
+  }
+  return name.trimEnd();
+}
+
+export function encodeAkaiName(name: string, length: number, encoding: AkaiNameEncoding = 'akaii'): Uint8Array {
+  const bytes = new Uint8Array(length).fill(encoding === 'ascii' ? 0x20 : AKAII_SPACE);
+  const chars = (encoding === 'ascii' ? name : name.toUpperCase()).slice(0, length);
+  for (let i = 0; i < chars.length; i++) {
+    if (encoding === 'ascii') {
+      bytes[i] = chars.charCodeAt(i) & 0x7F;
+    } else {
+      const code = AKAII_CHARS.indexOf(chars[i]);
+      bytes[i] = code >= 0 ? code : AKAII_SPACE;
+    }
+  }
+  return bytes;
+}
+
+// Reduce a name to characters the AKAII set holds, so it reads back the same
+// from an SND header or disk directory. Unsupported characters become spaces.
+export function toAkaiName(name: string, length: number): string {
+  let safe = '';
+  const upper = name.toUpperCase();
+  for (let i = 0; i < upper.length; i++) {
+    safe += AKAII_CHARS.indexOf(upper[i]) >= 0 ? upper[i] : ' ';
+  }
+  return safe.replace(/\s+/g, ' ').trim().slice(0, length).trimEnd();
+}
@@ -0,0 +1,341 @@
+import { AiffInstrument, AiffMarker, getAiffWavMetadata, readAiffInstChunk, readMarkChunk } from './aiffChunks';
+import { readCueChunk, readInstChunk, readSmplChunk, WavMetadata } from './wavChunks';
+
+/**
+ * WAV and AIFF decoding without Web Audio, so conversion runs the same in the
+ * browser, in a worker and in Node.
+ *
+ * Supported encodings:
+ * - WAV (RIFF/WAVE): PCM 8 (unsigned), 16, 24 and 32-bit; IEEE float 32/64-bit;
+ *   WAVE_FORMAT_EXTENSIBLE with a PCM or float subformat; RF64/BW64, whose
+ *   `ds64` chunk holds the 64-bit sizes of files past 4GB
+ * - AIFF: PCM 8 to 32-bit, big-endian and signed
+ * - AIFF-C: NONE/twos (big-endian PCM), sowt (little-endian PCM),
+ *   fl32/fl64 (big-endian float)
+ *
+ * Every channel is returned as floats in the -1..1 range. WAV `smpl`, `inst`
+ * and `cue ` chunks and AIFF `MARK`/`INST` loops are returned as metadata.
+ */
+export type AudioFileFormat = 'wav' | 'aiff';
+
+// A zero-based channel, or 'mix' to average them all
+export type ChannelSelection = number | 'mix';
+
+export interface DecodedAudio {
+  format: AudioFileFormat;
+  sampleRate: number;
+  bitsPerSample: number;
+  channels: Float32Array[];
+  metadata: WavMetadata;
+}
+
+type SampleEncoding = 'int' | 'uint' | 'float';
+
+const WAV_FORMAT_PCM = 1;
+const WAV_FORMAT_FLOAT = 3;
+const WAV_FORMAT_EXTENSIBLE = 0xFFFE;
+// RF64 chunk sizes that defer to the ds64 chunk
+const RF64_SIZE_IN_DS64 = 0xFFFFFFFF;
+
+function readChunkId(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// Sniff the container from its magic bytes
+export function detectAudioFormat(buffer: ArrayBuffer): AudioFileFormat | null {
+  if (buffer.byteLength < 12) return null;
+  const view = new DataView(buffer);
+  const id = readChunkId(view, 0);
+  const type = readChunkId(view, 8);
+  if ((id === 'RIFF' || id === 'RF64' || id === 'BW64') && type === 'WAVE') return 'wav';
+  if (id === 'FORM' && (type === 'AIFF' || type === 'AIFC')) return 'aiff';
+  return null;
+}
+
+// Read interleaved frames into one float array per channel
+function readFrames(
+  view: DataView,
+  offset: number,
+  frames: number,
+  numChannels: number,
+  bitsPerSample: number,
+  encoding: SampleEncoding,
+  littleEndian: boolean
+): Float32Array[] {
+  const bytesPerSample = bitsPerSample / 8;
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+  const intScale = Math.pow(2, bitsPerSample - 1);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const pos = offset + (frame * numChannels + ch) * bytesPerSample;
+      let value: number;
+      if (encoding === 'float') {
+        value = bitsPerSample === 64 ? view.getFloat64(pos, littleEndian) : view.getFloat32(pos, littleEndian);
+      } else if (bitsPerSample === 8) {
+        value = encoding === 'uint' ? (view.getUint8(pos) - 128) / 128 : view.getInt8(pos) / 128;
+      } else if (bitsPerSample === 16) {
+        value = view.getInt16(pos, littleEndian) / intScale;
+      } else if (bitsPerSample === 24) {
+        const b0 = view.getUint8(pos);
+        const b1 = view.getUint8(pos + 1);
+        const b2 = view.getUint8(pos + 2);
+        const raw = littleEndian ? b0 | (b1 << 8) | (b2 << 16) : (b0 << 16) | (b1 << 8) | b2;
+        value = ((raw << 8) >> 8) / intScale; // Sign extend
+      } else {
+        value = view.getInt32(pos, littleEndian) / intScale;
+      }
+      channels[ch][frame] = value;
+    }
+  }
+  return channels;
+}
+
+// Frames that actually fit in the file, warning when a chunk is cut short
+function getAvailableFrames(view: DataView, offset: number, declaredBytes: number, frameSize: number): number {
+  const availableBytes = Math.max(0, Math.min(declaredBytes, view.byteLength - offset));
+  if (availableBytes < declaredBytes) {
+    console.warn(`Audio data declares ${declaredBytes} bytes but file holds ${availableBytes}`);
+  }
+  return Math.floor(availableBytes / frameSize);
+}
+
+// Unsigned 64-bit little-endian, exact up to 2^53
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+export function decodeWav(buffer: ArrayBuffer): DecodedAudio {
+  if (detectAudioFormat(buffer) !== 'wav') {
+    throw new Error('Invalid WAV: missing RIFF or WAVE header');
+  }
+  const view = new DataView(buffer);
+  const isRf64 = readChunkId(view, 0) !== 'RIFF';
+  // ds64 sizes for the data chunk and any others listed in its table
+  const largeSizes: Record<string, number> = {};
+
+  let fmt: { format: number; channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  let dataOffset = -1;
+  let dataLength = 0;
+  const metadata: WavMetadata = {};
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readChunkId(view, offset);
+    let chunkSize = view.getUint32(offset + 4, true);
+    if (isRf64 && chunkSize === RF64_SIZE_IN_DS64 && largeSizes[chunkId] !== undefined) {
+      chunkSize = largeSizes[chunkId];
+    }
+    // Metadata chunks cut short by the end of the file are skipped
+    const complete = offset + 8 + chunkSize <= buffer.byteLength;
+    if (chunkId === 'ds64' && isRf64) {
+      if (chunkSize < 28) throw new Error('Invalid WAV: ds64 chunk too small');
+      largeSizes.data = readUint64(view, offset + 16);
+      const tableLength = view.getUint32(offset + 32, true);
+      for (let i = 0; i < tableLength && offset + 48 + i * 12 <= buffer.byteLength; i++) {
+        const entry = offset + 36 + i * 12;
+        largeSizes[readChunkId(view, entry)] = readUint64(view, entry + 4);
+      }
+    } else if (chunkId === 'fmt ') {
+      if (chunkSize < 16) throw new Error('Invalid WAV: fmt chunk too small');
+      fmt = {
+        format: view.getUint16(offset + 8, true),
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+      // Extensible keeps the real format in the first two bytes of its
+      // subformat GUID
+      if (fmt.format === WAV_FORMAT_EXTENSIBLE) {
+        if (chunkSize < 40) throw new Error('Invalid WAV: extensible fmt chunk too small');
+        fmt.format = view.getUint16(offset + 32, true);
+      }
+    } else if (chunkId === 'data') {
+      dataOffset = offset + 8;
+      dataLength = chunkSize;
+    } else if (chunkId === 'smpl' && complete) {
+      metadata.sampler = readSmplChunk(view, offset + 8, chunkSize);
+    } else if (chunkId === 'inst' && complete) {
+      metadata.instrument = readInstChunk(view, offset + 8, chunkSize);
+    } else if (chunkId === 'cue ' && complete) {
+      metadata.cues = readCueChunk(view, offset + 8, chunkSize);
+    }
+    // Chunks are padded to an even length
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!fmt) throw new Error('Invalid WAV: fmt chunk not found');
+  if (dataOffset < 0) throw new Error('Invalid WAV: data chunk not found');
+  if (fmt.channels < 1) throw new Error('Invalid WAV: no channels');
+  if (fmt.sampleRate <= 0) throw new Error('Invalid WAV: sample rate is 0');
+
+  let encoding: SampleEncoding;
+  if (fmt.format === WAV_FORMAT_PCM && [8, 16, 24, 32].indexOf(fmt.bitsPerSample) >= 0) {
+    encoding = fmt.bitsPerSample === 8 ? 'uint' : 'int';
+  } else if (fmt.format === WAV_FORMAT_FLOAT && (fmt.bitsPerSample === 32 || fmt.bitsPerSample === 64)) {
+    encoding = 'float';
+  } else {
+    throw new Error(`Unsupported WAV format: format ${fmt.format}, ${fmt.bitsPerSample}-bit`);
+  }
+
+  const frameSize = (fmt.bitsPerSample / 8) * fmt.channels;
+  const frames = getAvailableFrames(view, dataOffset, dataLength, frameSize);
+  return {
+    format: 'wav',
+    sampleRate: fmt.sampleRate,
+    bitsPerSample: fmt.bitsPerSample,
+    channels: readFrames(view, dataOffset, frames, fmt.channels, fmt.bitsPerSample, encoding, true),
+    metadata,
+  };
+}
+
+// 80-bit IEEE 754 extended precision, used for the AIFF sample rate
+function readExtended(view: DataView, offset: number): number {
+  const signExponent = view.getUint16(offset, false);
+  const hi = view.getUint32(offset + 2, false);
+  const lo = view.getUint32(offset + 6, false);
+  const exponent = signExponent & 0x7FFF;
+  if (exponent === 0 && hi === 0 && lo === 0) return 0;
+  const mantissa = hi * Math.pow(2, -31) + lo * Math.pow(2, -63);
+  const value = mantissa * Math.pow(2, exponent - 16383);
+  return signExponent & 0x8000 ? -value : value;
+}
+
+export function decodeAiff(buffer: ArrayBuffer): DecodedAudio {
+  if (detectAudioFormat(buffer) !== 'aiff') {
+    throw new Error('Invalid AIFF: missing FORM or AIFF header');
+  }
+  const view = new DataView(buffer);
+  const isAifc = readChunkId(view, 8) === 'AIFC';
+
+  let comm: { channels: number; frames: number; bitsPerSample: number; sampleRate: number; compression: string } | null = null;
+  let soundOffset = -1;
+  let soundLength = 0;
+  let markers: AiffMarker[] = [];
+  let instrument: AiffInstrument | null = null;
+
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = readChunkId(view, offset);
+    const chunkSize = view.getUint32(offset + 4, false);
+    const complete = offset + 8 + chunkSize <= buffer.byteLength;
+    if (chunkId === 'COMM') {
+      if (chunkSize < 18) throw new Error('Invalid AIFF: COMM chunk too small');
+      comm = {
+        channels: view.getUint16(offset + 8, false),
+        frames: view.getUint32(offset + 10, false),
+        bitsPerSample: view.getUint16(offset + 14, false),
+        sampleRate: readExtended(view, offset + 16),
+        compression: isAifc && chunkSize >= 22 ? readChunkId(view, offset + 26) : 'NONE',
+      };
+    } else if (chunkId === 'SSND') {
+      const dataStart = view.getUint32(offset + 8, false);
+      soundOffset = offset + 16 + dataStart;
+      soundLength = chunkSize - 8 - dataStart;
+    } else if (chunkId === 'MARK' && complete) {
+      markers = readMarkChunk(view, offset + 8, chunkSize);
+    } else if (chunkId === 'INST' && complete) {
+      instrument = readAiffInstChunk(view, offset + 8, chunkSize);
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  if (!comm) throw new Error('Invalid AIFF: COMM chunk not found');
+  if (comm.channels < 1) throw new Error('Invalid AIFF: no channels');
+  if (comm.sampleRate <= 0) throw new Error('Invalid AIFF: sample rate is 0');
+  // INST refers to MARK by id, and either may come first
+  const metadata = getAiffWavMetadata(instrument, markers);
+  // A file with no sound yet may omit SSND entirely
+  if (soundOffset < 0 || comm.frames === 0) {
+    return {
+      format: 'aiff',
+      sampleRate: comm.sampleRate,
+      bitsPerSample: comm.bitsPerSample,
+      channels: Array.from({ length: comm.channels }, () => new Float32Array(0)),
+      metadata,
+    };
+  }
+
+  let encoding: SampleEncoding = 'int';
+  let littleEndian = false;
+  let bitsPerSample = comm.bitsPerSample;
+  switch (comm.compression) {
+    case 'NONE':
+    case 'twos':
+      break;
+    case 'sowt':
+      littleEndian = true;
+      break;
+    case 'fl32':
+    case 'FL32':
+      encoding = 'float';
+      bitsPerSample = 32;
+      break;
+    case 'fl64':
+    case 'FL64':
+      encoding = 'float';
+      bitsPerSample = 64;
+      break;
+    default:
+      throw new Error(`Unsupported AIFF-C compression: ${comm.compression}`);
+  }
+  // Sample sizes that are not a whole byte are stored left-justified
+  if (encoding === 'int') {
+    bitsPerSample = Math.ceil(bitsPerSample / 8) * 8;
+    if ([8, 16, 24, 32].indexOf(bitsPerSample) < 0) {
+      throw new Error(`Unsupported AIFF sample size: ${comm.bitsPerSample}-bit`);
+    }
+  }
+
+  const frameSize = (bitsPerSample / 8) * comm.channels;
+  const frames = Math.min(comm.frames, getAvailableFrames(view, soundOffset, soundLength, frameSize));
+  return {
+    format: 'aiff',
+    sampleRate: comm.sampleRate,
+    bitsPerSample: comm.bitsPerSample,
+    channels: readFrames(view, soundOffset, frames, comm.channels, bitsPerSample, encoding, littleEndian),
+    metadata,
+  };
+}
+
+// Decode a WAV or AIFF file, picking the decoder from its header
+export function decodeAudio(buffer: ArrayBuffer): DecodedAudio {
+  switch (detectAudioFormat(buffer)) {
+    case 'wav':
+      return decodeWav(buffer);
+    case 'aiff':
+      return decodeAiff(buffer);
+    default:
+      throw new Error('Unsupported audio file: expected WAV or AIFF');
+  }
+}
+
+// One channel of several, or all of them averaged
+export function selectChannel(channels: Float32Array[], selection: ChannelSelection): Float32Array {
+  if (selection === 'mix') return mixToMono(channels);
+  if (!Number.isInteger(selection) || selection < 0 || selection >= channels.length) {
+    throw new Error(`Invalid channel: ${selection + 1}, the source has ${channels.length}`);
+  }
+  return channels[selection];
+}
+
+// Average all channels into one
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const mono = new Float32Array(length);
+  channels.forEach(channel => {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i];
+    }
+  });
+  for (let i = 0; i < length; i++) {
+    mono[i] /= channels.length;
+  }
+  return mono;
+}
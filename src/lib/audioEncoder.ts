@@ -0,0 +1,184 @@
+import { createAiffMetadataChunks } from './aiffChunks';
+import { createInstChunk, createSmplChunk, WavMetadata } from './wavChunks';
+
+/**
+ * WAV and AIFF encoding without Web Audio, the counterpart of audioDecoder.ts.
+ *
+ * WAV: a canonical RIFF/WAVE file, a 16-byte PCM `fmt ` chunk followed by
+ * interleaved little-endian samples in a `data` chunk, then any `smpl` and
+ * `inst` chunks (see wavChunks.ts).
+ *
+ * AIFF: FORM/AIFF with `COMM`, any `MARK`/`INST` chunks (see aiffChunks.ts)
+ * and big-endian samples in `SSND`. AIFF-C adds `FVER` and a compression type
+ * in `COMM`: NONE (big-endian) or sowt (little-endian).
+ */
+export type WavBitDepth = 16 | 24;
+export type AiffCompression = 'NONE' | 'sowt';
+
+const WAV_HEADER_SIZE = 44;
+const AIFC_VERSION = 0xA2805140;
+
+function writeChunkId(view: DataView, offset: number, id: string): void {
+  for (let i = 0; i < 4; i++) {
+    view.setUint8(offset + i, id.charCodeAt(i));
+  }
+}
+
+// Interleave float channels as PCM at `offset`
+function writeSamples(
+  view: DataView,
+  offset: number,
+  channels: Float32Array[],
+  bitsPerSample: WavBitDepth,
+  littleEndian: boolean
+): void {
+  const bytesPerSample = bitsPerSample / 8;
+  const scale = Math.pow(2, bitsPerSample - 1);
+  for (let frame = 0; frame < channels[0].length; frame++) {
+    for (let ch = 0; ch < channels.length; ch++) {
+      const value = Math.max(-scale, Math.min(scale - 1, Math.round(channels[ch][frame] * scale)));
+      if (bitsPerSample === 16) {
+        view.setInt16(offset, value, littleEndian);
+      } else {
+        const bytes = [value & 0xFF, (value >> 8) & 0xFF, (value >> 16) & 0xFF];
+        if (!littleEndian) bytes.reverse();
+        bytes.forEach((byte, i) => view.setUint8(offset + i, byte));
+      }
+      offset += bytesPerSample;
+    }
+  }
+}
+
+// Float channels in the -1..1 range to a PCM WAV. Scaling by a power of two
+// means 16-bit SND words survive a round trip through float unchanged.
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitsPerSample: WavBitDepth = 16,
+  metadata: WavMetadata = {}
+): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error('Invalid audio: no channels to encode');
+  }
+  const frames = channels[0].length;
+  const bytesPerSample = bitsPerSample / 8;
+  const blockAlign = bytesPerSample * channels.length;
+  const dataLength = frames * blockAlign;
+  const dataEnd = WAV_HEADER_SIZE + dataLength + (dataLength % 2);
+
+  const chunks: Uint8Array[] = [];
+  if (metadata.sampler) chunks.push(createSmplChunk(metadata.sampler, sampleRate));
+  if (metadata.instrument) chunks.push(createInstChunk(metadata.instrument));
+  const chunksLength = chunks.reduce((total, chunk) => total + chunk.length, 0);
+
+  const buffer = new ArrayBuffer(dataEnd + chunksLength);
+  const view = new DataView(buffer);
+  writeChunkId(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeChunkId(view, 8, 'WAVE');
+  writeChunkId(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, Math.round(sampleRate), true);
+  view.setUint32(28, Math.round(sampleRate) * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeChunkId(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  writeSamples(view, WAV_HEADER_SIZE, channels, bitsPerSample, true);
+
+  const bytes = new Uint8Array(buffer);
+  let offset = dataEnd;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return buffer;
+}
+
+// 80-bit IEEE 754 extended precision, used for the AIFF sample rate
+function writeExtended(view: DataView, offset: number, value: number): void {
+  if (value <= 0) return; // Zero is all zero bits
+  let exponent = Math.floor(Math.log(value) / Math.LN2);
+  let mantissa = value / Math.pow(2, exponent);
+  // Correct for rounding in the logarithm
+  if (mantissa >= 2) {
+    mantissa /= 2;
+    exponent += 1;
+  } else if (mantissa < 1) {
+    mantissa *= 2;
+    exponent -= 1;
+  }
+  const hi = Math.floor(mantissa * Math.pow(2, 31));
+  const lo = Math.floor((mantissa * Math.pow(2, 31) - hi) * Math.pow(2, 32));
+  view.setUint16(offset, exponent + 16383, false);
+  view.setUint32(offset + 2, hi, false);
+  view.setUint32(offset + 6, lo, false);
+}
+
+// Float channels in the -1..1 range to a PCM AIFF, or to AIFF-C when a
+// compression type is given. Loops and tuning go in MARK/INST chunks.
+export function encodeAiff(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitsPerSample: WavBitDepth = 16,
+  metadata: WavMetadata = {},
+  compression?: AiffCompression
+): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error('Invalid audio: no channels to encode');
+  }
+  const frames = channels[0].length;
+  const dataLength = frames * (bitsPerSample / 8) * channels.length;
+  const isAifc = compression !== undefined;
+  // Pascal string, count byte included, padded to an even length
+  const compressionName = compression === 'NONE' ? 'not compressed' : '';
+  const nameLength = compressionName.length + 1 + ((compressionName.length + 1) % 2);
+  const commSize = isAifc ? 22 + nameLength : 18;
+  const metadataChunks = createAiffMetadataChunks(metadata);
+  const metadataLength = metadataChunks.reduce((total, chunk) => total + chunk.length, 0);
+  const ssndSize = 8 + dataLength;
+  const size = 12 + (isAifc ? 12 : 0) + 8 + commSize + metadataLength + 8 + ssndSize + (ssndSize % 2);
+
+  const buffer = new ArrayBuffer(size);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  writeChunkId(view, 0, 'FORM');
+  view.setUint32(4, size - 8, false);
+  writeChunkId(view, 8, isAifc ? 'AIFC' : 'AIFF');
+  let offset = 12;
+  if (isAifc) {
+    writeChunkId(view, offset, 'FVER');
+    view.setUint32(offset + 4, 4, false);
+    view.setUint32(offset + 8, AIFC_VERSION, false);
+    offset += 12;
+  }
+
+  writeChunkId(view, offset, 'COMM');
+  view.setUint32(offset + 4, commSize, false);
+  view.setUint16(offset + 8, channels.length, false);
+  view.setUint32(offset + 10, frames, false);
+  view.setUint16(offset + 14, bitsPerSample, false);
+  writeExtended(view, offset + 16, sampleRate);
+  if (compression !== undefined) {
+    writeChunkId(view, offset + 26, compression);
+    view.setUint8(offset + 30, compressionName.length);
+    for (let i = 0; i < compressionName.length; i++) {
+      view.setUint8(offset + 31 + i, compressionName.charCodeAt(i));
+    }
+  }
+  offset += 8 + commSize;
+
+  metadataChunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  writeChunkId(view, offset, 'SSND');
+  view.setUint32(offset + 4, ssndSize, false);
+  // Data offset and block size stay 0
+  writeSamples(view, offset + 16, channels, bitsPerSample, compression === 'sowt');
+  return buffer;
+}
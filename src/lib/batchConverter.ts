@@ -0,0 +1,217 @@
+import JSZip from 'jszip';
+import { createPgmProgram, getPgmNote, PGM_BANKS, PGM_NAME_LENGTH, PGM_PAD_COUNT, PGM_PADS_PER_BANK, PgmProgram, writePgmFile } from './akaiPgm';
+import { SND_NAME_LENGTH } from './akaiSnd';
+import { toAkaiName } from './akaiText';
+import { decodeAudio, DecodedAudio } from './audioDecoder';
+import { convertDecodedToSnd, SndConvertOptions, SndFileData, SND_DEFAULT_TARGET_RATE } from './conversionEngine';
+import { ConversionLevels } from './levelAnalysis';
+import { SliceRange } from './onsetDetection';
+import { PitchEstimate } from './pitchDetection';
+import { SampleEdit } from './sampleEdits';
+import { LibraryFile, readZipFiles } from './sampleLibrary';
+
+/**
+ * Converts many WAV/AIFF files at once, or the slices of one, into a zip
+ * holding:
+ * - one Akai-safe-named .snd per source or slice (two for stereo pairs)
+ * - a .pgm assigning them to pads A01-D16 in order, pairs panned left/right
+ * - report.json listing what was converted, levels before and after, any
+ *   detected pitch and any warnings
+ */
+export interface BatchConvertOptions extends SndConvertOptions {
+  programName?: string;
+}
+
+export interface BatchReportEntry {
+  source: string;
+  outputs: string[]; // SND file names
+  pads: string[]; // Pads the outputs were assigned to, e.g. "A01"
+  warnings: string[];
+  levels: Record<string, ConversionLevels>; // By SND file name
+  pitch?: PitchEstimate; // With detectPitch, when the source has a steady pitch
+  error?: string;
+}
+
+export interface BatchReport {
+  programName: string;
+  sampleRate: number;
+  quality: string;
+  stereo: boolean;
+  converted: number;
+  failed: number;
+  files: BatchReportEntry[];
+}
+
+export interface BatchResult {
+  outputs: SndFileData[];
+  program: PgmProgram;
+  report: BatchReport;
+}
+
+// One file, or one slice of a chopped file, to convert
+interface BatchSource {
+  name: string; // Shown in the report
+  baseName: string; // SND name before Akai-safe reduction, without extension
+  decode: () => DecodedAudio;
+  edits?: SampleEdit[]; // Ahead of any in the options
+}
+
+const DEFAULT_PROGRAM_NAME = 'BATCH';
+const STEREO_SUFFIX_LENGTH = 2;
+// Space for " 01" after a chopped file's name
+const SLICE_SUFFIX_LENGTH = 3;
+
+function formatPad(index: number): string {
+  return `${PGM_BANKS[Math.floor(index / PGM_PADS_PER_BANK)]}${String(index % PGM_PADS_PER_BANK + 1).padStart(2, '0')}`;
+}
+
+// An Akai-safe base name that, with any -L/-R suffix, doesn't clash with an
+// earlier file. Clashes get a number, like "KICK 2".
+function getUniqueBaseName(baseName: string, used: Set<string>, stereo: boolean): string {
+  const maxLength = SND_NAME_LENGTH - (stereo ? STEREO_SUFFIX_LENGTH : 0);
+  const base = toAkaiName(baseName, maxLength) || 'SAMPLE';
+  const taken = (name: string) => stereo ? used.has(`${name}-L`) || used.has(`${name}-R`) : used.has(name);
+  let name = base;
+  for (let n = 2; taken(name); n++) {
+    const suffix = ` ${n}`;
+    name = base.slice(0, maxLength - suffix.length).trimEnd() + suffix;
+  }
+  return name;
+}
+
+export function isBatchSource(name: string): boolean {
+  return /\.(wav|aiff?)$/i.test(name);
+}
+
+// Expand zips and keep only the audio files
+export async function collectBatchSources(files: LibraryFile[]): Promise<LibraryFile[]> {
+  const sources: LibraryFile[] = [];
+  for (const file of files) {
+    if (/\.zip$/i.test(file.name)) {
+      sources.push(...(await readZipFiles(file.data)).filter(entry => isBatchSource(entry.name)));
+    } else {
+      sources.push(file);
+    }
+  }
+  return sources;
+}
+
+// Convert every source to SND and assign them to pads in order. A source
+// that can't be decoded is recorded in the report and skipped.
+function convertSources(sources: BatchSource[], options: BatchConvertOptions): BatchResult {
+  const programName = toAkaiName(options.programName ?? '', PGM_NAME_LENGTH) || DEFAULT_PROGRAM_NAME;
+  const program = createPgmProgram(programName);
+  const outputs: SndFileData[] = [];
+  const used = new Set<string>();
+  const report: BatchReport = {
+    programName,
+    sampleRate: options.sampleRate ?? SND_DEFAULT_TARGET_RATE,
+    quality: options.quality ?? 'high',
+    stereo: !!options.stereo,
+    converted: 0,
+    failed: 0,
+    files: [],
+  };
+
+  sources.forEach(source => {
+    const entry: BatchReportEntry = { source: source.name, outputs: [], pads: [], warnings: [], levels: {} };
+    report.files.push(entry);
+    try {
+      const audio = source.decode();
+      const isPair = !!options.stereo && audio.channels.length >= 2;
+      const converted = convertDecodedToSnd(audio, getUniqueBaseName(source.baseName, used, isPair), {
+        ...options,
+        edits: [...(source.edits ?? []), ...(options.edits ?? [])],
+      });
+
+      converted.forEach((output, i) => {
+        const sampleName = output.name.replace(/\.snd$/, '');
+        used.add(sampleName);
+        outputs.push(output);
+        entry.outputs.push(output.name);
+        entry.levels[output.name] = output.levels;
+        if (output.pitch) entry.pitch = output.pitch;
+        if (output.truncated) entry.warnings.push(`${output.name} truncated to ${options.maxSeconds} seconds`);
+        if (output.clippedSamples > 0) entry.warnings.push(`${output.name} clipped ${output.clippedSamples} samples`);
+
+        const padIndex = outputs.length - 1;
+        if (padIndex >= PGM_PAD_COUNT) {
+          entry.warnings.push(`${output.name} not assigned, all ${PGM_PAD_COUNT} pads are used`);
+          return;
+        }
+        const note = getPgmNote(program, program.padNotes[padIndex]);
+        if (!note) return;
+        note.sampleName = sampleName;
+        if (isPair) note.pan = i === 0 ? 0 : 100;
+        entry.pads.push(formatPad(padIndex));
+      });
+      report.converted++;
+    } catch (error) {
+      console.warn(`Skipping ${source.name}:`, error);
+      entry.error = error instanceof Error ? error.message : 'Conversion failed';
+      report.failed++;
+    }
+  });
+
+  return { outputs, program, report };
+}
+
+// Convert every file to SND and build the program
+export function convertBatch(files: LibraryFile[], options: BatchConvertOptions = {}): BatchResult {
+  return convertSources(files.map(file => ({
+    name: file.name,
+    baseName: file.name.replace(/\.[^/.]+$/, ''),
+    decode: () => decodeAudio(file.data),
+  })), options);
+}
+
+/**
+ * Convert slices of one source, such as a chopped break, to SNDs named after
+ * it ("AMEN 01", "AMEN 02", ...) on consecutive pads. Slices past the last
+ * pad are still converted and reported as unassigned.
+ */
+export function convertSlices(
+  audio: DecodedAudio,
+  sourceName: string,
+  slices: SliceRange[],
+  options: BatchConvertOptions = {}
+): BatchResult {
+  const stereo = !!options.stereo && audio.channels.length >= 2;
+  const maxLength = SND_NAME_LENGTH - SLICE_SUFFIX_LENGTH - (stereo ? STEREO_SUFFIX_LENGTH : 0);
+  const base = toAkaiName(sourceName.replace(/\.[^/.]+$/, ''), maxLength) || 'SLICE';
+  return convertSources(slices.map((slice, i) => ({
+    name: `${sourceName} slice ${i + 1}`,
+    baseName: `${base} ${String(i + 1).padStart(SLICE_SUFFIX_LENGTH - 1, '0')}`,
+    decode: () => audio,
+    edits: [{ type: 'trim', start: slice.start, end: slice.end }],
+  })), { ...options, programName: options.programName ?? base });
+}
+
+// Pack converted SNDs, their program and the report into a zip
+async function zipBatch({ outputs, program, report }: BatchResult): Promise<{ zip: Uint8Array; report: BatchReport }> {
+  const zip = new JSZip();
+  outputs.forEach(output => zip.file(output.name, output.data));
+  if (outputs.length > 0) {
+    zip.file(`${report.programName}.pgm`, writePgmFile(program));
+  }
+  zip.file('report.json', JSON.stringify(report, null, 2));
+  return { zip: await zip.generateAsync({ type: 'uint8array' }), report };
+}
+
+// Convert a batch and pack the SNDs, program and report into a zip
+export async function convertBatchToZip(
+  files: LibraryFile[],
+  options: BatchConvertOptions = {}
+): Promise<{ zip: Uint8Array; report: BatchReport }> {
+  return zipBatch(convertBatch(await collectBatchSources(files), options));
+}
+
+// Chop a source into slices and pack them like a batch
+export async function convertSlicesToZip(
+  audio: DecodedAudio,
+  sourceName: string,
+  slices: SliceRange[],
+  options: BatchConvertOptions = {}
+): Promise<{ zip: Uint8Array; report: BatchReport }> {
+  return zipBatch(convertSlices(audio, sourceName, slices, options));
+}
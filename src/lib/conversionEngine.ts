@@ -0,0 +1,128 @@
+import {
+  applyWavMetadataToSndHeader,
+  createSndFile,
+  createSndHeader,
+  floatToSndData,
+  getSndStereoNames,
+  sndDataToFloat,
+} from './akaiSnd';
+import { decodeAudio, DecodedAudio, selectChannel } from './audioDecoder';
+import { analyzeLevels, ConversionLevels } from './levelAnalysis';
+import { detectPitch, frequencyToNote, PitchEstimate } from './pitchDetection';
+import { resample, ResampleQuality } from './resampler';
+import { applySampleEditsToAudio, SampleEdit } from './sampleEdits';
+import { WavMetadata } from './wavChunks';
+
+/**
+ * Decode, mix down, resample and encode to SND with no browser APIs, so the
+ * same code serves the UI, Web Workers, API routes and Node scripts.
+ * `audioConverter.ts` wraps this for File/Blob callers.
+ */
+export interface SndConvertOptions {
+  stereo?: boolean; // Keep stereo sources as a linked -L/-R pair instead of mixing to mono
+  sampleRate?: number; // Rate written to the SND, 44100 by default
+  quality?: ResampleQuality; // Resampling used when the source rate differs, 'high' by default
+  maxSeconds?: number; // Cut longer sources to this length
+  channel?: number; // Convert only this zero-based source channel instead of mixing down
+  edits?: SampleEdit[]; // Applied in order to the source before anything else
+  detectPitch?: boolean; // Set the root note and tuning from the detected pitch, over any in the source
+}
+
+export interface SndFileData {
+  name: string; // File name, including .snd
+  data: ArrayBuffer;
+  clippedSamples: number; // Samples past full scale that were clamped
+  truncated: boolean; // Cut to maxSeconds
+  levels: ConversionLevels; // The channel converted, at the source rate, and the SND
+  pitch?: PitchEstimate; // With detectPitch, when the source has a steady pitch
+}
+
+export const SND_DEFAULT_TARGET_RATE = 44100;
+
+// Resample one channel and encode it as a complete SND file named after it,
+// carrying over any WAV loops, root note and tuning
+export function encodeSnd(
+  name: string,
+  samples: Float32Array,
+  sourceRate: number,
+  options: SndConvertOptions = {},
+  metadata: WavMetadata = {}
+): SndFileData {
+  const sampleRate = options.sampleRate ?? SND_DEFAULT_TARGET_RATE;
+  let resampled = resample(samples, sourceRate, sampleRate, options.quality ?? 'high');
+
+  const maxLength = options.maxSeconds !== undefined ? Math.floor(options.maxSeconds * sampleRate) : Infinity;
+  const truncated = resampled.length > maxLength;
+  if (truncated) resampled = resampled.subarray(0, maxLength);
+
+  // Float sources and filter overshoot can go past full scale
+  let clippedSamples = 0;
+  for (let i = 0; i < resampled.length; i++) {
+    if (resampled[i] > 1 || resampled[i] < -1) clippedSamples++;
+  }
+
+  const data = floatToSndData(resampled);
+  const header = applyWavMetadataToSndHeader(
+    createSndHeader({ name, sampleWords: data.length, sampleRate }),
+    metadata,
+    sampleRate / sourceRate
+  );
+  const levels: ConversionLevels = {
+    input: analyzeLevels([samples], sourceRate),
+    output: analyzeLevels([sndDataToFloat(data)], sampleRate),
+    gainDb: 0,
+  };
+  return { name: `${name}.snd`, data: createSndFile({ header, data }), clippedSamples, truncated, levels };
+}
+
+// Metadata with the unity note and pitch fraction of a detected pitch, which
+// become the SND root note and tuning like any smpl chunk's
+function withDetectedPitch(metadata: WavMetadata, pitch: PitchEstimate): WavMetadata {
+  const unityCents = frequencyToNote(pitch.frequency) * 100;
+  const unityNote = Math.floor(unityCents / 100);
+  return {
+    ...metadata,
+    sampler: { loops: [], ...metadata.sampler, unityNote, pitchFraction: unityCents - unityNote * 100 },
+  };
+}
+
+/**
+ * Encode decoded audio as one mono SND, or as a "-L"/"-R" pair of mono SNDs
+ * when `stereo` is set and the source has two or more channels, the way the
+ * MPC3000 stores stereo samples. A `channel` takes precedence over both.
+ * Pitch is detected once, on what is converted, so both halves of a pair
+ * get the same root note.
+ */
+export function convertDecodedToSnd(
+  source: DecodedAudio,
+  name: string,
+  options: SndConvertOptions = {}
+): SndFileData[] {
+  const audio = applySampleEditsToAudio(source, options.edits ?? []);
+  const pitch = options.detectPitch
+    ? detectPitch(selectChannel(audio.channels, options.channel ?? 'mix'), audio.sampleRate)
+    : null;
+  const metadata = pitch ? withDetectedPitch(audio.metadata, pitch) : audio.metadata;
+  const encode = (outputName: string, samples: Float32Array): SndFileData => ({
+    ...encodeSnd(outputName, samples, audio.sampleRate, options, metadata),
+    ...(pitch ? { pitch } : {}),
+  });
+
+  if (options.channel !== undefined) {
+    return [encode(name, selectChannel(audio.channels, options.channel))];
+  }
+  if (audio.channels.length >= 2 && options.stereo) {
+    const names = getSndStereoNames(name);
+    return [encode(names.left, audio.channels[0]), encode(names.right, audio.channels[1])];
+  }
+  return [encode(name, selectChannel(audio.channels, 'mix'))];
+}
+
+// Convert a WAV or AIFF file's bytes to SND
+export function convertAudioToSnd(
+  buffer: ArrayBuffer,
+  name: string,
+  options: SndConvertOptions = {}
+): SndFileData[] {
+  return convertDecodedToSnd(decodeAudio(buffer), name, options);
+}
@@ -0,0 +1,25 @@
+import { convertAudioToSnd, SndConvertOptions, SndFileData } from './conversionEngine';
+
+// Runs conversionEngine off the main thread; see convertToSndFilesInWorker
+export interface ConversionRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  name: string;
+  options: SndConvertOptions;
+}
+
+export type ConversionResponse =
+  | { id: number; outputs: SndFileData[] }
+  | { id: number; error: string };
+
+self.onmessage = (event: MessageEvent<ConversionRequest>) => {
+  const { id, buffer, name, options } = event.data;
+  try {
+    const outputs = convertAudioToSnd(buffer, name, options);
+    const response: ConversionResponse = { id, outputs };
+    self.postMessage(response, { transfer: outputs.map(output => output.data) });
+  } catch (err) {
+    const response: ConversionResponse = { id, error: err instanceof Error ? err.message : 'Conversion failed' };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,258 @@
+/**
+ * Level analysis for conversion reports: sample and true peak, RMS,
+ * integrated loudness, crest factor, DC offset and clipping, for audio at
+ * -1..1 full scale.
+ *
+ * - True peak: 4x oversampled with a windowed-sinc interpolator, as in ITU-R
+ *   BS.1770-4 annex 2, in dBTP.
+ * - Loudness: BS.1770 K-weighting and gating (400 ms blocks, 75% overlap,
+ *   -70 LUFS absolute and -10 LU relative gates). Every channel is weighted
+ *   1.0 since the layout isn't known. Samples shorter than one block, like
+ *   most drum hits, are measured as a single block.
+ * - Clipping: samples past full scale, plus runs of CLIP_RUN or more
+ *   consecutive samples at it. A single sample at full scale, as after
+ *   normalizing, doesn't count.
+ *
+ * Levels are floored at LEVEL_FLOOR_DB so silence stays a finite number and
+ * survives JSON.
+ */
+export interface LevelReport {
+  frames: number;
+  channels: number;
+  sampleRate: number;
+  peakDb: number; // dBFS
+  truePeakDb: number; // dBTP
+  rmsDb: number; // dBFS, all channels together
+  loudness: number; // Integrated, LUFS
+  crestFactorDb: number; // Peak to RMS
+  dcOffset: number; // Mean of the channel furthest off centre, -1..1
+  clippedSamples: number;
+}
+
+// Levels of a conversion's input (what the output was made from, at the
+// source rate) and output, with any gain the conversion applied
+export interface ConversionLevels {
+  input: LevelReport;
+  output: LevelReport;
+  gainDb: number;
+}
+
+export const LEVEL_FLOOR_DB = -144;
+// Full scale of 16-bit audio; a 12-bit SP-1200 sample tops out at 2047 / 2048
+export const CLIP_LEVEL_16BIT = 32767 / 32768;
+export const CLIP_LEVEL_12BIT = 2047 / 2048;
+const CLIP_RUN = 3;
+
+const TRUE_PEAK_OVERSAMPLING = 4;
+// Interpolator taps on each side of the point being estimated
+const TRUE_PEAK_TAPS = 8;
+
+const LOUDNESS_BLOCK_SECONDS = 0.4;
+const LOUDNESS_BLOCK_OVERLAP = 0.75;
+const LOUDNESS_ABSOLUTE_GATE = -70;
+const LOUDNESS_RELATIVE_GATE = -10;
+
+export function gainToDb(gain: number): number {
+  return gain > 0 ? Math.max(LEVEL_FLOOR_DB, 20 * Math.log10(gain)) : LEVEL_FLOOR_DB;
+}
+
+// Interpolation kernels for the points between samples, one per phase
+function getTruePeakKernels(): Float64Array[] {
+  const kernels: Float64Array[] = [];
+  for (let phase = 1; phase < TRUE_PEAK_OVERSAMPLING; phase++) {
+    const fraction = phase / TRUE_PEAK_OVERSAMPLING;
+    const kernel = new Float64Array(TRUE_PEAK_TAPS * 2);
+    for (let tap = 0; tap < kernel.length; tap++) {
+      const x = tap - TRUE_PEAK_TAPS + 1 - fraction;
+      const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * x) / TRUE_PEAK_TAPS);
+      kernel[tap] = sinc * window;
+    }
+    kernels.push(kernel);
+  }
+  return kernels;
+}
+
+function getTruePeak(channel: ArrayLike<number>, kernels: Float64Array[]): number {
+  let peak = 0;
+  for (let i = 0; i < channel.length; i++) {
+    peak = Math.max(peak, Math.abs(channel[i]));
+    // Points between i and i + 1, from the taps around them
+    for (let k = 0; k < kernels.length; k++) {
+      const kernel = kernels[k];
+      let sum = 0;
+      for (let tap = 0; tap < kernel.length; tap++) {
+        const index = i + tap - TRUE_PEAK_TAPS + 1;
+        if (index >= 0 && index < channel.length) sum += channel[index] * kernel[tap];
+      }
+      peak = Math.max(peak, Math.abs(sum));
+    }
+  }
+  return peak;
+}
+
+interface Biquad {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+// BS.1770 K-weighting at any sample rate: a high shelf for the head, then
+// the RLB high-pass. Coefficients as derived by libebur128.
+function getKWeighting(sampleRate: number): Biquad[] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const passK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const passQ = 0.5003270373238773;
+  const passA0 = 1 + passK / passQ + passK * passK;
+
+  return [
+    {
+      b0: (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      b1: (2 * (shelfK * shelfK - vh)) / shelfA0,
+      b2: (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      a1: (2 * (shelfK * shelfK - 1)) / shelfA0,
+      a2: (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    },
+    {
+      b0: 1,
+      b1: -2,
+      b2: 1,
+      a1: (2 * (passK * passK - 1)) / passA0,
+      a2: (1 - passK / passQ + passK * passK) / passA0,
+    },
+  ];
+}
+
+function applyBiquad(input: Float64Array, { b0, b1, b2, a1, a2 }: Biquad): Float64Array {
+  const output = new Float64Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    output[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return output;
+}
+
+function blockLoudness(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+// Integrated loudness in LUFS, gated as in BS.1770-4
+function getIntegratedLoudness(channels: ArrayLike<number>[], sampleRate: number): number {
+  const frames = channels[0]?.length ?? 0;
+  if (frames === 0) return LEVEL_FLOOR_DB;
+
+  // Running sum of the K-weighted squares over all channels
+  const squares = new Float64Array(frames + 1);
+  const filters = getKWeighting(sampleRate);
+  channels.forEach(channel => {
+    let weighted: Float64Array = Float64Array.from(channel);
+    filters.forEach(filter => {
+      weighted = applyBiquad(weighted, filter);
+    });
+    for (let i = 0; i < frames; i++) {
+      squares[i + 1] += weighted[i] * weighted[i];
+    }
+  });
+  for (let i = 1; i <= frames; i++) {
+    squares[i] += squares[i - 1];
+  }
+
+  const blockFrames = Math.min(frames, Math.round(LOUDNESS_BLOCK_SECONDS * sampleRate));
+  const hop = Math.max(1, Math.round(blockFrames * (1 - LOUDNESS_BLOCK_OVERLAP)));
+  const blocks: number[] = [];
+  for (let start = 0; start + blockFrames <= frames; start += hop) {
+    blocks.push((squares[start + blockFrames] - squares[start]) / blockFrames);
+  }
+
+  const gated = (threshold: number) => blocks.filter(power => blockLoudness(power) > threshold);
+  const mean = (powers: number[]) => powers.reduce((sum, power) => sum + power, 0) / powers.length;
+  const audible = gated(LOUDNESS_ABSOLUTE_GATE);
+  if (audible.length === 0) return LEVEL_FLOOR_DB;
+  const kept = gated(Math.max(LOUDNESS_ABSOLUTE_GATE, blockLoudness(mean(audible)) + LOUDNESS_RELATIVE_GATE));
+  return Math.max(LEVEL_FLOOR_DB, blockLoudness(mean(kept)));
+}
+
+function countClippedSamples(channel: ArrayLike<number>, clipLevel: number): number {
+  let clipped = 0;
+  let run = 0;
+  for (let i = 0; i <= channel.length; i++) {
+    const value = i < channel.length ? Math.abs(channel[i]) : 0;
+    if (value > 1) clipped++;
+    if (value >= clipLevel) {
+      run++;
+      continue;
+    }
+    // Overs in the run are already counted
+    if (run >= CLIP_RUN) {
+      for (let j = i - run; j < i; j++) {
+        if (Math.abs(channel[j]) <= 1) clipped++;
+      }
+    }
+    run = 0;
+  }
+  return clipped;
+}
+
+/**
+ * Measure equal-length channels at -1..1 full scale. `clipLevel` is the
+ * highest value the format can hold, CLIP_LEVEL_12BIT for SP-1200 data.
+ */
+export function analyzeLevels(
+  channels: ArrayLike<number>[],
+  sampleRate: number,
+  clipLevel = CLIP_LEVEL_16BIT
+): LevelReport {
+  const frames = channels[0]?.length ?? 0;
+  const kernels = getTruePeakKernels();
+  let peak = 0;
+  let truePeak = 0;
+  let squares = 0;
+  let dcOffset = 0;
+  let clippedSamples = 0;
+
+  channels.forEach(channel => {
+    let sum = 0;
+    for (let i = 0; i < channel.length; i++) {
+      const value = channel[i];
+      peak = Math.max(peak, Math.abs(value));
+      squares += value * value;
+      sum += value;
+    }
+    const mean = channel.length > 0 ? sum / channel.length : 0;
+    if (Math.abs(mean) > Math.abs(dcOffset)) dcOffset = mean;
+    truePeak = Math.max(truePeak, getTruePeak(channel, kernels));
+    clippedSamples += countClippedSamples(channel, clipLevel);
+  });
+
+  const samples = frames * channels.length;
+  const peakDb = gainToDb(peak);
+  const rmsDb = gainToDb(samples > 0 ? Math.sqrt(squares / samples) : 0);
+  return {
+    frames,
+    channels: channels.length,
+    sampleRate,
+    peakDb,
+    truePeakDb: gainToDb(truePeak),
+    rmsDb,
+    loudness: getIntegratedLoudness(channels, sampleRate),
+    crestFactorDb: peak > 0 ? peakDb - rmsDb : 0,
+    dcOffset,
+    clippedSamples,
+  };
+}
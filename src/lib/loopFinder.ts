@@ -0,0 +1,224 @@
+import { fft } from './spectrum';
+import { isZeroCrossing } from './zeroCrossings';
+
+/**
+ * Loop point finder for sustained samples. Within a region it:
+ * 1. autocorrelates the region to find the loop lengths the signal repeats
+ *    at (its period and multiples of it),
+ * 2. takes rising zero crossings near the end of the region as loop ends,
+ *    and for each length, the rising crossings nearest one length earlier
+ *    as loop starts,
+ * 3. scores each pair by how well the audio around the end matches the
+ *    audio around the start, which is what playback hears at the jump.
+ *
+ * Loop ends are exclusive, as in the SND loop table: playback runs to
+ * end - 1 and continues at start. Both points are zero crossings, i.e. the
+ * gap before that frame.
+ */
+type SampleData = Int16Array | Float32Array;
+
+export interface LoopCandidate {
+  start: number;
+  end: number;
+  score: number; // 0..1, higher is smoother
+}
+
+export interface LoopSearchOptions {
+  minLength?: number; // Shortest loop in frames
+  maxCandidates?: number;
+  windowFrames?: number; // Audio compared either side of the jump
+}
+
+export type CrossfadeCurve = 'linear' | 'equal-power';
+
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ['equal-power', 'linear'];
+
+const DEFAULT_MIN_LENGTH = 100;
+const DEFAULT_MAX_CANDIDATES = 10;
+const DEFAULT_WINDOW_FRAMES = 256;
+// Longer regions are averaged down this far for the autocorrelation
+const AUTOCORRELATION_MAX_FRAMES = 1 << 16;
+// Loop lengths and end points tried
+const LENGTH_PEAKS = 8;
+const END_CROSSINGS = 16;
+
+function isRisingCrossing(data: SampleData, i: number): boolean {
+  return isZeroCrossing(data, i) && data[i] >= 0 && data[i - 1] < 0;
+}
+
+// Correlation of the audio around two points, weighted down when their
+// levels differ since correlation alone ignores scale
+function scoreJoin(data: SampleData, start: number, end: number, windowFrames: number): number {
+  let cross = 0;
+  let startEnergy = 0;
+  let endEnergy = 0;
+  for (let k = -windowFrames; k < windowFrames; k++) {
+    const a = start + k;
+    const b = end + k;
+    const x = a >= 0 && a < data.length ? data[a] : 0;
+    const y = b >= 0 && b < data.length ? data[b] : 0;
+    cross += x * y;
+    startEnergy += x * x;
+    endEnergy += y * y;
+  }
+  if (startEnergy === 0 || endEnergy === 0) return startEnergy === endEnergy ? 1 : 0;
+  const correlation = cross / Math.sqrt(startEnergy * endEnergy);
+  const levelMatch = Math.sqrt(Math.min(startEnergy, endEnergy) / Math.max(startEnergy, endEnergy));
+  return Math.max(0, correlation) * levelMatch;
+}
+
+/**
+ * Loop lengths, in frames, where the region's normalized autocorrelation
+ * peaks, best first.
+ */
+export function findRepeatLengths(
+  data: SampleData,
+  start: number,
+  end: number,
+  minLength = DEFAULT_MIN_LENGTH,
+  count = LENGTH_PEAKS
+): number[] {
+  const length = end - start;
+  const step = Math.max(1, Math.ceil(length / AUTOCORRELATION_MAX_FRAMES));
+  const frames = Math.floor(length / step);
+  if (frames < 4) return [];
+
+  let size = 1;
+  while (size < frames * 2) size <<= 1;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let mean = 0;
+  for (let i = 0; i < frames; i++) {
+    let sum = 0;
+    for (let j = 0; j < step; j++) sum += data[start + i * step + j];
+    re[i] = sum / step;
+    mean += re[i] / frames;
+  }
+  for (let i = 0; i < frames; i++) re[i] -= mean;
+
+  // Autocorrelation as the inverse transform of the power spectrum; the
+  // inverse is a forward FFT of the conjugate
+  fft(re, im);
+  for (let i = 0; i < size; i++) {
+    re[i] = re[i] * re[i] + im[i] * im[i];
+    im[i] = 0;
+  }
+  fft(re, im);
+  if (re[0] <= 0) return [];
+
+  // Per overlapping frame, so long lags aren't penalized for overlapping less
+  const correlation = (lag: number) => (re[lag] / (frames - lag)) / (re[0] / frames);
+  const peaks: Array<{ lag: number; value: number }> = [];
+  const minLag = Math.max(2, Math.ceil(minLength / step));
+  // Lags past half the region have too little overlap to trust
+  for (let lag = minLag; lag < frames / 2; lag++) {
+    const value = correlation(lag);
+    if (value > 0 && value >= correlation(lag - 1) && value > correlation(lag + 1)) {
+      peaks.push({ lag, value });
+    }
+  }
+  return peaks
+    .sort((a, b) => b.value - a.value)
+    .slice(0, count)
+    .map(peak => peak.lag * step);
+}
+
+// Rising crossings in [start, end), in order
+function findRisingCrossings(data: SampleData, start: number, end: number): number[] {
+  const crossings: number[] = [];
+  for (let i = Math.max(1, start); i < Math.min(end, data.length); i++) {
+    if (isRisingCrossing(data, i)) crossings.push(i);
+  }
+  return crossings;
+}
+
+// Index of the first crossing at or after frame
+function lowerBound(crossings: number[], frame: number): number {
+  let low = 0;
+  let high = crossings.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (crossings[mid] < frame) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Propose loops inside [start, end), ranked best first. Loops share no
+ * start/end pair; a region with no rising zero crossings gives none.
+ */
+export function findLoopCandidates(
+  data: SampleData,
+  start: number,
+  end: number,
+  options: LoopSearchOptions = {}
+): LoopCandidate[] {
+  const from = Math.max(0, Math.min(data.length, Math.round(start)));
+  const to = Math.max(from, Math.min(data.length, Math.round(end)));
+  const minLength = Math.max(2, options.minLength ?? DEFAULT_MIN_LENGTH);
+  const windowFrames = options.windowFrames ?? DEFAULT_WINDOW_FRAMES;
+  if (to - from < minLength) return [];
+
+  const crossings = findRisingCrossings(data, from, to + 1);
+  if (crossings.length < 2) return [];
+
+  const lengths = findRepeatLengths(data, from, to, minLength);
+  const ends = crossings.slice(-END_CROSSINGS).filter(frame => frame - from >= minLength);
+  const scored = new Map<string, LoopCandidate>();
+  const consider = (loopStart: number, loopEnd: number) => {
+    if (loopStart < from || loopEnd - loopStart < minLength) return;
+    const key = `${loopStart}:${loopEnd}`;
+    if (!scored.has(key)) {
+      scored.set(key, { start: loopStart, end: loopEnd, score: scoreJoin(data, loopStart, loopEnd, windowFrames) });
+    }
+  };
+
+  ends.forEach(loopEnd => {
+    lengths.forEach(length => {
+      // The crossings either side of one length back
+      const index = lowerBound(crossings, loopEnd - length);
+      for (let i = index - 1; i <= index; i++) {
+        if (i >= 0 && i < crossings.length) consider(crossings[i], loopEnd);
+      }
+    });
+    // Without a clear period, fall back to the earliest crossings
+    if (lengths.length === 0) {
+      crossings.slice(0, END_CROSSINGS).forEach(loopStart => consider(loopStart, loopEnd));
+    }
+  });
+
+  const candidates: LoopCandidate[] = [];
+  scored.forEach(candidate => candidates.push(candidate));
+  return candidates
+    .sort((a, b) => b.score - a.score || (b.end - b.start) - (a.end - a.start))
+    .slice(0, options.maxCandidates ?? DEFAULT_MAX_CANDIDATES);
+}
+
+/**
+ * Crossfade loop: the last `frames` before the loop end fade into the audio
+ * leading up to the loop start, so the jump back lands where the audio was
+ * already heading. Returns a copy; the fade is shortened to fit before the
+ * start and inside the loop.
+ */
+export function applyLoopCrossfade(
+  data: Float32Array,
+  start: number,
+  end: number,
+  frames: number,
+  curve: CrossfadeCurve = 'equal-power'
+): Float32Array {
+  const loopStart = Math.round(start);
+  const loopEnd = Math.min(data.length, Math.round(end));
+  const length = Math.max(0, Math.min(Math.round(frames), loopStart, loopEnd - loopStart));
+  const result = data.slice();
+  for (let i = 0; i < length; i++) {
+    // Reaches the start's lead-in fully on the last frame before the jump
+    const t = (i + 1) / length;
+    const fadeIn = curve === 'linear' ? t : Math.sin((t * Math.PI) / 2);
+    const fadeOut = curve === 'linear' ? 1 - t : Math.cos((t * Math.PI) / 2);
+    const position = loopEnd - length + i;
+    result[position] = data[position] * fadeOut + data[loopStart - length + i] * fadeIn;
+  }
+  return result;
+}
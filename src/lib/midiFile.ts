@@ -0,0 +1,632 @@
+import {
+  createSeqTrack,
+  getTicksPerBar,
+  SEQ_DEFAULT_TEMPO,
+  SEQ_NAME_LENGTH,
+  SEQ_PPQN,
+  SeqSequence,
+  SeqTimeSignature,
+  SeqTrack,
+} from './akaiSeq';
+import {
+  SP1200_DEFAULT_TEMPO,
+  SP1200_MAX_PADS,
+  SP1200_STEPS_PER_BEAT,
+  SP1200_SWING_VALUES,
+  SP1200Sequence,
+} from './sp1200Sequence';
+
+/**
+ * Standard MIDI Files (type 0 and 1) and conversion to and from MPC3000
+ * sequences and SP-1200 sequences.
+ *
+ * Notes are read into single events with a duration, pairing each note-on
+ * with the next note-off (or zero velocity note-on) for the same channel and
+ * note. Controllers, pitch bend, aftertouch and sysex are skipped on import.
+ */
+export type MidiFormat = 0 | 1;
+
+export interface MidiNoteEvent {
+  type: 'note';
+  tick: number;
+  channel: number; // 0-15
+  note: number;
+  velocity: number;
+  duration: number; // Ticks
+}
+
+export interface MidiProgramEvent {
+  type: 'program';
+  tick: number;
+  channel: number;
+  program: number; // 0-127
+}
+
+export interface MidiTempoEvent {
+  type: 'tempo';
+  tick: number;
+  bpm: number;
+}
+
+export interface MidiTimeSignatureEvent {
+  type: 'timeSignature';
+  tick: number;
+  numerator: number;
+  denominator: number;
+}
+
+export type MidiEvent = MidiNoteEvent | MidiProgramEvent | MidiTempoEvent | MidiTimeSignatureEvent;
+
+export interface MidiTrack {
+  name: string;
+  events: MidiEvent[];
+}
+
+export interface MidiFile {
+  format: MidiFormat;
+  division: number; // Ticks per quarter note
+  tracks: MidiTrack[];
+}
+
+// Pad (SP-1200) or MPC note number -> MIDI note number
+export type MidiNoteMap = Record<number, number>;
+
+export const MIDI_DRUM_CHANNEL = 9; // Channel 10
+
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2F;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+
+// SP-1200 pads mapped onto consecutive notes, A1 on the General MIDI kick
+export function createSp1200NoteMap(firstNote = 36): MidiNoteMap {
+  const map: MidiNoteMap = {};
+  for (let pad = 0; pad < SP1200_MAX_PADS; pad++) {
+    map[pad] = firstNote + pad;
+  }
+  return map;
+}
+
+function invertNoteMap(map: MidiNoteMap): Map<number, number> {
+  const inverse = new Map<number, number>();
+  Object.keys(map).forEach(key => {
+    const note = map[Number(key)];
+    if (!inverse.has(note)) inverse.set(note, Number(key));
+  });
+  return inverse;
+}
+
+class MidiReader {
+  private position: number;
+
+  constructor(private readonly bytes: Uint8Array, start = 0, private readonly end = bytes.length) {
+    this.position = start;
+  }
+
+  get done(): boolean {
+    return this.position >= this.end;
+  }
+
+  get offset(): number {
+    return this.position;
+  }
+
+  byte(): number {
+    if (this.position >= this.end) {
+      throw new Error('Invalid MIDI file: unexpected end of data');
+    }
+    return this.bytes[this.position++];
+  }
+
+  peek(): number {
+    return this.bytes[this.position];
+  }
+
+  uint16(): number {
+    return (this.byte() << 8) | this.byte();
+  }
+
+  uint32(): number {
+    return ((this.byte() << 24) >>> 0) + ((this.byte() << 16) | (this.byte() << 8) | this.byte());
+  }
+
+  text(length: number): string {
+    let text = '';
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.byte());
+    return text;
+  }
+
+  variableLength(): number {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.byte();
+      value = value * 128 + (byte & 0x7F);
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error('Invalid MIDI file: variable-length value longer than 4 bytes');
+  }
+
+  skip(length: number): void {
+    this.position += length;
+  }
+}
+
+function readTrack(reader: MidiReader): MidiTrack {
+  const track: MidiTrack = { name: '', events: [] };
+  const open = new Map<number, MidiNoteEvent[]>(); // channel * 128 + note -> sounding notes
+  let tick = 0;
+  let runningStatus = 0;
+
+  const noteOff = (channel: number, note: number) => {
+    const sounding = open.get(channel * 128 + note);
+    const started = sounding?.shift();
+    if (started) started.duration = tick - started.tick;
+  };
+
+  while (!reader.done) {
+    tick += reader.variableLength();
+    let status = reader.peek();
+    if (status & 0x80) {
+      reader.byte();
+    } else if (runningStatus) {
+      status = runningStatus;
+    } else {
+      throw new Error(`Invalid MIDI file: data byte without a status at offset ${reader.offset}`);
+    }
+
+    if (status === 0xFF) {
+      const type = reader.byte();
+      const length = reader.variableLength();
+      if (type === META_END_OF_TRACK) break;
+      if (type === META_TRACK_NAME) {
+        track.name = reader.text(length).trim();
+      } else if (type === META_TEMPO && length === 3) {
+        const microseconds = (reader.byte() << 16) | (reader.byte() << 8) | reader.byte();
+        track.events.push({ type: 'tempo', tick, bpm: Math.round(60000000000 / microseconds) / 1000 });
+      } else if (type === META_TIME_SIGNATURE && length >= 2) {
+        const numerator = reader.byte();
+        const denominator = Math.pow(2, reader.byte());
+        reader.skip(length - 2);
+        track.events.push({ type: 'timeSignature', tick, numerator, denominator });
+      } else {
+        reader.skip(length);
+      }
+      continue;
+    }
+    if (status === 0xF0 || status === 0xF7) {
+      reader.skip(reader.variableLength());
+      continue;
+    }
+
+    runningStatus = status;
+    const channel = status & 0x0F;
+    switch (status & 0xF0) {
+      case 0x80: {
+        const note = reader.byte();
+        reader.byte();
+        noteOff(channel, note);
+        break;
+      }
+      case 0x90: {
+        const note = reader.byte();
+        const velocity = reader.byte();
+        if (velocity === 0) {
+          noteOff(channel, note);
+          break;
+        }
+        const event: MidiNoteEvent = { type: 'note', tick, channel, note, velocity, duration: 0 };
+        track.events.push(event);
+        const key = channel * 128 + note;
+        open.set(key, [...(open.get(key) ?? []), event]);
+        break;
+      }
+      case 0xC0:
+        track.events.push({ type: 'program', tick, channel, program: reader.byte() });
+        break;
+      case 0xD0:
+        reader.byte();
+        break;
+      default:
+        // Aftertouch, controllers and pitch bend
+        reader.byte();
+        reader.byte();
+    }
+  }
+
+  // Notes never switched off last until the end of the track
+  open.forEach(sounding => sounding.forEach(event => {
+    event.duration = tick - event.tick;
+  }));
+  return track;
+}
+
+// Parse a Standard MIDI File (type 0 or 1)
+export function parseMidiFile(buffer: ArrayBuffer): MidiFile {
+  const bytes = new Uint8Array(buffer);
+  const reader = new MidiReader(bytes);
+  if (bytes.length < 14 || reader.text(4) !== 'MThd') {
+    throw new Error('Invalid MIDI file: missing MThd header');
+  }
+  const headerLength = reader.uint32();
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(headerLength - 6);
+
+  if (format !== 0 && format !== 1) {
+    throw new Error(`Invalid MIDI file: format ${format} is not supported, only 0 and 1`);
+  }
+  if (division & 0x8000) {
+    throw new Error('Invalid MIDI file: SMPTE time division is not supported');
+  }
+
+  const tracks: MidiTrack[] = [];
+  while (!reader.done && tracks.length < trackCount) {
+    const id = reader.text(4);
+    const length = reader.uint32();
+    const start = reader.offset;
+    if (start + length > bytes.length) {
+      throw new Error(`Invalid MIDI file: track ${tracks.length + 1} runs past the end of the file`);
+    }
+    // Unknown chunks are allowed by the spec and skipped
+    if (id === 'MTrk') {
+      tracks.push(readTrack(new MidiReader(bytes, start, start + length)));
+    }
+    reader.skip(length);
+  }
+
+  return { format, division, tracks };
+}
+
+function writeVariableLength(out: number[], value: number): void {
+  const groups = [value & 0x7F];
+  let rest = Math.floor(value / 128);
+  while (rest > 0) {
+    groups.unshift((rest & 0x7F) | 0x80);
+    rest = Math.floor(rest / 128);
+  }
+  out.push(...groups);
+}
+
+function writeUint32(out: number[], value: number): void {
+  out.push((value >>> 24) & 0xFF, (value >>> 16) & 0xFF, (value >>> 8) & 0xFF, value & 0xFF);
+}
+
+function textBytes(text: string): number[] {
+  return Array.from(text, char => char.charCodeAt(0) & 0x7F);
+}
+
+// Raw MIDI messages at a tick. Order breaks ties: meta events, then note-offs,
+// then everything else, so a note can be retriggered on the tick it ends.
+interface RawMessage {
+  tick: number;
+  order: number;
+  data: number[];
+}
+
+function encodeTrack(track: MidiTrack): number[] {
+  const messages: RawMessage[] = [];
+  if (track.name) {
+    const name = textBytes(track.name);
+    const data = [0xFF, META_TRACK_NAME];
+    writeVariableLength(data, name.length);
+    messages.push({ tick: 0, order: 0, data: data.concat(name) });
+  }
+
+  track.events.forEach(event => {
+    const tick = Math.max(0, Math.round(event.tick));
+    switch (event.type) {
+      case 'tempo': {
+        const microseconds = Math.round(60000000 / event.bpm);
+        messages.push({
+          tick,
+          order: 0,
+          data: [0xFF, META_TEMPO, 3, (microseconds >> 16) & 0xFF, (microseconds >> 8) & 0xFF, microseconds & 0xFF],
+        });
+        break;
+      }
+      case 'timeSignature':
+        messages.push({
+          tick,
+          order: 0,
+          data: [0xFF, META_TIME_SIGNATURE, 4, event.numerator, Math.round(Math.log2(event.denominator)), 24, 8],
+        });
+        break;
+      case 'program':
+        messages.push({ tick, order: 2, data: [0xC0 | event.channel, event.program & 0x7F] });
+        break;
+      case 'note': {
+        const velocity = Math.max(1, Math.min(127, Math.round(event.velocity)));
+        messages.push({ tick, order: 2, data: [0x90 | event.channel, event.note & 0x7F, velocity] });
+        messages.push({
+          tick: tick + Math.max(1, Math.round(event.duration)),
+          order: 1,
+          data: [0x80 | event.channel, event.note & 0x7F, 0],
+        });
+        break;
+      }
+    }
+  });
+  messages.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const data: number[] = [];
+  let tick = 0;
+  messages.forEach(message => {
+    writeVariableLength(data, message.tick - tick);
+    data.push(...message.data);
+    tick = message.tick;
+  });
+  data.push(0, 0xFF, META_END_OF_TRACK, 0);
+
+  const chunk = textBytes('MTrk');
+  writeUint32(chunk, data.length);
+  return chunk.concat(data);
+}
+
+// Serialize a MIDI file. Format 0 merges every track into one.
+export function writeMidiFile(midi: MidiFile): ArrayBuffer {
+  const tracks = midi.format === 0
+    ? [{
+        name: midi.tracks.find(track => track.name)?.name ?? '',
+        events: midi.tracks.reduce<MidiEvent[]>((all, track) => all.concat(track.events), []),
+      }]
+    : midi.tracks;
+
+  const out = textBytes('MThd');
+  writeUint32(out, 6);
+  out.push(0, midi.format, (tracks.length >> 8) & 0xFF, tracks.length & 0xFF);
+  out.push((midi.division >> 8) & 0x7F, midi.division & 0xFF);
+  tracks.forEach(track => out.push(...encodeTrack(track)));
+  return new Uint8Array(out).buffer;
+}
+
+function findFirst<T extends MidiEvent['type']>(
+  midi: MidiFile,
+  type: T
+): Extract<MidiEvent, { type: T }> | undefined {
+  let first: Extract<MidiEvent, { type: T }> | undefined;
+  midi.tracks.forEach(track => track.events.forEach(event => {
+    if (event.type === type && (!first || event.tick < first.tick)) {
+      first = event as Extract<MidiEvent, { type: T }>;
+    }
+  }));
+  return first;
+}
+
+export interface SequenceToMidiOptions {
+  format?: MidiFormat;
+  noteMap?: MidiNoteMap; // MPC note -> MIDI note, unmapped notes pass through
+  drumChannel?: number;  // 0-15, channel for drum tracks
+}
+
+// Convert an MPC3000 sequence to a MIDI file at the MPC's 96 PPQN, so every
+// position (swing included) lands on the same tick. Format 1 files get a
+// tempo track followed by one track per sequence track.
+export function sequenceToMidi(sequence: SeqSequence, options: SequenceToMidiOptions = {}): MidiFile {
+  const { format = 1, noteMap = {}, drumChannel = MIDI_DRUM_CHANNEL } = options;
+  const conductor: MidiTrack = {
+    name: sequence.name,
+    events: [
+      { type: 'tempo', tick: 0, bpm: sequence.tempo },
+      { type: 'timeSignature', tick: 0, ...sequence.timeSignature },
+    ],
+  };
+
+  const tracks = sequence.tracks.map<MidiTrack>(track => {
+    const channel = track.type === 'midi' && track.midiChannel > 0
+      ? (track.midiChannel - 1) % 16
+      : drumChannel;
+    const events = track.events.map<MidiEvent>(event =>
+      event.type === 'note'
+        ? {
+            type: 'note',
+            tick: event.tick,
+            channel,
+            note: noteMap[event.note] ?? event.note,
+            velocity: event.velocity,
+            duration: event.duration,
+          }
+        : { type: 'program', tick: event.tick, channel, program: Math.max(0, event.program - 1) }
+    );
+    return { name: track.name, events };
+  });
+
+  return { format, division: SEQ_PPQN, tracks: [conductor, ...tracks] };
+}
+
+export interface MidiToSequenceOptions {
+  name?: string;
+  noteMap?: MidiNoteMap; // MPC note -> MIDI note, the same map used for export
+  drumChannel?: number;
+}
+
+// Convert a MIDI file to an MPC3000 sequence. Each channel of each MIDI
+// track becomes a sequence track; the drum channel makes drum tracks and the
+// rest become MIDI tracks on their channel. Only the first tempo and time
+// signature are kept.
+export function midiToSequence(midi: MidiFile, options: MidiToSequenceOptions = {}): SeqSequence {
+  const { noteMap = {}, drumChannel = MIDI_DRUM_CHANNEL } = options;
+  const inverse = invertNoteMap(noteMap);
+  const scale = SEQ_PPQN / midi.division;
+  const tempo = findFirst(midi, 'tempo');
+  const signature = findFirst(midi, 'timeSignature');
+  const timeSignature: SeqTimeSignature = signature
+    ? { numerator: signature.numerator, denominator: signature.denominator }
+    : { numerator: 4, denominator: 4 };
+
+  const tracks: SeqTrack[] = [];
+  let lastTick = 0;
+  midi.tracks.forEach(midiTrack => {
+    const byChannel = new Map<number, SeqTrack>();
+    const trackFor = (channel: number): SeqTrack => {
+      let track = byChannel.get(channel);
+      if (!track) {
+        track = createSeqTrack(tracks.length, midiTrack.name.slice(0, SEQ_NAME_LENGTH) || undefined);
+        if (channel !== drumChannel) {
+          track.type = 'midi';
+          track.midiChannel = channel + 1;
+        }
+        byChannel.set(channel, track);
+        tracks.push(track);
+      }
+      return track;
+    };
+
+    midiTrack.events.forEach(event => {
+      const tick = Math.round(event.tick * scale);
+      if (event.type === 'note') {
+        const duration = Math.max(1, Math.round(event.duration * scale));
+        trackFor(event.channel).events.push({
+          type: 'note',
+          tick,
+          note: inverse.get(event.note) ?? event.note,
+          velocity: event.velocity,
+          duration,
+        });
+        lastTick = Math.max(lastTick, tick + 1);
+      } else if (event.type === 'program') {
+        trackFor(event.channel).events.push({ type: 'program', tick, program: event.program + 1 });
+      }
+    });
+  });
+
+  const tracksUsed = tracks.filter(track => track.events.length > 0).slice(0, 99);
+  tracksUsed.forEach((track, i) => {
+    track.index = i;
+    track.events.sort((a, b) => a.tick - b.tick);
+  });
+
+  const name = options.name ?? midi.tracks.find(track => track.name)?.name ?? 'MIDI IMPORT';
+  return {
+    number: 0,
+    name: name.slice(0, SEQ_NAME_LENGTH),
+    tempo: tempo?.bpm ?? SEQ_DEFAULT_TEMPO,
+    timeSignature,
+    bars: Math.max(1, Math.ceil(lastTick / getTicksPerBar(timeSignature))),
+    loopToBar: 1,
+    tracks: tracksUsed,
+  };
+}
+
+// Tick offset of every other step for a swing percentage: at 50 the steps
+// are even, at 66 the first step of each pair gets two thirds of the pair
+function getSwingOffset(stepTicks: number, swing: number): number {
+  return (2 * stepTicks * swing) / 100 - stepTicks;
+}
+
+function getStepTick(step: number, stepTicks: number, swingOffset: number): number {
+  return step * stepTicks + (step % 2 === 1 ? swingOffset : 0);
+}
+
+export interface Sp1200ToMidiOptions {
+  format?: MidiFormat;
+  noteMap?: MidiNoteMap; // Pad 0-31 -> MIDI note, see createSp1200NoteMap
+  channel?: number;
+  velocity?: number;
+  division?: number;
+}
+
+// Convert an SP-1200 step sequence to a MIDI file, placing each step at its
+// swung position
+export function sp1200SequenceToMidi(sequence: SP1200Sequence, options: Sp1200ToMidiOptions = {}): MidiFile {
+  const {
+    format = 1,
+    noteMap = createSp1200NoteMap(),
+    channel = MIDI_DRUM_CHANNEL,
+    velocity = 127,
+    division = SEQ_PPQN,
+  } = options;
+  const stepTicks = division / (sequence.stepsPerBeat ?? SP1200_STEPS_PER_BEAT);
+  const swingOffset = getSwingOffset(stepTicks, sequence.swing ?? 50);
+
+  const events: MidiEvent[] = [];
+  sequence.steps.forEach((pads, step) => {
+    const tick = Math.round(getStepTick(step, stepTicks, swingOffset));
+    pads.forEach(pad => {
+      const note = noteMap[pad];
+      if (note === undefined) return;
+      // The SP-1200 has no note length, so every note lasts half a step
+      events.push({ type: 'note', tick, channel, note, velocity, duration: Math.max(1, Math.round(stepTicks / 2)) });
+    });
+  });
+
+  const conductor: MidiTrack = {
+    name: sequence.name,
+    events: [
+      { type: 'tempo', tick: 0, bpm: sequence.tempo || SP1200_DEFAULT_TEMPO },
+      { type: 'timeSignature', tick: 0, numerator: 4, denominator: 4 },
+    ],
+  };
+  return { format, division, tracks: [conductor, { name: sequence.name, events }] };
+}
+
+export interface MidiToSp1200Options {
+  name?: string;
+  noteMap?: MidiNoteMap;
+  stepsPerBeat?: number;
+  swing?: number; // Worked out from the off-beat notes when left out
+}
+
+// Closest SP-1200 swing setting to the average position of the notes that
+// fall between the straight steps of each pair
+export function detectSwing(notes: MidiNoteEvent[], stepTicks: number): number {
+  const pairTicks = stepTicks * 2;
+  const offbeats = notes
+    .map(note => (note.tick % pairTicks) / pairTicks)
+    .filter(phase => phase > 0.4 && phase < 0.8);
+  if (offbeats.length === 0) return 50;
+  const average = (offbeats.reduce((sum, phase) => sum + phase, 0) / offbeats.length) * 100;
+  return SP1200_SWING_VALUES.reduce((best, value) =>
+    Math.abs(value - average) < Math.abs(best - average) ? value : best
+  );
+}
+
+// Convert a MIDI file to an SP-1200 step sequence, quantizing every note onto
+// the nearest swung step. Notes that aren't in the note map are dropped.
+export function midiToSp1200Sequence(midi: MidiFile, options: MidiToSp1200Options = {}): SP1200Sequence {
+  const { noteMap = createSp1200NoteMap(), stepsPerBeat = SP1200_STEPS_PER_BEAT } = options;
+  const inverse = invertNoteMap(noteMap);
+  const stepTicks = midi.division / stepsPerBeat;
+  const notes = midi.tracks.reduce<MidiNoteEvent[]>(
+    (all, track) => all.concat(track.events.filter((event): event is MidiNoteEvent => event.type === 'note')),
+    []
+  );
+  const swing = options.swing ?? detectSwing(notes, stepTicks);
+  const swingOffset = getSwingOffset(stepTicks, swing);
+
+  const steps: number[][] = [];
+  let skipped = 0;
+  notes.forEach(note => {
+    const pad = inverse.get(note.note);
+    if (pad === undefined) {
+      skipped++;
+      return;
+    }
+    const nearest = Math.round(note.tick / stepTicks);
+    let step = nearest;
+    [nearest - 1, nearest + 1].forEach(candidate => {
+      if (candidate < 0) return;
+      const distance = Math.abs(getStepTick(candidate, stepTicks, swingOffset) - note.tick);
+      if (distance < Math.abs(getStepTick(step, stepTicks, swingOffset) - note.tick)) step = candidate;
+    });
+    while (steps.length <= step) steps.push([]);
+    if (!steps[step].includes(pad)) steps[step].push(pad);
+  });
+  if (skipped > 0) {
+    console.warn(`Skipped ${skipped} MIDI notes that aren't in the SP-1200 note map`);
+  }
+
+  // Round up to whole 4/4 bars
+  const stepsPerBar = stepsPerBeat * 4;
+  const length = Math.max(stepsPerBar, Math.ceil(steps.length / stepsPerBar) * stepsPerBar);
+  while (steps.length < length) steps.push([]);
+
+  const tempo = findFirst(midi, 'tempo');
+  return {
+    name: options.name ?? midi.tracks.find(track => track.name)?.name ?? 'MIDI IMPORT',
+    tempo: tempo?.bpm ?? SP1200_DEFAULT_TEMPO,
+    steps: steps.map(pads => pads.sort((a, b) => a - b)),
+    stepsPerBeat,
+    swing,
+  };
+}
@@ -0,0 +1,194 @@
+import { fft } from './spectrum';
+import { isZeroCrossing } from './zeroCrossings';
+
+/**
+ * Onset detection for chopping breaks into slices.
+ *
+ * The detection function is log-compressed spectral flux: how much each
+ * frequency bin got louder since the previous frame, summed. Peaks above a
+ * moving average of it, by a margin set by `sensitivity`, are onsets. Each
+ * onset is then placed on the 1 ms block where the level jumps most and moved
+ * back to a zero crossing, so slices start just ahead of the hit without a
+ * click. Audio ahead of the first onset, such as the downbeat of a break
+ * trimmed right up to it, always starts a slice of its own.
+ */
+export interface OnsetOptions {
+  sensitivity?: number; // 0..1, higher finds quieter hits
+  minGapMs?: number; // Closest two onsets may be
+}
+
+// [start, end) in frames
+export interface SliceRange {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_SENSITIVITY = 0.5;
+const DEFAULT_MIN_GAP_MS = 60;
+// Analysis frame, rounded up to a power of two
+const FRAME_SECONDS = 0.023;
+const HOPS_PER_FRAME = 4;
+// Window of the moving average the threshold follows
+const THRESHOLD_WINDOW_SECONDS = 0.1;
+// Margin over the moving average, as a share of the strongest onset, at
+// sensitivity 0 and 1
+const MAX_MARGIN = 0.3;
+const MIN_MARGIN = 0.02;
+const COMPRESSION = 1000;
+const REFINE_BLOCK_SECONDS = 0.001;
+// Level, relative to the peak, below which the start of a sample is silence
+const SILENCE_DB = -40;
+
+// Spectral flux per hop, scaled so the strongest is 1
+function getOnsetStrength(samples: Float32Array, frameSize: number, hop: number): Float32Array {
+  const frames = Math.ceil(samples.length / hop) + 1;
+  const bins = frameSize / 2;
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+
+  const strength = new Float32Array(frames);
+  let previous = new Float64Array(bins);
+  let current = new Float64Array(bins);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  let strongest = 0;
+  for (let n = 0; n < frames; n++) {
+    // Frames are centred on n * hop
+    const offset = n * hop - frameSize / 2;
+    for (let i = 0; i < frameSize; i++) {
+      const index = offset + i;
+      re[i] = index >= 0 && index < samples.length ? samples[index] * window[i] : 0;
+      im[i] = 0;
+    }
+    fft(re, im);
+    let flux = 0;
+    for (let k = 0; k < bins; k++) {
+      current[k] = Math.log(1 + (COMPRESSION * Math.sqrt(re[k] * re[k] + im[k] * im[k])) / frameSize);
+      // The first frame is compared with silence, so a hit right at the start counts
+      if (current[k] > previous[k]) flux += current[k] - previous[k];
+    }
+    strength[n] = flux;
+    strongest = Math.max(strongest, flux);
+    [previous, current] = [current, previous];
+  }
+  if (strongest > 0) {
+    for (let n = 0; n < frames; n++) strength[n] /= strongest;
+  }
+  return strength;
+}
+
+function zeroCrossingBefore(samples: Float32Array, position: number, reach: number): number {
+  for (let i = position; i > Math.max(0, position - reach); i--) {
+    if (isZeroCrossing(samples, i)) return i;
+  }
+  return position;
+}
+
+// First frame louder than SILENCE_DB below the peak, or -1 for silence
+function findFirstAudio(samples: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  if (peak === 0) return -1;
+  const floor = peak * Math.pow(10, SILENCE_DB / 20);
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.abs(samples[i]) >= floor) return i;
+  }
+  return -1;
+}
+
+// Move an onset found at hop resolution onto the block where the level
+// jumps most, then back to the zero crossing before it. Levels are of the
+// first difference, so the cycles of a bass tail don't read as jumps.
+function refineOnset(samples: Float32Array, center: number, frameSize: number, sampleRate: number): number {
+  const block = Math.max(1, Math.round(REFINE_BLOCK_SECONDS * sampleRate));
+  const from = Math.max(1, center - frameSize / 2);
+  const to = Math.min(samples.length, center + frameSize / 2);
+  const energies: number[] = [];
+  let loudest = 0;
+  for (let start = from; start < to; start += block) {
+    let sum = 0;
+    for (let i = start; i < Math.min(to, start + block); i++) {
+      const difference = samples[i] - samples[i - 1];
+      sum += difference * difference;
+    }
+    energies.push(sum);
+    loudest = Math.max(loudest, sum);
+  }
+  if (loudest === 0) return center;
+
+  // The floor keeps noise in near-silence from counting as a jump
+  const floor = loudest * 1e-4;
+  let best = 0;
+  let bestRise = -Infinity;
+  for (let b = 1; b < energies.length; b++) {
+    const before = Math.max(energies[b - 1], b > 1 ? energies[b - 2] : 0);
+    const rise = Math.log(energies[b] + floor) - Math.log(before + floor);
+    if (rise > bestRise) {
+      bestRise = rise;
+      best = b;
+    }
+  }
+  return zeroCrossingBefore(samples, from + best * block, block);
+}
+
+/**
+ * Onsets in a mono signal, as sorted frame positions. Returns none for
+ * silence.
+ */
+export function detectOnsets(samples: Float32Array, sampleRate: number, options: OnsetOptions = {}): number[] {
+  const sensitivity = Math.max(0, Math.min(1, options.sensitivity ?? DEFAULT_SENSITIVITY));
+  const minGap = Math.round(((options.minGapMs ?? DEFAULT_MIN_GAP_MS) / 1000) * sampleRate);
+  let frameSize = 1;
+  while (frameSize < FRAME_SECONDS * sampleRate) frameSize <<= 1;
+  const hop = frameSize / HOPS_PER_FRAME;
+  if (samples.length === 0) return [];
+
+  const strength = getOnsetStrength(samples, frameSize, hop);
+  const margin = MAX_MARGIN - sensitivity * (MAX_MARGIN - MIN_MARGIN);
+  const halfWindow = Math.max(1, Math.round((THRESHOLD_WINDOW_SECONDS * sampleRate) / hop / 2));
+  const peaks: Array<{ frame: number; strength: number }> = [];
+  for (let n = 0; n < strength.length - 1; n++) {
+    if ((n > 0 && strength[n] < strength[n - 1]) || strength[n] <= strength[n + 1]) continue;
+    let sum = 0;
+    let count = 0;
+    for (let m = Math.max(0, n - halfWindow); m <= Math.min(strength.length - 1, n + halfWindow); m++) {
+      sum += strength[m];
+      count++;
+    }
+    if (strength[n] > sum / count + margin) peaks.push({ frame: n, strength: strength[n] });
+  }
+
+  // Of two onsets closer than the gap, the stronger stays
+  const kept: Array<{ position: number; strength: number }> = [];
+  peaks.forEach(peak => {
+    const position = refineOnset(samples, peak.frame * hop, frameSize, sampleRate);
+    const last = kept[kept.length - 1];
+    if (last && position - last.position < minGap) {
+      if (peak.strength > last.strength) kept[kept.length - 1] = { position, strength: peak.strength };
+    } else {
+      kept.push({ position, strength: peak.strength });
+    }
+  });
+  const onsets = kept.map(onset => onset.position);
+
+  // Nothing audible is left out ahead of the first slice: an onset just
+  // after the audio starts moves back to it, a later one gets a slice before it
+  const firstAudio = findFirstAudio(samples);
+  if (firstAudio >= 0 && (onsets.length === 0 || onsets[0] > firstAudio)) {
+    const start = zeroCrossingBefore(samples, firstAudio, Math.round(REFINE_BLOCK_SECONDS * sampleRate));
+    if (onsets.length > 0 && onsets[0] - start < minGap) onsets[0] = start;
+    else onsets.unshift(start);
+  }
+  return onsets;
+}
+
+// Slices from each point to the next, the last running to the end. Points
+// are sorted and duplicates dropped.
+export function getSliceRanges(points: number[], length: number): SliceRange[] {
+  const sorted = points
+    .map(point => Math.round(point))
+    .filter(point => point >= 0 && point < length)
+    .sort((a, b) => a - b)
+    .filter((point, i, all) => i === 0 || point !== all[i - 1]);
+  return sorted.map((start, i) => ({ start, end: i + 1 < sorted.length ? sorted[i + 1] : length }));
+}
@@ -0,0 +1,130 @@
+/**
+ * Multi-resolution min/max peaks for drawing waveforms. Built once per
+ * sample in a single pass over the audio, then each redraw reads the
+ * coarsest level that still has at least one peak per pixel column, so the
+ * cost of drawing depends on the canvas width rather than the sample length.
+ *
+ * Level 0 holds one min/max pair per PEAK_BASE_FRAMES frames; each further
+ * level merges PEAK_LEVEL_FACTOR pairs of the one below. Views zoomed in
+ * past level 0 read the samples directly. All channels are folded into one
+ * envelope, scaled to -1..1.
+ */
+export interface PeakLevel {
+  framesPerPeak: number;
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export interface PeakCache {
+  length: number; // Frames
+  levels: PeakLevel[];
+  channels: ArrayLike<number>[];
+  fullScale: number; // Sample value that maps to 1
+}
+
+export interface PeakColumns {
+  min: Float32Array;
+  max: Float32Array;
+}
+
+export const PEAK_BASE_FRAMES = 16;
+export const PEAK_LEVEL_FACTOR = 4;
+// Stop adding levels once one fits a narrow canvas
+const PEAK_MIN_LEVEL_SIZE = 64;
+
+function mergeLevel(level: PeakLevel): PeakLevel {
+  const size = Math.ceil(level.min.length / PEAK_LEVEL_FACTOR);
+  const min = new Float32Array(size);
+  const max = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    let lo = Infinity;
+    let hi = -Infinity;
+    const end = Math.min(level.min.length, (i + 1) * PEAK_LEVEL_FACTOR);
+    for (let j = i * PEAK_LEVEL_FACTOR; j < end; j++) {
+      if (level.min[j] < lo) lo = level.min[j];
+      if (level.max[j] > hi) hi = level.max[j];
+    }
+    min[i] = lo;
+    max[i] = hi;
+  }
+  return { framesPerPeak: level.framesPerPeak * PEAK_LEVEL_FACTOR, min, max };
+}
+
+// Build the cache for one or more equal-length channels. `fullScale` is
+// 32768 for 16-bit data and 1 for floats.
+export function buildPeakCache(channels: ArrayLike<number>[], fullScale = 1): PeakCache {
+  const length = channels.length > 0 ? channels[0].length : 0;
+  const size = Math.ceil(length / PEAK_BASE_FRAMES);
+  const min = new Float32Array(size);
+  const max = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    let lo = Infinity;
+    let hi = -Infinity;
+    const end = Math.min(length, (i + 1) * PEAK_BASE_FRAMES);
+    channels.forEach(channel => {
+      for (let j = i * PEAK_BASE_FRAMES; j < end; j++) {
+        const value = channel[j];
+        if (value < lo) lo = value;
+        if (value > hi) hi = value;
+      }
+    });
+    min[i] = lo / fullScale;
+    max[i] = hi / fullScale;
+  }
+
+  const levels: PeakLevel[] = [{ framesPerPeak: PEAK_BASE_FRAMES, min, max }];
+  while (levels[levels.length - 1].min.length > PEAK_MIN_LEVEL_SIZE) {
+    levels.push(mergeLevel(levels[levels.length - 1]));
+  }
+  return { length, levels, channels, fullScale };
+}
+
+/**
+ * Min/max for `columns` equal slices of frames [start, end). Columns past
+ * the end of the sample are 0. When a column is narrower than a frame, it
+ * shows the frame it falls in.
+ */
+export function getPeakColumns(cache: PeakCache, start: number, end: number, columns: number): PeakColumns {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  const framesPerColumn = (end - start) / Math.max(1, columns);
+  if (framesPerColumn <= 0 || cache.length === 0) return { min, max };
+
+  // Coarsest level with at least one peak per column
+  let level: PeakLevel | null = null;
+  for (let i = 0; i < cache.levels.length; i++) {
+    if (cache.levels[i].framesPerPeak <= framesPerColumn) level = cache.levels[i];
+  }
+
+  for (let x = 0; x < columns; x++) {
+    const from = start + x * framesPerColumn;
+    const to = from + framesPerColumn;
+    if (from >= cache.length || to <= 0) continue;
+    let lo = Infinity;
+    let hi = -Infinity;
+    if (level) {
+      const { framesPerPeak, min: levelMin, max: levelMax } = level;
+      const first = Math.max(0, Math.floor(from / framesPerPeak));
+      const last = Math.min(levelMin.length, Math.ceil(to / framesPerPeak));
+      for (let i = first; i < last; i++) {
+        if (levelMin[i] < lo) lo = levelMin[i];
+        if (levelMax[i] > hi) hi = levelMax[i];
+      }
+    } else {
+      const first = Math.max(0, Math.floor(from));
+      const last = Math.min(cache.length, Math.max(first + 1, Math.ceil(to)));
+      cache.channels.forEach(channel => {
+        for (let i = first; i < last; i++) {
+          const value = channel[i] / cache.fullScale;
+          if (value < lo) lo = value;
+          if (value > hi) hi = value;
+        }
+      });
+    }
+    if (lo <= hi) {
+      min[x] = lo;
+      max[x] = hi;
+    }
+  }
+  return { min, max };
+}
@@ -0,0 +1,158 @@
+/**
+ * Fundamental frequency estimation with YIN (de Cheveigné & Kawahara, 2002),
+ * for setting a sample's root note and tuning.
+ *
+ * Frames are taken across the loud part of the sample, so attacks and decays
+ * into silence don't dominate; each frame's period is the first dip of the
+ * cumulative mean normalized difference below the threshold, refined by
+ * parabolic interpolation. The result is the median of the frames that found
+ * a period. It is null unless most frames found one and agree on it, so drums,
+ * whose short decays can look periodic for a frame or two, and noise aren't
+ * given a pitch.
+ */
+export interface PitchEstimate {
+  frequency: number; // Hz
+  confidence: number; // 0..1, one minus the median aperiodicity
+  note: number; // Nearest MIDI note
+  cents: number; // Offset from that note, -50 to +50
+}
+
+export interface PitchDetectionOptions {
+  minFrequency?: number;
+  maxFrequency?: number;
+  threshold?: number; // Highest aperiodicity accepted as a period, YIN's absolute threshold
+}
+
+const DEFAULT_MIN_FREQUENCY = 40;
+const DEFAULT_MAX_FREQUENCY = 4000;
+const DEFAULT_THRESHOLD = 0.1;
+const MAX_FRAMES = 24;
+// Frames quieter than the loudest by this much aren't analyzed
+const FRAME_LEVEL_RANGE_DB = 20;
+// Share of analyzed frames that must find a period within MAX_SPREAD_CENTS
+// of the median, and the fewest frames that can
+const MIN_VOICED_SHARE = 0.8;
+const MIN_VOICED_FRAMES = 3;
+const MAX_SPREAD_CENTS = 35;
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// MIDI note number, fractional, of a frequency; A4 = 69 = 440 Hz
+export function frequencyToNote(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440);
+}
+
+// "C4" for MIDI note 60
+export function getNoteName(note: number): string {
+  const rounded = Math.round(note);
+  return `${NOTE_NAMES[((rounded % 12) + 12) % 12]}${Math.floor(rounded / 12) - 1}`;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Period in frames, and its aperiodicity, of the frame at `start`; null when
+// no lag dips below the threshold
+function yinFrame(
+  samples: Float32Array,
+  start: number,
+  windowFrames: number,
+  minLag: number,
+  maxLag: number,
+  threshold: number
+): { period: number; aperiodicity: number } | null {
+  // Cumulative mean normalized difference, d'(0) = 1
+  const normalized = new Float64Array(maxLag + 2);
+  normalized[0] = 1;
+  let runningSum = 0;
+  for (let lag = 1; lag <= maxLag + 1; lag++) {
+    let difference = 0;
+    for (let j = 0; j < windowFrames; j++) {
+      const delta = samples[start + j] - samples[start + j + lag];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    normalized[lag] = runningSum > 0 ? (difference * lag) / runningSum : 1;
+  }
+
+  for (let lag = Math.max(2, minLag); lag <= maxLag; lag++) {
+    if (normalized[lag] >= threshold) continue;
+    // Follow the dip down to its minimum
+    while (lag < maxLag && normalized[lag + 1] < normalized[lag]) lag++;
+    const before = normalized[lag - 1];
+    const at = normalized[lag];
+    const after = normalized[lag + 1];
+    const curvature = before - 2 * at + after;
+    const shift = curvature > 0 ? (before - after) / (2 * curvature) : 0;
+    return { period: lag + Math.max(-0.5, Math.min(0.5, shift)), aperiodicity: at };
+  }
+  return null;
+}
+
+/**
+ * Estimate the fundamental of a mono sample. Returns null when the sample is
+ * too short for the lowest frequency or has no steady pitch.
+ */
+export function detectPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectionOptions = {}
+): PitchEstimate | null {
+  const minFrequency = options.minFrequency ?? DEFAULT_MIN_FREQUENCY;
+  const maxFrequency = Math.min(options.maxFrequency ?? DEFAULT_MAX_FREQUENCY, sampleRate / 4);
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const minLag = Math.max(2, Math.floor(sampleRate / maxFrequency));
+  const maxLag = Math.ceil(sampleRate / minFrequency);
+  // The window spans the longest period, and each frame the window plus lag
+  const windowFrames = maxLag;
+  const frameSpan = windowFrames + maxLag + 2;
+  if (samples.length < frameSpan || minLag >= maxLag) return null;
+
+  const positions = Math.min(MAX_FRAMES * 4, Math.floor(samples.length / windowFrames));
+  const hop = positions > 1 ? (samples.length - frameSpan) / (positions - 1) : 0;
+  const frames: Array<{ start: number; rms: number }> = [];
+  for (let i = 0; i < positions; i++) {
+    const start = Math.round(i * hop);
+    let sum = 0;
+    for (let j = 0; j < windowFrames; j++) sum += samples[start + j] * samples[start + j];
+    frames.push({ start, rms: Math.sqrt(sum / windowFrames) });
+  }
+  const loudest = frames.reduce((max, frame) => Math.max(max, frame.rms), 0);
+  if (loudest === 0) return null;
+
+  const floor = loudest * Math.pow(10, -FRAME_LEVEL_RANGE_DB / 20);
+  const loud = frames.filter(frame => frame.rms >= floor);
+  // Spread the analysis evenly over the loud frames
+  const step = Math.max(1, loud.length / MAX_FRAMES);
+  const analyzed: number[] = [];
+  for (let i = 0; i < loud.length; i += step) analyzed.push(loud[Math.floor(i)].start);
+
+  const periods: number[] = [];
+  const aperiodicities: number[] = [];
+  analyzed.forEach(start => {
+    const result = yinFrame(samples, start, windowFrames, minLag, maxLag, threshold);
+    if (result) {
+      periods.push(result.period);
+      aperiodicities.push(result.aperiodicity);
+    }
+  });
+  if (periods.length === 0) return null;
+
+  // A steady pitch has most frames on the same period
+  const period = median(periods);
+  const steady = periods.filter(p => Math.abs(1200 * Math.log2(p / period)) <= MAX_SPREAD_CENTS);
+  if (steady.length < MIN_VOICED_FRAMES || steady.length < analyzed.length * MIN_VOICED_SHARE) return null;
+
+  const frequency = sampleRate / period;
+  const exact = frequencyToNote(frequency);
+  const note = Math.max(0, Math.min(127, Math.round(exact)));
+  return {
+    frequency,
+    confidence: Math.max(0, 1 - median(aperiodicities)),
+    note,
+    cents: Math.max(-50, Math.min(50, Math.round((exact - note) * 100))) || 0,
+  };
+}
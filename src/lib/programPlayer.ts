@@ -0,0 +1,193 @@
+import { parseSndFile } from './akaiSnd';
+import { getPadNote, getPgmNote, PgmBank, PgmNote, PgmProgram } from './akaiPgm';
+import { findLibrarySample, SampleLibrary } from './sampleLibrary';
+import { buildSndPlaybackPlan, createSndAudioBuffer, SndPlaybackPlan, SndVoice } from './sndVoice';
+import { MPC3000_VOICE_LIMIT, VoiceAllocator } from './voiceAllocator';
+
+interface LoadedNote {
+  buffer: AudioBuffer;
+  plan: SndPlaybackPlan;
+  sampleTune: number; // Semitones of tuning stored in the SND header
+}
+
+export interface ProgramLoadResult {
+  loaded: string[];
+  missing: string[];
+}
+
+export const MAX_VELOCITY = 127;
+
+// Gain for a note at a velocity. Velocity to level 0 ignores velocity,
+// 100 scales the level all the way down to silence at velocity 0.
+export function getNoteGain(note: PgmNote, velocity: number): number {
+  const sensitivity = note.velocityToLevel / 100;
+  const velocityScale = 1 - sensitivity * (1 - velocity / MAX_VELOCITY);
+  return (note.level / 100) * velocityScale;
+}
+
+// Map a 0-100 attack or decay value onto seconds, finer at the short end
+export function getEnvelopeTime(value: number): number {
+  const amount = Math.max(0, Math.min(100, value)) / 100;
+  return 0.002 + amount * amount * 3;
+}
+
+// Attack gets shorter with velocity, scaled by velocity to attack
+export function getNoteAttackTime(note: PgmNote, velocity: number): number {
+  return getEnvelopeTime(note.attack) * (1 - (note.velocityToAttack / 100) * (velocity / MAX_VELOCITY));
+}
+
+// Decay gets longer with velocity, scaled by velocity to decay
+export function getNoteDecayTime(note: PgmNote, velocity: number): number {
+  return getEnvelopeTime(note.decay) * (1 + (note.velocityToDecay / 100) * (velocity / MAX_VELOCITY));
+}
+
+// Playback rate combining the program's note tuning with the sample's own tune
+export function getNotePlaybackRate(note: PgmNote, sampleTune: number): number {
+  return Math.pow(2, (note.tuning + sampleTune) / 12);
+}
+
+export class MpcProgramPlayer {
+  private audioContext: AudioContext | null = null;
+  private program: PgmProgram | null = null;
+  private loadedNotes: Map<number, LoadedNote> = new Map();
+  private voices: VoiceAllocator;
+  private decayTimes: Map<SndVoice, number> = new Map();
+
+  constructor(voiceLimit = MPC3000_VOICE_LIMIT) {
+    this.voices = new VoiceAllocator(voiceLimit);
+    if (typeof window !== 'undefined') {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+  }
+
+  get context(): AudioContext | null {
+    return this.audioContext;
+  }
+
+  getProgram(): PgmProgram | null {
+    return this.program;
+  }
+
+  get voiceLimit(): number {
+    return this.voices.limit;
+  }
+
+  setVoiceLimit(limit: number): void {
+    this.voices.setLimit(limit);
+  }
+
+  getActiveVoiceCount(): number {
+    return this.voices.activeCount;
+  }
+
+  hasSample(note: number): boolean {
+    return this.loadedNotes.has(note);
+  }
+
+  // Load a program and decode every sample it refers to from the library
+  async loadProgram(program: PgmProgram, library: SampleLibrary): Promise<ProgramLoadResult> {
+    this.stopAll();
+    this.program = program;
+    this.loadedNotes.clear();
+
+    const result: ProgramLoadResult = { loaded: [], missing: [] };
+    if (!this.audioContext) return result;
+
+    for (const note of program.notes) {
+      if (!note.sampleName) continue;
+      const file = findLibrarySample(library, note.sampleName);
+      if (!file) {
+        if (!result.missing.includes(note.sampleName)) result.missing.push(note.sampleName);
+        continue;
+      }
+      try {
+        const sample = parseSndFile(file.data);
+        const buffer = createSndAudioBuffer(this.audioContext, sample);
+        this.loadedNotes.set(note.note, {
+          buffer,
+          plan: buildSndPlaybackPlan(sample.header, buffer.length),
+          sampleTune: sample.header.semiTune + sample.header.centsTune / 100,
+        });
+        if (!result.loaded.includes(note.sampleName)) result.loaded.push(note.sampleName);
+      } catch (error) {
+        console.error(`Error loading sample ${file.name}:`, error);
+        if (!result.missing.includes(note.sampleName)) result.missing.push(note.sampleName);
+      }
+    }
+    return result;
+  }
+
+  async resume() {
+    if (this.audioContext?.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+  }
+
+  // Trigger a note with the program's tuning, level, pan and envelope applied,
+  // cutting voices for mute groups, mono notes and the voice limit first.
+  // Decay mode "start" decays straight after the attack; "end" holds until
+  // the note is released and decays from there.
+  playNote(noteNumber: number, velocity = MAX_VELOCITY, when?: number): SndVoice | null {
+    if (!this.audioContext || !this.program) return null;
+    const note = getPgmNote(this.program, noteNumber);
+    const loaded = this.loadedNotes.get(noteNumber);
+    if (!note || !loaded) return null;
+
+    const context = this.audioContext;
+    const startTime = when ?? context.currentTime;
+    this.voices.prepare(note, startTime);
+
+    const panner = context.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, (note.pan - 50) / 50));
+    panner.connect(context.destination);
+
+    const voice = new SndVoice(
+      context,
+      loaded.buffer,
+      loaded.plan,
+      panner,
+      getNotePlaybackRate(note, loaded.sampleTune)
+    );
+    voice.setLevel(getNoteGain(note, velocity));
+    voice.onended = () => {
+      panner.disconnect();
+      this.voices.remove(voice);
+      this.decayTimes.delete(voice);
+    };
+
+    const attack = getNoteAttackTime(note, velocity);
+    const decay = getNoteDecayTime(note, velocity);
+    voice.start(startTime, undefined, { attack, decay: note.decayMode === 'start' ? decay : undefined });
+    this.voices.add(voice, note, startTime);
+    this.decayTimes.set(voice, decay);
+    return voice;
+  }
+
+  // Note-off for every voice of a note, decaying over the note's decay time
+  releaseNote(noteNumber: number, when?: number): void {
+    this.voices.voicesForNote(noteNumber).forEach(voice => this.releaseVoice(voice, when));
+  }
+
+  // Note-off for a single voice returned by playNote
+  releaseVoice(voice: SndVoice, when?: number): void {
+    if (!this.audioContext) return;
+    voice.release(when ?? this.audioContext.currentTime, this.decayTimes.get(voice));
+  }
+
+  playPad(bank: PgmBank, pad: number, velocity = MAX_VELOCITY): SndVoice | null {
+    if (!this.program) return null;
+    const note = getPadNote(this.program, bank, pad);
+    return note ? this.playNote(note.note, velocity) : null;
+  }
+
+  releasePad(bank: PgmBank, pad: number): void {
+    if (!this.program) return;
+    const note = getPadNote(this.program, bank, pad);
+    if (note) this.releaseNote(note.note);
+  }
+
+  stopAll(): void {
+    this.voices.stopAll();
+    this.decayTimes.clear();
+  }
+}
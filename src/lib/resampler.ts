@@ -0,0 +1,141 @@
+/**
+ * Sample rate conversion for the SND and SP-1200 converters.
+ *
+ * - fast: linear interpolation, cheap but lets some aliasing through
+ * - high: windowed-sinc (Kaiser window) low-pass interpolation, band-limited
+ *   to the lower of the two Nyquist frequencies
+ * - authentic: drop-sample, every output picks the nearest earlier input
+ *   sample with no filtering, the way the SP-1200 plays back and resamples
+ */
+export type ResampleQuality = 'fast' | 'high' | 'authentic';
+
+export const RESAMPLE_QUALITIES: ResampleQuality[] = ['high', 'fast', 'authentic'];
+
+export const RESAMPLE_QUALITY_NAMES: Record<ResampleQuality, string> = {
+  fast: 'Fast (linear)',
+  high: 'High (windowed sinc)',
+  authentic: 'Authentic (drop-sample)',
+};
+
+// Rates the converters write: MPC3000/S3000 full and half rate, and SP-1200
+export const TARGET_SAMPLE_RATES = [44100, 22050, 26040];
+
+// Zero crossings of the sinc on each side of the centre, at the cutoff
+const SINC_ZERO_CROSSINGS = 32;
+// Kernel table entries per zero crossing, looked up with linear interpolation
+const SINC_TABLE_RESOLUTION = 512;
+// Stopband attenuation of roughly 90 dB
+const KAISER_BETA = 9;
+// Passband edge as a fraction of the output Nyquist frequency, leaving room
+// for the transition band so nothing folds back
+const CUTOFF_RATIO = 0.95;
+
+// Zeroth-order modified Bessel function of the first kind, for the Kaiser window
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const half = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (half / k) * (half / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+let sincTable: Float32Array | null = null;
+
+// Windowed sinc from 0 to SINC_ZERO_CROSSINGS, built once and shared
+function getSincTable(): Float32Array {
+  if (sincTable) return sincTable;
+  const size = SINC_ZERO_CROSSINGS * SINC_TABLE_RESOLUTION + 2;
+  const table = new Float32Array(size);
+  const denominator = besselI0(KAISER_BETA);
+  for (let i = 0; i < size; i++) {
+    const x = i / SINC_TABLE_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const r = x / SINC_ZERO_CROSSINGS;
+    const window = r >= 1 ? 0 : besselI0(KAISER_BETA * Math.sqrt(1 - r * r)) / denominator;
+    table[i] = sinc * window;
+  }
+  sincTable = table;
+  return table;
+}
+
+export function getResampledLength(inputLength: number, fromRate: number, toRate: number): number {
+  return Math.max(0, Math.floor((inputLength * toRate) / fromRate));
+}
+
+function resampleDropSample(input: Float32Array, step: number, outputLength: number): Float32Array {
+  const output = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    output[i] = input[Math.min(Math.floor(i * step), input.length - 1)];
+  }
+  return output;
+}
+
+function resampleLinear(input: Float32Array, step: number, outputLength: number): Float32Array {
+  const output = new Float32Array(outputLength);
+  const last = input.length - 1;
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const frac = position - index;
+    const a = input[Math.min(index, last)];
+    const b = input[Math.min(index + 1, last)];
+    output[i] = a + (b - a) * frac;
+  }
+  return output;
+}
+
+function resampleSinc(input: Float32Array, step: number, outputLength: number): Float32Array {
+  const table = getSincTable();
+  const output = new Float32Array(outputLength);
+  // When downsampling the kernel is stretched so it cuts off below the
+  // output Nyquist frequency, which also scales its gain by `cutoff`
+  const cutoff = Math.min(1, 1 / step) * CUTOFF_RATIO;
+  const radius = SINC_ZERO_CROSSINGS / cutoff;
+  const tableScale = cutoff * SINC_TABLE_RESOLUTION;
+
+  for (let i = 0; i < outputLength; i++) {
+    const position = i * step;
+    const first = Math.max(0, Math.ceil(position - radius));
+    const last = Math.min(input.length - 1, Math.floor(position + radius));
+    let sum = 0;
+    for (let k = first; k <= last; k++) {
+      const t = Math.abs(k - position) * tableScale;
+      const index = Math.floor(t);
+      const frac = t - index;
+      const weight = table[index] + (table[index + 1] - table[index]) * frac;
+      sum += input[k] * weight;
+    }
+    output[i] = sum * cutoff;
+  }
+  return output;
+}
+
+// Resample one channel of audio from one rate to another. Returns the input
+// unchanged when the rates already match.
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  quality: ResampleQuality = 'high'
+): Float32Array {
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new Error(`Invalid sample rate: cannot resample from ${fromRate} Hz to ${toRate} Hz`);
+  }
+  if (fromRate === toRate || input.length === 0) return input;
+
+  const step = fromRate / toRate;
+  const outputLength = getResampledLength(input.length, fromRate, toRate);
+  switch (quality) {
+    case 'authentic':
+      return resampleDropSample(input, step, outputLength);
+    case 'fast':
+      return resampleLinear(input, step, outputLength);
+    case 'high':
+    default:
+      return resampleSinc(input, step, outputLength);
+  }
+}
@@ -0,0 +1,337 @@
+import {
+  AkaiSndLoop,
+  createEmptyLoop,
+  createSndLoop,
+  floatToSndData,
+  getSndLoopBounds,
+  SndSample,
+  sndDataToFloat,
+  SND_LOOP_NONE,
+  SND_MAX_LOOPS,
+} from './akaiSnd';
+import { DecodedAudio } from './audioDecoder';
+import { applyLoopCrossfade, CrossfadeCurve } from './loopFinder';
+import { WavCuePoint, WavLoop, WavMetadata } from './wavChunks';
+
+/**
+ * Non-destructive sample editing: an ordered edit list applied to decoded
+ * channels just before encoding, so the source stays untouched and edits can
+ * be removed or reordered until export. Every channel gets the same edit,
+ * with levels measured across all of them so stereo pairs stay balanced.
+ *
+ * Positions are in frames of the audio the edit sees, i.e. after the edits
+ * before it. Trim, silence stripping and reverse move frames around; each
+ * edit reports that as an EditTransform so markers and loops can follow.
+ */
+export type FadeCurve = 'linear' | 'exponential' | 'logarithmic' | 's-curve';
+export type NormalizeMode = 'peak' | 'rms';
+
+export type SampleEdit =
+  | { type: 'trim'; start: number; end: number }
+  | { type: 'normalize'; mode: NormalizeMode; targetDb: number }
+  | { type: 'fade'; direction: 'in' | 'out'; frames: number; curve: FadeCurve }
+  | { type: 'reverse' }
+  | { type: 'gain'; db: number }
+  | { type: 'removeDc' }
+  | { type: 'stripSilence'; thresholdDb: number }
+  | { type: 'crossfadeLoop'; start: number; end: number; frames: number; curve: CrossfadeCurve };
+
+export type SampleEditType = SampleEdit['type'];
+
+// What an edit did to frame positions: kept [start, end) of its input,
+// reversed if `reverse` is set
+export interface EditTransform {
+  start: number;
+  end: number;
+  reverse: boolean;
+}
+
+export const FADE_CURVES: FadeCurve[] = ['linear', 'exponential', 'logarithmic', 's-curve'];
+
+export const SAMPLE_EDIT_NAMES: Record<SampleEditType, string> = {
+  trim: 'Trim to selection',
+  normalize: 'Normalize',
+  fade: 'Fade',
+  reverse: 'Reverse',
+  gain: 'Gain',
+  removeDc: 'Remove DC offset',
+  stripSilence: 'Strip silence',
+  crossfadeLoop: 'Crossfade loop',
+};
+
+function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+// Fade gain at `t` from 0 (silent) to 1 (full level)
+function fadeGain(t: number, curve: FadeCurve): number {
+  switch (curve) {
+    case 'exponential':
+      return t * t;
+    case 'logarithmic':
+      return 1 - (1 - t) * (1 - t);
+    case 's-curve':
+      return (1 - Math.cos(Math.PI * t)) / 2;
+    default:
+      return t;
+  }
+}
+
+function scale(channels: Float32Array[], gain: number): Float32Array[] {
+  return channels.map(channel => channel.map(value => value * gain));
+}
+
+function peakOf(channels: Float32Array[]): number {
+  let peak = 0;
+  channels.forEach(channel => {
+    for (let i = 0; i < channel.length; i++) {
+      peak = Math.max(peak, Math.abs(channel[i]));
+    }
+  });
+  return peak;
+}
+
+function rmsOf(channels: Float32Array[]): number {
+  let sum = 0;
+  let count = 0;
+  channels.forEach(channel => {
+    for (let i = 0; i < channel.length; i++) {
+      sum += channel[i] * channel[i];
+    }
+    count += channel.length;
+  });
+  return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+// First and last frame (exclusive) where any channel reaches the threshold
+function findSoundRange(channels: Float32Array[], thresholdDb: number): { start: number; end: number } {
+  const threshold = dbToGain(thresholdDb);
+  const length = channels[0]?.length ?? 0;
+  const loud = (frame: number) => channels.some(channel => Math.abs(channel[frame]) >= threshold);
+  let start = 0;
+  while (start < length && !loud(start)) start++;
+  let end = length;
+  while (end > start && !loud(end - 1)) end--;
+  return { start, end };
+}
+
+// Apply one edit, returning new channels and how frames moved
+export function applySampleEdit(
+  channels: Float32Array[],
+  edit: SampleEdit
+): { channels: Float32Array[]; transform: EditTransform } {
+  const length = channels[0]?.length ?? 0;
+  const identity: EditTransform = { start: 0, end: length, reverse: false };
+
+  switch (edit.type) {
+    case 'trim':
+    case 'stripSilence': {
+      const range = edit.type === 'trim'
+        ? { start: Math.round(edit.start), end: Math.round(edit.end) }
+        : findSoundRange(channels, edit.thresholdDb);
+      const start = Math.max(0, Math.min(length, range.start));
+      const end = Math.max(start, Math.min(length, range.end));
+      return {
+        channels: channels.map(channel => channel.slice(start, end)),
+        transform: { start, end, reverse: false },
+      };
+    }
+
+    case 'reverse':
+      return {
+        channels: channels.map(channel => channel.slice().reverse()),
+        transform: { ...identity, reverse: true },
+      };
+
+    case 'normalize': {
+      const level = edit.mode === 'peak' ? peakOf(channels) : rmsOf(channels);
+      // Silence stays silent rather than being scaled to infinity
+      const gain = level > 0 ? dbToGain(edit.targetDb) / level : 1;
+      return { channels: scale(channels, gain), transform: identity };
+    }
+
+    case 'gain':
+      return { channels: scale(channels, dbToGain(edit.db)), transform: identity };
+
+    case 'removeDc':
+      return {
+        channels: channels.map(channel => {
+          let sum = 0;
+          for (let i = 0; i < channel.length; i++) {
+            sum += channel[i];
+          }
+          const mean = channel.length > 0 ? sum / channel.length : 0;
+          return channel.map(value => value - mean);
+        }),
+        transform: identity,
+      };
+
+    case 'fade': {
+      const frames = Math.max(0, Math.min(length, Math.round(edit.frames)));
+      const faded = channels.map(channel => {
+        const result = channel.slice();
+        for (let i = 0; i < frames; i++) {
+          // The outermost frame is silent and the innermost is at full level
+          const t = frames > 1 ? i / (frames - 1) : 1;
+          const index = edit.direction === 'in' ? i : length - 1 - i;
+          result[index] *= fadeGain(t, edit.curve);
+        }
+        return result;
+      });
+      return { channels: faded, transform: identity };
+    }
+
+    case 'crossfadeLoop':
+      return {
+        channels: channels.map(channel => applyLoopCrossfade(channel, edit.start, edit.end, edit.frames, edit.curve)),
+        transform: identity,
+      };
+  }
+}
+
+// Apply an edit list in order, without touching the input
+export function applySampleEdits(
+  channels: Float32Array[],
+  edits: SampleEdit[]
+): { channels: Float32Array[]; transforms: EditTransform[] } {
+  const transforms: EditTransform[] = [];
+  let result = channels;
+  edits.forEach(edit => {
+    const applied = applySampleEdit(result, edit);
+    result = applied.channels;
+    transforms.push(applied.transform);
+  });
+  return { channels: result, transforms };
+}
+
+/**
+ * Follow a marker position through the edits. Positions sit between frames,
+ * so the end of the kept range is still inside it. Returns null once a trim
+ * cuts the position away.
+ */
+export function mapEditedFrame(transforms: EditTransform[], frame: number): number | null {
+  let position = frame;
+  for (let i = 0; i < transforms.length; i++) {
+    const { start, end, reverse } = transforms[i];
+    if (position < start || position > end) return null;
+    position -= start;
+    if (reverse) position = end - start - position;
+  }
+  return position;
+}
+
+// Follow a [start, end) range, such as a loop, through the edits. Null when
+// either end is cut away.
+export function mapEditedRange(
+  transforms: EditTransform[],
+  start: number,
+  end: number
+): { start: number; end: number } | null {
+  const mappedStart = mapEditedFrame(transforms, start);
+  const mappedEnd = mapEditedFrame(transforms, end);
+  if (mappedStart === null || mappedEnd === null) return null;
+  return { start: Math.min(mappedStart, mappedEnd), end: Math.max(mappedStart, mappedEnd) };
+}
+
+// Move metadata loops and cues along with the edits, dropping those cut away
+function mapMetadata(metadata: WavMetadata, transforms: EditTransform[]): WavMetadata {
+  const result: WavMetadata = { ...metadata };
+  if (metadata.sampler) {
+    const loops: WavLoop[] = [];
+    metadata.sampler.loops.forEach(loop => {
+      const range = mapEditedRange(transforms, loop.start, loop.end);
+      if (range && range.end > range.start) loops.push({ ...loop, ...range });
+    });
+    result.sampler = { ...metadata.sampler, loops };
+  }
+  if (metadata.cues) {
+    const cues = metadata.cues
+      .map(cue => ({ ...cue, position: mapEditedFrame(transforms, cue.position) }))
+      .filter((cue): cue is WavCuePoint => cue.position !== null);
+    result.cues = cues.sort((a, b) => a.position - b.position);
+  }
+  return result;
+}
+
+// Apply an edit list to decoded audio ahead of SND or SP-1200 encoding
+export function applySampleEditsToAudio(audio: DecodedAudio, edits: SampleEdit[]): DecodedAudio {
+  if (edits.length === 0) return audio;
+  const { channels, transforms } = applySampleEdits(audio.channels, edits);
+  return { ...audio, channels, metadata: mapMetadata(audio.metadata, transforms) };
+}
+
+// Start/end markers follow the edits, falling back to the whole sample when
+// cut away; active loops that are cut away are dropped
+function mapSndSample(sample: SndSample, data: Int16Array, transforms: EditTransform[]): SndSample {
+  const { header } = sample;
+  const marked = mapEditedRange(transforms, header.startMarker, header.endMarker || sample.data.length);
+  const loops = header.loops
+    .slice(header.firstActiveLoop, header.firstActiveLoop + header.activeLoops)
+    .map(loop => {
+      const bounds = getSndLoopBounds(loop);
+      const range = mapEditedRange(transforms, bounds.start, bounds.end);
+      return range && range.end > range.start ? createSndLoop(range.start, range.end, loop.time) : null;
+    })
+    .filter((loop): loop is AkaiSndLoop => loop !== null)
+    .sort((a, b) => a.marker - b.marker);
+  const activeLoops = loops.length;
+  while (loops.length < SND_MAX_LOOPS) loops.push(createEmptyLoop());
+  return {
+    data,
+    header: {
+      ...header,
+      sampleWords: data.length,
+      startMarker: marked ? Math.round(marked.start) : 0,
+      endMarker: marked ? Math.round(marked.end) : data.length,
+      activeLoops,
+      firstActiveLoop: 0,
+      loopMode: activeLoops > 0 ? header.loopMode : SND_LOOP_NONE,
+      loops,
+    },
+  };
+}
+
+/**
+ * Apply an edit list to an SND, and to the right half of a stereo pair
+ * together with it. Markers and loops are moved along; the input samples are
+ * left as they are.
+ */
+export function applySampleEditsToSnd(
+  sample: SndSample,
+  edits: SampleEdit[],
+  right?: SndSample | null
+): { left: SndSample; right?: SndSample } {
+  if (edits.length === 0) return { left: sample, right: right ?? undefined };
+  const channels = [sndDataToFloat(sample.data)];
+  if (right) {
+    const rightData = new Float32Array(sample.data.length);
+    rightData.set(sndDataToFloat(right.data).subarray(0, sample.data.length));
+    channels.push(rightData);
+  }
+  const edited = applySampleEdits(channels, edits);
+  return {
+    left: mapSndSample(sample, floatToSndData(edited.channels[0]), edited.transforms),
+    right: right ? mapSndSample(right, floatToSndData(edited.channels[1]), edited.transforms) : undefined,
+  };
+}
+
+// Short label for an edit list entry
+export function describeSampleEdit(edit: SampleEdit, sampleRate: number): string {
+  const ms = (frames: number) => `${Math.round((frames / sampleRate) * 1000)} ms`;
+  switch (edit.type) {
+    case 'trim':
+      return `${SAMPLE_EDIT_NAMES.trim}: ${ms(edit.start)} to ${ms(edit.end)}`;
+    case 'normalize':
+      return `${SAMPLE_EDIT_NAMES.normalize} ${edit.mode.toUpperCase()} to ${edit.targetDb} dB`;
+    case 'fade':
+      return `${SAMPLE_EDIT_NAMES.fade} ${edit.direction}, ${ms(edit.frames)} ${edit.curve}`;
+    case 'gain':
+      return `${SAMPLE_EDIT_NAMES.gain} ${edit.db > 0 ? '+' : ''}${edit.db} dB`;
+    case 'stripSilence':
+      return `${SAMPLE_EDIT_NAMES.stripSilence} below ${edit.thresholdDb} dB`;
+    case 'crossfadeLoop':
+      return `${SAMPLE_EDIT_NAMES.crossfadeLoop}: ${ms(edit.start)} to ${ms(edit.end)}, ${ms(edit.frames)} ${edit.curve}`;
+    default:
+      return SAMPLE_EDIT_NAMES[edit.type];
+  }
+}
@@ -0,0 +1,121 @@
+import JSZip from 'jszip';
+import { readSndHeader, SND_NAME_LENGTH } from './akaiSnd';
+
+export interface LibraryFile {
+  name: string; // File name without directories
+  data: ArrayBuffer;
+}
+
+export interface SampleLibrary {
+  programs: LibraryFile[];
+  sequences: LibraryFile[]; // .SEQ, .ALL and .MID files
+  samples: Map<string, LibraryFile>;
+}
+
+// Names are matched the way the MPC displays them: no extension, upper case,
+// no surrounding or repeated spaces
+export function normalizeSampleName(name: string): string {
+  return name
+    .replace(/^.*[\\/]/, '')
+    .replace(/\.snd$/i, '')
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function hasExtension(name: string, extension: string): boolean {
+  return name.toLowerCase().endsWith(extension);
+}
+
+// Read every file out of a zip archive, skipping directories and macOS metadata
+export async function readZipFiles(zipData: ArrayBuffer | Blob): Promise<LibraryFile[]> {
+  const zip = await JSZip.loadAsync(zipData);
+  const entries: JSZip.JSZipObject[] = [];
+  zip.forEach((path, entry) => {
+    if (!entry.dir && !path.startsWith('__MACOSX/')) entries.push(entry);
+  });
+  return Promise.all(entries.map(async entry => ({
+    name: entry.name.replace(/^.*\//, ''),
+    data: await entry.async('arraybuffer'),
+  })));
+}
+
+function readDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [file];
+  }
+  if (!entry.isDirectory) return [];
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const files: File[] = [];
+  // readEntries returns results in batches until it returns an empty array
+  let batch = await readDirectoryEntries(reader);
+  while (batch.length > 0) {
+    for (const child of batch) {
+      files.push(...(await collectEntryFiles(child)));
+    }
+    batch = await readDirectoryEntries(reader);
+  }
+  return files;
+}
+
+// Collect dropped files, walking into dropped folders
+export async function getDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    files.push(...(await collectEntryFiles(entry)));
+  }
+  return files;
+}
+
+// Turn a set of files (SNDs, PGMs, sequences and zips of any of them) into a library
+// indexed by both the SND file name and the name stored in its header
+export async function buildSampleLibrary(files: File[]): Promise<SampleLibrary> {
+  const library: SampleLibrary = { programs: [], sequences: [], samples: new Map() };
+  const all: LibraryFile[] = [];
+
+  for (const file of files) {
+    if (hasExtension(file.name, '.zip')) {
+      all.push(...(await readZipFiles(file)));
+    } else {
+      all.push({ name: file.name, data: await file.arrayBuffer() });
+    }
+  }
+
+  for (const file of all) {
+    if (hasExtension(file.name, '.pgm')) {
+      library.programs.push(file);
+    } else if (['.seq', '.all', '.mid', '.midi'].some(extension => hasExtension(file.name, extension))) {
+      library.sequences.push(file);
+    } else if (hasExtension(file.name, '.snd')) {
+      library.samples.set(normalizeSampleName(file.name), file);
+      try {
+        const headerName = normalizeSampleName(readSndHeader(file.data).name);
+        if (headerName && !library.samples.has(headerName)) {
+          library.samples.set(headerName, file);
+        }
+      } catch (error) {
+        console.warn(`Skipping header name for ${file.name}:`, error);
+      }
+    }
+  }
+  return library;
+}
+
+// Find the SND a program refers to. SND headers only hold 12 characters, so
+// fall back to the truncated name when the full program name isn't there.
+export function findLibrarySample(library: SampleLibrary, sampleName: string): LibraryFile | undefined {
+  const name = normalizeSampleName(sampleName);
+  if (!name) return undefined;
+  return library.samples.get(name) ?? library.samples.get(name.slice(0, SND_NAME_LENGTH).trim());
+}
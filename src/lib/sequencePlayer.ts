@@ -0,0 +1,165 @@
+import {
+  getSequenceLengthTicks,
+  getTicksPerBar,
+  SEQ_PPQN,
+  SeqNoteEvent,
+  SeqSequence,
+  SeqTrack,
+  ticksToSeconds,
+} from './akaiSeq';
+import { MpcProgramPlayer } from './programPlayer';
+
+interface QueuedNote {
+  track: SeqTrack;
+  event: SeqNoteEvent;
+}
+
+// How often the scheduler wakes up and how far ahead it schedules, in seconds
+const SCHEDULER_INTERVAL = 0.025;
+const SCHEDULE_AHEAD = 0.1;
+
+/**
+ * Plays a sequence's drum tracks through a program player. Notes are handed to
+ * Web Audio a little ahead of time so playback stays tight when the main
+ * thread is busy.
+ *
+ * MIDI tracks have nothing to sound on here and are skipped, as are muted
+ * tracks. Every drum track plays the loaded program: the track program
+ * numbers and program change events are kept in the sequence but not acted on.
+ * At the end of the sequence playback loops back to the loop bar, or stops
+ * when looping is off.
+ */
+export class SequencePlayer {
+  onstop: (() => void) | null = null;
+
+  private sequence: SeqSequence | null = null;
+  private notes: QueuedNote[] = [];
+  private tempo = 120;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private nextNote = 0;
+  // The tick being played at anchorTime, everything else is worked out from these
+  private anchorTick = 0;
+  private anchorTime = 0;
+
+  constructor(private readonly player: MpcProgramPlayer) {}
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  get currentTempo(): number {
+    return this.tempo;
+  }
+
+  getSequence(): SeqSequence | null {
+    return this.sequence;
+  }
+
+  load(sequence: SeqSequence): void {
+    this.stop();
+    this.sequence = sequence;
+    this.tempo = sequence.tempo;
+    this.notes = [];
+    sequence.tracks
+      .filter(track => track.type === 'drum')
+      .forEach(track => {
+        track.events.forEach(event => {
+          if (event.type === 'note') this.notes.push({ track, event });
+        });
+      });
+    this.notes.sort((a, b) => a.event.tick - b.event.tick);
+  }
+
+  // Change tempo without jumping, playback carries on from where it is
+  setTempo(bpm: number): void {
+    const context = this.player.context;
+    if (this.isPlaying && context && context.currentTime > this.anchorTime) {
+      this.anchorTick = this.getPosition();
+      this.anchorTime = context.currentTime;
+    }
+    this.tempo = Math.max(30, Math.min(300, bpm));
+  }
+
+  async play(fromTick = 0): Promise<void> {
+    const context = this.player.context;
+    if (!context || !this.sequence) return;
+    this.stop();
+    await this.player.resume();
+
+    this.anchorTick = Math.max(0, Math.min(fromTick, getSequenceLengthTicks(this.sequence)));
+    this.anchorTime = context.currentTime + 0.05;
+    this.nextNote = this.findNote(this.anchorTick);
+    this.timer = setInterval(() => this.schedule(), SCHEDULER_INTERVAL * 1000);
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer === null) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.player.stopAll();
+    this.onstop?.();
+  }
+
+  // Tick being heard right now
+  getPosition(): number {
+    const context = this.player.context;
+    if (!context || !this.sequence || !this.isPlaying) return 0;
+    const elapsed = ((context.currentTime - this.anchorTime) * this.tempo * SEQ_PPQN) / 60;
+    if (elapsed >= 0) return this.anchorTick + elapsed;
+    // Already scheduled into the next pass, still hearing the end of this one
+    return Math.max(0, getSequenceLengthTicks(this.sequence) + elapsed);
+  }
+
+  private get loopStartTick(): number | null {
+    if (!this.sequence || this.sequence.loopToBar === 0) return null;
+    const tick = (this.sequence.loopToBar - 1) * getTicksPerBar(this.sequence.timeSignature);
+    return tick < getSequenceLengthTicks(this.sequence) ? tick : null;
+  }
+
+  private timeOfTick(tick: number): number {
+    return this.anchorTime + ticksToSeconds(tick - this.anchorTick, this.tempo);
+  }
+
+  private findNote(tick: number): number {
+    const index = this.notes.findIndex(queued => queued.event.tick >= tick);
+    return index === -1 ? this.notes.length : index;
+  }
+
+  private schedule(): void {
+    const context = this.player.context;
+    if (!context || !this.sequence) return;
+    const length = getSequenceLengthTicks(this.sequence);
+    const horizon = context.currentTime + SCHEDULE_AHEAD;
+
+    while (true) {
+      const queued = this.notes[this.nextNote];
+      if (queued && queued.event.tick < length) {
+        const when = this.timeOfTick(queued.event.tick);
+        if (when >= horizon) return;
+        this.nextNote++;
+        if (!queued.track.muted) this.playNote(queued.event, when);
+        continue;
+      }
+
+      // Nothing left in this pass: wrap to the loop bar or stop at the end
+      const end = this.timeOfTick(length);
+      const loopStart = this.loopStartTick;
+      if (loopStart === null) {
+        if (context.currentTime >= end) this.stop();
+        return;
+      }
+      if (end >= horizon) return;
+      this.anchorTick = loopStart;
+      this.anchorTime = end;
+      this.nextNote = this.findNote(loopStart);
+    }
+  }
+
+  private playNote(event: SeqNoteEvent, when: number): void {
+    const voice = this.player.playNote(event.note, event.velocity, when);
+    if (voice) {
+      this.player.releaseVoice(voice, when + ticksToSeconds(Math.max(1, event.duration), this.tempo));
+    }
+  }
+}
@@ -0,0 +1,330 @@
+import {
+  AkaiSndHeader,
+  getSndLoopBounds,
+  SND_LOOP_HOLD,
+  SND_LOOP_IN_RELEASE,
+  SND_LOOP_NONE,
+  SND_LOOP_PLAY_TO_END,
+  SND_LOOP_UNTIL_RELEASE,
+  SND_MAX_LOOPS,
+  SndLoopMode,
+  SndSample,
+  getSndSampleRate,
+  sndDataToFloat,
+} from './akaiSnd';
+
+export interface SndLoopRegion {
+  start: number; // First frame of the loop
+  end: number;   // Frame the loop jumps back from
+  dwell: number; // Seconds to stay in the loop, Infinity for hold
+}
+
+export interface SndPlaybackPlan {
+  start: number;
+  end: number;
+  loopMode: SndLoopMode;
+  loops: SndLoopRegion[];
+}
+
+type PlaybackStep =
+  | { type: 'play'; from: number; to: number }
+  | { type: 'loop'; loop: SndLoopRegion };
+
+interface ScheduledStep {
+  step: PlaybackStep;
+  when: number;
+  until: number;
+  source: AudioBufferSourceNode;
+}
+
+export interface SndEnvelope {
+  attack: number; // Seconds to ramp up to the voice level
+  decay?: number; // Seconds to decay to silence straight after the attack
+}
+
+interface EnvelopeState {
+  start: number;
+  attackEnd: number;
+  fadeStart: number;
+  fadeEnd: number;
+  fadeFrom: number;
+}
+
+const DEFAULT_RELEASE_TIME = 0.2;
+
+// Decode an SND sample into a mono AudioBuffer at its own sample rate
+export function createSndAudioBuffer(context: BaseAudioContext, sample: SndSample): AudioBuffer {
+  const buffer = context.createBuffer(1, Math.max(1, sample.data.length), getSndSampleRate(sample.header));
+  buffer.copyToChannel(sndDataToFloat(sample.data), 0);
+  return buffer;
+}
+
+// Decode a linked -L/-R pair into one stereo AudioBuffer. The pair shares the
+// left sample's rate; a shorter side is padded with silence.
+export function createSndStereoAudioBuffer(context: BaseAudioContext, left: SndSample, right: SndSample): AudioBuffer {
+  const length = Math.max(1, left.data.length, right.data.length);
+  const buffer = context.createBuffer(2, length, getSndSampleRate(left.header));
+  buffer.copyToChannel(sndDataToFloat(left.data), 0);
+  buffer.copyToChannel(sndDataToFloat(right.data), 1);
+  return buffer;
+}
+
+// Work out which loops a sample plays through, in order, honoring the number
+// of active loops, the first active loop and the loop mode.
+export function buildSndPlaybackPlan(header: AkaiSndHeader, numFrames: number): SndPlaybackPlan {
+  const end = Math.min(header.endMarker || numFrames, numFrames);
+  const start = Math.min(header.startMarker, end);
+  const plan: SndPlaybackPlan = { start, end, loopMode: header.loopMode, loops: [] };
+
+  if (header.loopMode === SND_LOOP_NONE || header.loopMode === SND_LOOP_PLAY_TO_END) {
+    return plan;
+  }
+
+  const count = Math.min(header.activeLoops, SND_MAX_LOOPS - header.firstActiveLoop);
+  let previousEnd = start;
+  for (let i = 0; i < count; i++) {
+    const loop = header.loops[header.firstActiveLoop + i];
+    const { start: loopStart, end: loopEnd } = getSndLoopBounds(loop);
+    // Skip empty loops and loops that would run backwards through the sample
+    if (loopEnd <= loopStart || loopEnd > end || loopEnd <= previousEnd || loopStart < start) {
+      continue;
+    }
+    plan.loops.push({
+      start: loopStart,
+      end: loopEnd,
+      dwell: loop.time >= SND_LOOP_HOLD ? Infinity : loop.time / 1000,
+    });
+    previousEnd = loopEnd;
+    if (loop.time >= SND_LOOP_HOLD) break;
+  }
+  return plan;
+}
+
+/**
+ * A single playing SND note. Plays the sample from its start marker, dwells in
+ * each active loop for its loop time (or until release for hold loops), then
+ * runs on to the end marker. Release follows the header's loop mode:
+ * - until release: leave the loop and play on to the end marker
+ * - in release: keep looping while the release fades out
+ * - none: fade out
+ * - play to sample end: ignored, the sample always plays through
+ */
+export class SndVoice {
+  onended: (() => void) | null = null;
+
+  private readonly gain: GainNode;
+  private readonly sampleRate: number;
+  private steps: ScheduledStep[] = [];
+  private released = false;
+  private stopped = false;
+  private level = 1;
+  private envelope: EnvelopeState | null = null;
+
+  constructor(
+    private readonly context: AudioContext,
+    private readonly buffer: AudioBuffer,
+    private readonly plan: SndPlaybackPlan,
+    destination: AudioNode,
+    private readonly playbackRate = 1,
+    private readonly releaseTime = DEFAULT_RELEASE_TIME
+  ) {
+    this.sampleRate = buffer.sampleRate;
+    this.gain = context.createGain();
+    this.gain.connect(destination);
+  }
+
+  get output(): GainNode {
+    return this.gain;
+  }
+
+  // Peak gain of the voice, set before start()
+  setLevel(level: number): void {
+    this.level = level;
+    this.gain.gain.value = level;
+  }
+
+  get isReleased(): boolean {
+    return this.released;
+  }
+
+  // Start playback, optionally from a frame other than the start marker and
+  // with an attack/decay envelope
+  start(when = this.context.currentTime, offset = this.plan.start, envelope: SndEnvelope = { attack: 0 }): void {
+    const attackEnd = when + envelope.attack;
+    this.envelope = { start: when, attackEnd, fadeStart: Infinity, fadeEnd: Infinity, fadeFrom: this.level };
+    if (envelope.attack > 0) {
+      this.gain.gain.setValueAtTime(0, when);
+      this.gain.gain.linearRampToValueAtTime(this.level, attackEnd);
+    } else {
+      this.gain.gain.setValueAtTime(this.level, when);
+    }
+
+    this.schedule(this.buildSteps(offset, this.plan.loops), when);
+
+    if (envelope.decay !== undefined) {
+      const fadeEnd = attackEnd + envelope.decay;
+      this.gain.gain.linearRampToValueAtTime(0, fadeEnd);
+      this.envelope = { ...this.envelope, fadeStart: attackEnd, fadeEnd, fadeFrom: this.level };
+      this.stopSourcesAfter(fadeEnd);
+    }
+  }
+
+  // Note-off, following the sample's loop mode. A fade time applies a release
+  // in every mode except play to sample end, otherwise only modes that stay
+  // in the loop fade out.
+  release(when = this.context.currentTime, fadeTime?: number): void {
+    if (this.released || this.stopped) return;
+    this.released = true;
+
+    switch (this.plan.loopMode) {
+      case SND_LOOP_PLAY_TO_END:
+        return;
+      case SND_LOOP_UNTIL_RELEASE: {
+        const position = this.getPosition(when);
+        this.cancelSteps(when);
+        this.schedule(this.buildSteps(position, []), when);
+        if (fadeTime !== undefined) this.fadeOut(when, fadeTime);
+        return;
+      }
+      case SND_LOOP_IN_RELEASE:
+      case SND_LOOP_NONE:
+      default:
+        this.fadeOut(when, fadeTime ?? this.releaseTime);
+    }
+  }
+
+  // Fade out over the given time and stop, used for release and voice stealing
+  fadeOut(when: number, time: number): void {
+    if (this.stopped) return;
+    if (this.envelope && this.envelope.fadeEnd <= when + time) return;
+
+    const from = this.levelAt(when);
+    this.gain.gain.cancelScheduledValues(when);
+    this.gain.gain.setValueAtTime(from, when);
+    this.gain.gain.linearRampToValueAtTime(0, when + time);
+    if (this.envelope) {
+      this.envelope = { ...this.envelope, fadeStart: when, fadeEnd: when + time, fadeFrom: from };
+    }
+    this.stopSourcesAfter(when + time);
+  }
+
+  // Gain the envelope reaches at a time. Worked out here rather than read
+  // from the AudioParam, which only reports its current value.
+  private levelAt(time: number): number {
+    const envelope = this.envelope;
+    if (!envelope) return this.level;
+    if (time >= envelope.fadeEnd) return 0;
+    if (time >= envelope.fadeStart) {
+      return envelope.fadeFrom * (1 - (time - envelope.fadeStart) / (envelope.fadeEnd - envelope.fadeStart));
+    }
+    if (time < envelope.attackEnd) {
+      return this.level * Math.max(0, (time - envelope.start) / (envelope.attackEnd - envelope.start));
+    }
+    return this.level;
+  }
+
+  // Hard stop, no release
+  stop(when = this.context.currentTime): void {
+    if (this.stopped) return;
+    this.stopSourcesAfter(when);
+  }
+
+  // Sample frame being played at the given context time
+  getPosition(time = this.context.currentTime): number {
+    let current: ScheduledStep | undefined;
+    for (const scheduled of this.steps) {
+      if (scheduled.when <= time) current = scheduled;
+    }
+    if (!current) return this.steps.length > 0 ? this.stepStart(this.steps[0].step) : this.plan.start;
+
+    const elapsedFrames = (time - current.when) * this.sampleRate * this.playbackRate;
+    const { step } = current;
+    if (step.type === 'play') {
+      return Math.min(step.from + elapsedFrames, step.to);
+    }
+    const length = step.loop.end - step.loop.start;
+    return step.loop.start + (elapsedFrames % length);
+  }
+
+  // Only touch sources still playing at that time: a second stop() call
+  // replaces the first, which would stretch a timed loop.
+  private stopSourcesAfter(time: number): void {
+    this.steps.forEach(({ source, until }) => {
+      if (until > time) source.stop(time);
+    });
+  }
+
+  private stepStart(step: PlaybackStep): number {
+    return step.type === 'play' ? step.from : step.loop.start;
+  }
+
+  private buildSteps(offset: number, loops: SndLoopRegion[]): PlaybackStep[] {
+    const steps: PlaybackStep[] = [];
+    let position = offset;
+    for (const loop of loops) {
+      if (position >= loop.end) continue;
+      steps.push({ type: 'play', from: position, to: loop.end });
+      steps.push({ type: 'loop', loop });
+      position = loop.end;
+      if (loop.dwell === Infinity) return steps;
+    }
+    if (position < this.plan.end) {
+      steps.push({ type: 'play', from: position, to: this.plan.end });
+    }
+    return steps;
+  }
+
+  private schedule(steps: PlaybackStep[], when: number): void {
+    if (steps.length === 0) {
+      this.stopped = true;
+      this.gain.disconnect();
+      this.onended?.();
+      return;
+    }
+
+    let time = when;
+    steps.forEach((step, i) => {
+      const source = this.context.createBufferSource();
+      source.buffer = this.buffer;
+      source.playbackRate.value = this.playbackRate;
+      source.connect(this.gain);
+
+      if (step.type === 'play') {
+        const duration = (step.to - step.from) / this.sampleRate;
+        source.start(time, step.from / this.sampleRate, duration);
+        const until = time + duration / this.playbackRate;
+        this.steps.push({ step, when: time, until, source });
+        time = until;
+      } else {
+        source.loop = true;
+        source.loopStart = step.loop.start / this.sampleRate;
+        source.loopEnd = step.loop.end / this.sampleRate;
+        source.start(time, source.loopStart);
+        const until = time + step.loop.dwell;
+        this.steps.push({ step, when: time, until, source });
+        if (until !== Infinity) {
+          source.stop(until);
+          time = until;
+        }
+      }
+
+      if (i === steps.length - 1) {
+        source.onended = () => {
+          this.stopped = true;
+          this.gain.disconnect();
+          this.onended?.();
+        };
+      }
+    });
+  }
+
+  // Drop the scheduled steps from a time on, so a release can be scheduled
+  // ahead of time by a sequencer
+  private cancelSteps(when: number): void {
+    this.steps.forEach(({ source, until }) => {
+      source.onended = null;
+      if (until > when) source.stop(when);
+    });
+    this.steps = [];
+  }
+}
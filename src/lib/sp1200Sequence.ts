@@ -0,0 +1,16 @@
+/**
+ * SP-1200 sequence types and constants, shared by the disk format in
+ * `app/lib/sp1200` and the MIDI conversion in `midiFile`.
+ */
+export const SP1200_MAX_PADS = 32; // 8 pads per bank, 4 banks
+export const SP1200_DEFAULT_TEMPO = 100;
+export const SP1200_STEPS_PER_BEAT = 4; // Default step resolution, 16th notes
+export const SP1200_SWING_VALUES = [50, 54, 58, 63, 67, 71]; // Swing settings in percent
+
+export interface SP1200Sequence {
+  name: string;
+  tempo: number;
+  steps: number[][]; // Pads hit on each step, numbered 0-31 as bank index * 8 + pad - 1
+  stepsPerBeat?: number; // Step resolution, defaults to 4 (16th notes)
+  swing?: number; // Percent, 50 (straight) to 71, defaults to 50
+}
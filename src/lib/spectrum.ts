@@ -0,0 +1,184 @@
+/**
+ * FFT-based spectrum and spectrogram analysis, for comparing a source with
+ * its converted result (e.g. how much aliasing the SP-1200 conversion adds).
+ *
+ * Frames are Hann windowed and levels are in dB relative to a full-scale
+ * sine, so a 0 dBFS tone peaks at 0 dB whatever the FFT size. The spectrum
+ * averages the power of half-overlapping frames across the range (Welch's
+ * method); the spectrogram keeps one column per hop.
+ */
+export interface Spectrum {
+  sampleRate: number;
+  fftSize: number;
+  db: Float32Array; // fftSize / 2 + 1 bins, DC to Nyquist
+}
+
+export interface Spectrogram {
+  sampleRate: number;
+  fftSize: number;
+  hop: number; // Frames between columns
+  columns: Float32Array[]; // dB per bin, as in Spectrum
+}
+
+export const FFT_SIZES = [512, 1024, 2048, 4096, 8192];
+export const SPECTRUM_FLOOR_DB = -120;
+// Spectrogram columns for a whole sample; longer samples get a larger hop
+const SPECTROGRAM_MAX_COLUMNS = 2048;
+
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+const windowCache = new Map<number, Float64Array>();
+
+function isPowerOfTwo(n: number): boolean {
+  return n >= 2 && (n & (n - 1)) === 0;
+}
+
+function getTwiddles(size: number): { cos: Float64Array; sin: Float64Array } {
+  let twiddles = twiddleCache.get(size);
+  if (!twiddles) {
+    const cos = new Float64Array(size / 2);
+    const sin = new Float64Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      cos[i] = Math.cos((-2 * Math.PI * i) / size);
+      sin[i] = Math.sin((-2 * Math.PI * i) / size);
+    }
+    twiddles = { cos, sin };
+    twiddleCache.set(size, twiddles);
+  }
+  return twiddles;
+}
+
+function getHannWindow(size: number): Float64Array {
+  let window = windowCache.get(size);
+  if (!window) {
+    window = new Float64Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+    }
+    windowCache.set(size, window);
+  }
+  return window;
+}
+
+// In-place radix-2 FFT; the length must be a power of two
+export function fft(re: Float64Array, im: Float64Array): void {
+  const size = re.length;
+  if (!isPowerOfTwo(size) || im.length !== size) {
+    throw new Error(`Invalid FFT size: ${size}`);
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      const tr = re[i];
+      re[i] = re[j];
+      re[j] = tr;
+      const ti = im[i];
+      im[i] = im[j];
+      im[j] = ti;
+    }
+  }
+
+  const { cos, sin } = getTwiddles(size);
+  for (let length = 2; length <= size; length <<= 1) {
+    const half = length >> 1;
+    const step = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const xr = re[b] * wr - im[b] * wi;
+        const xi = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - xr;
+        im[b] = im[a] - xi;
+        re[a] += xr;
+        im[a] += xi;
+      }
+    }
+  }
+}
+
+// Power per bin of one windowed frame starting at `offset`; the parts before
+// 0 or past `end` are zero padded
+function getFramePower(samples: ArrayLike<number>, offset: number, end: number, fftSize: number): Float64Array {
+  const window = getHannWindow(fftSize);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  for (let i = Math.max(0, -offset); i < fftSize && offset + i < end; i++) {
+    re[i] = samples[offset + i] * window[i];
+  }
+  fft(re, im);
+  const power = new Float64Array(fftSize / 2 + 1);
+  for (let bin = 0; bin < power.length; bin++) {
+    power[bin] = re[bin] * re[bin] + im[bin] * im[bin];
+  }
+  return power;
+}
+
+// Mean power to dB relative to a full-scale sine
+function powerToDb(power: Float64Array, frames: number, fftSize: number): Float32Array {
+  // A windowed sine of amplitude 1 has magnitude sum(window) / 2 = fftSize / 4
+  const reference = (fftSize / 4) * (fftSize / 4);
+  const db = new Float32Array(power.length);
+  for (let bin = 0; bin < power.length; bin++) {
+    const level = power[bin] / Math.max(1, frames) / reference;
+    db[bin] = level > 0 ? Math.max(SPECTRUM_FLOOR_DB, 10 * Math.log10(level)) : SPECTRUM_FLOOR_DB;
+  }
+  return db;
+}
+
+// Average spectrum of samples [start, end), at -1..1 full scale
+export function computeSpectrum(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  fftSize = 4096,
+  start = 0,
+  end = samples.length
+): Spectrum {
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`Invalid FFT size: ${fftSize}`);
+  }
+  const from = Math.max(0, Math.min(samples.length, Math.floor(start)));
+  const to = Math.max(from, Math.min(samples.length, Math.ceil(end)));
+  const power = new Float64Array(fftSize / 2 + 1);
+  const hop = fftSize / 2;
+  let frames = 0;
+  // Always at least one frame, zero padded when the range is short
+  for (let offset = from; frames === 0 || offset + fftSize <= to; offset += hop) {
+    const frame = getFramePower(samples, offset, to, fftSize);
+    for (let bin = 0; bin < power.length; bin++) {
+      power[bin] += frame[bin];
+    }
+    frames++;
+  }
+  return { sampleRate, fftSize, db: powerToDb(power, frames, fftSize) };
+}
+
+// Spectrogram of a whole sample, at -1..1 full scale. The hop is a quarter
+// of the FFT size, or larger to stay within SPECTROGRAM_MAX_COLUMNS.
+export function computeSpectrogram(
+  samples: ArrayLike<number>,
+  sampleRate: number,
+  fftSize = 1024
+): Spectrogram {
+  if (!isPowerOfTwo(fftSize)) {
+    throw new Error(`Invalid FFT size: ${fftSize}`);
+  }
+  const hop = Math.max(fftSize / 4, Math.ceil(samples.length / SPECTROGRAM_MAX_COLUMNS));
+  const columns: Float32Array[] = [];
+  // Columns are centred on their position, so the first frame starts early
+  for (let center = 0; center < samples.length; center += hop) {
+    const power = getFramePower(samples, center - fftSize / 2, samples.length, fftSize);
+    columns.push(powerToDb(power, 1, fftSize));
+  }
+  return { sampleRate, fftSize, hop, columns };
+}
+
+// Centre frequency of an FFT bin in Hz
+export function getBinFrequency(bin: number, fftSize: number, sampleRate: number): number {
+  return (bin * sampleRate) / fftSize;
+}
@@ -0,0 +1,78 @@
+import { PgmNote } from './akaiPgm';
+import { SndVoice } from './sndVoice';
+
+export const MPC3000_VOICE_LIMIT = 32;
+
+// Short fade used when a voice is cut, long enough to avoid a click
+const CUT_TIME = 0.005;
+
+interface ActiveVoice {
+  voice: SndVoice;
+  note: number;
+  muteGroup: number;
+  startedAt: number;
+}
+
+/**
+ * Keeps track of sounding voices and decides which ones to cut when a new
+ * note starts, the way the MPC3000 does:
+ * - mute groups: a note cuts every other note in its group (hi-hat choke)
+ * - mono notes: a retrigger cuts the note's previous voice
+ * - voice limit: the oldest voice is stolen, released voices first
+ */
+export class VoiceAllocator {
+  private voices: ActiveVoice[] = [];
+
+  constructor(private voiceLimit = MPC3000_VOICE_LIMIT) {}
+
+  get limit(): number {
+    return this.voiceLimit;
+  }
+
+  get activeCount(): number {
+    return this.voices.length;
+  }
+
+  setLimit(limit: number): void {
+    this.voiceLimit = Math.max(1, Math.floor(limit));
+  }
+
+  // Cut whatever the new note displaces, then make room under the voice limit
+  prepare(note: PgmNote, when: number): void {
+    this.voices
+      .filter(active =>
+        (note.muteGroup > 0 && active.muteGroup === note.muteGroup && active.note !== note.note) ||
+        (note.voiceOverlap === 'mono' && active.note === note.note)
+      )
+      .forEach(active => this.cut(active, when));
+
+    while (this.voices.length >= this.voiceLimit) {
+      const released = this.voices.filter(active => active.voice.isReleased);
+      const pool = released.length > 0 ? released : this.voices;
+      const oldest = pool.reduce((a, b) => (b.startedAt < a.startedAt ? b : a));
+      this.cut(oldest, when);
+    }
+  }
+
+  add(voice: SndVoice, note: PgmNote, when: number): void {
+    this.voices.push({ voice, note: note.note, muteGroup: note.muteGroup, startedAt: when });
+  }
+
+  remove(voice: SndVoice): void {
+    this.voices = this.voices.filter(active => active.voice !== voice);
+  }
+
+  voicesForNote(note: number): SndVoice[] {
+    return this.voices.filter(active => active.note === note).map(active => active.voice);
+  }
+
+  stopAll(): void {
+    this.voices.forEach(active => active.voice.stop());
+    this.voices = [];
+  }
+
+  private cut(active: ActiveVoice, when: number): void {
+    active.voice.fadeOut(when, CUT_TIME);
+    this.remove(active.voice);
+  }
+}
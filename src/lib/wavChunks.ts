@@ -0,0 +1,173 @@
+/**
+ * RIFF sampler metadata chunks, as written by hardware and software samplers.
+ * All values are little-endian.
+ *
+ * smpl, 36 bytes plus 24 per loop:
+ *   0   manufacturer                 4   product
+ *   8   sample period (nanoseconds)  12  MIDI unity note
+ *   16  pitch fraction               fraction of a semitone above the unity
+ *                                    note, 0x80000000 = 50 cents
+ *   20  SMPTE format                 24  SMPTE offset
+ *   28  number of loops              32  sampler data size
+ *   36  loops:
+ *         +0  cue point id           +4  type (0 = forward, 1 = alternating,
+ *                                             2 = backward)
+ *         +8  start frame            +12 end frame, inclusive
+ *         +16 fraction               +20 play count (0 = infinite)
+ *
+ * inst, 7 bytes (padded to 8):
+ *   0 unshifted note   1 fine tune (cents, signed)   2 gain (dB, signed)
+ *   3 low note         4 high note                   5 low velocity
+ *   6 high velocity
+ *
+ * cue , 4 bytes plus 24 per point:
+ *   0   number of points
+ *   4   points: +0 id, +4 play order position, +8 data chunk id ('data'),
+ *               +12 chunk start, +16 block start, +20 frame offset
+ */
+export type WavLoopType = 'forward' | 'alternating' | 'backward';
+
+export interface WavLoop {
+  start: number;
+  end: number; // Exclusive, like SND loop markers; written to smpl as end - 1
+  type: WavLoopType;
+  playCount: number; // 0 = infinite
+}
+
+export interface WavSamplerInfo {
+  unityNote: number;
+  pitchFraction: number; // Cents above the unity note, 0 to under 100
+  loops: WavLoop[];
+}
+
+export interface WavInstrumentInfo {
+  unshiftedNote: number;
+  fineTune: number; // Cents, -50 to +50
+  gain: number; // dB
+  lowNote: number;
+  highNote: number;
+  lowVelocity: number;
+  highVelocity: number;
+}
+
+export interface WavCuePoint {
+  id: number;
+  position: number; // Frame offset into the data chunk
+}
+
+export interface WavMetadata {
+  sampler?: WavSamplerInfo;
+  instrument?: WavInstrumentInfo;
+  cues?: WavCuePoint[];
+}
+
+const SMPL_HEADER_SIZE = 36;
+const SMPL_LOOP_SIZE = 24;
+const INST_SIZE = 7;
+const CUE_POINT_SIZE = 24;
+const LOOP_TYPES: WavLoopType[] = ['forward', 'alternating', 'backward'];
+
+function createChunk(id: string, size: number): { bytes: Uint8Array; view: DataView } {
+  // Chunks are padded to an even length
+  const bytes = new Uint8Array(8 + size + (size % 2));
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < 4; i++) {
+    bytes[i] = id.charCodeAt(i);
+  }
+  view.setUint32(4, size, true);
+  return { bytes, view };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, Math.round(value)));
+}
+
+// A complete smpl chunk, header included
+export function createSmplChunk(info: WavSamplerInfo, sampleRate: number): Uint8Array {
+  const { bytes, view } = createChunk('smpl', SMPL_HEADER_SIZE + info.loops.length * SMPL_LOOP_SIZE);
+  const body = 8;
+  view.setUint32(body + 8, Math.round(1e9 / sampleRate), true);
+  view.setUint32(body + 12, clamp(info.unityNote, 0, 127), true);
+  view.setUint32(body + 16, Math.min(0xFFFFFFFF, Math.round((info.pitchFraction / 100) * 0x100000000)), true);
+  view.setUint32(body + 28, info.loops.length, true);
+  info.loops.forEach((loop, i) => {
+    const offset = body + SMPL_HEADER_SIZE + i * SMPL_LOOP_SIZE;
+    view.setUint32(offset, i, true);
+    view.setUint32(offset + 4, LOOP_TYPES.indexOf(loop.type), true);
+    view.setUint32(offset + 8, Math.max(0, Math.round(loop.start)), true);
+    view.setUint32(offset + 12, Math.max(0, Math.round(loop.end) - 1), true);
+    view.setUint32(offset + 20, Math.max(0, Math.round(loop.playCount)), true);
+  });
+  return bytes;
+}
+
+// A complete inst chunk, header included
+export function createInstChunk(info: WavInstrumentInfo): Uint8Array {
+  const { bytes, view } = createChunk('inst', INST_SIZE);
+  const body = 8;
+  view.setUint8(body, clamp(info.unshiftedNote, 0, 127));
+  view.setInt8(body + 1, clamp(info.fineTune, -50, 50));
+  view.setInt8(body + 2, clamp(info.gain, -64, 64));
+  view.setUint8(body + 3, clamp(info.lowNote, 0, 127));
+  view.setUint8(body + 4, clamp(info.highNote, 0, 127));
+  view.setUint8(body + 5, clamp(info.lowVelocity, 1, 127));
+  view.setUint8(body + 6, clamp(info.highVelocity, 1, 127));
+  return bytes;
+}
+
+// Read an smpl chunk body. Loops that don't fit the declared size are dropped.
+export function readSmplChunk(view: DataView, offset: number, size: number): WavSamplerInfo {
+  if (size < SMPL_HEADER_SIZE) {
+    throw new Error('Invalid WAV: smpl chunk too small');
+  }
+  const declaredLoops = view.getUint32(offset + 28, true);
+  const numLoops = Math.min(declaredLoops, Math.floor((size - SMPL_HEADER_SIZE) / SMPL_LOOP_SIZE));
+  if (numLoops < declaredLoops) {
+    console.warn(`smpl chunk declares ${declaredLoops} loops but holds ${numLoops}`);
+  }
+  const loops: WavLoop[] = [];
+  for (let i = 0; i < numLoops; i++) {
+    const loopOffset = offset + SMPL_HEADER_SIZE + i * SMPL_LOOP_SIZE;
+    loops.push({
+      type: LOOP_TYPES[view.getUint32(loopOffset + 4, true)] ?? 'forward',
+      start: view.getUint32(loopOffset + 8, true),
+      end: view.getUint32(loopOffset + 12, true) + 1,
+      playCount: view.getUint32(loopOffset + 20, true),
+    });
+  }
+  return {
+    unityNote: Math.min(127, view.getUint32(offset + 12, true)),
+    pitchFraction: (view.getUint32(offset + 16, true) / 0x100000000) * 100,
+    loops,
+  };
+}
+
+// Read an inst chunk body
+export function readInstChunk(view: DataView, offset: number, size: number): WavInstrumentInfo {
+  if (size < INST_SIZE) {
+    throw new Error('Invalid WAV: inst chunk too small');
+  }
+  return {
+    unshiftedNote: Math.min(127, view.getUint8(offset)),
+    fineTune: view.getInt8(offset + 1),
+    gain: view.getInt8(offset + 2),
+    lowNote: view.getUint8(offset + 3),
+    highNote: view.getUint8(offset + 4),
+    lowVelocity: view.getUint8(offset + 5),
+    highVelocity: view.getUint8(offset + 6),
+  };
+}
+
+// Read a cue chunk body, sorted by position
+export function readCueChunk(view: DataView, offset: number, size: number): WavCuePoint[] {
+  if (size < 4) {
+    throw new Error('Invalid WAV: cue chunk too small');
+  }
+  const numPoints = Math.min(view.getUint32(offset, true), Math.floor((size - 4) / CUE_POINT_SIZE));
+  const cues: WavCuePoint[] = [];
+  for (let i = 0; i < numPoints; i++) {
+    const pointOffset = offset + 4 + i * CUE_POINT_SIZE;
+    cues.push({ id: view.getUint32(pointOffset, true), position: view.getUint32(pointOffset + 20, true) });
+  }
+  return cues.sort((a, b) => a.position - b.position);
+}
@@ -0,0 +1,34 @@
+type SampleData = Int16Array | Float32Array;
+
+// True when the signal changes sign (or touches zero) between i - 1 and i
+export function isZeroCrossing(data: SampleData, i: number): boolean {
+  if (i <= 0 || i >= data.length) return false;
+  const previous = data[i - 1];
+  const current = data[i];
+  return current === 0 || (previous < 0) !== (current < 0);
+}
+
+// Find the zero crossing closest to index, searching up to maxDistance frames
+// either side. Returns index unchanged when there is none in range.
+export function findNearestZeroCrossing(data: SampleData, index: number, maxDistance = 2048): number {
+  const center = Math.max(0, Math.min(data.length - 1, Math.round(index)));
+  if (isZeroCrossing(data, center)) return center;
+
+  for (let distance = 1; distance <= maxDistance; distance++) {
+    const before = center - distance;
+    const after = center + distance;
+    if (before < 1 && after >= data.length) break;
+    if (isZeroCrossing(data, before)) return before;
+    if (isZeroCrossing(data, after)) return after;
+  }
+  return center;
+}
+
+// Find every zero crossing in [start, end)
+export function findZeroCrossings(data: SampleData, start = 0, end = data.length): number[] {
+  const crossings: number[] = [];
+  for (let i = Math.max(1, start); i < Math.min(end, data.length); i++) {
+    if (isZeroCrossing(data, i)) crossings.push(i);
+  }
+  return crossings;
+}
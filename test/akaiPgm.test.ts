@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createPgmProgram, parsePgmFile, PGM_FILE_SIZE, PgmNoteVariationParameter, writePgmFile } from '../src/lib/akaiPgm';
+
+function createProgram() {
+  const program = createPgmProgram('ROUNDTRIP');
+  program.notes[2] = { ...program.notes[2], sampleName: 'KICK', tuning: -3.5, level: 90, pan: 20, muteGroup: 4, voiceOverlap: 'mono' };
+  program.noteVariation = { note: 37, parameter: 'decay', low: 10, high: 80 };
+  return program;
+}
+
+test('a written program parses back to the same values and bytes', () => {
+  const written = new Uint8Array(writePgmFile(createProgram()));
+  assert.equal(written.length, PGM_FILE_SIZE);
+
+  const parsed = parsePgmFile(written.buffer);
+  assert.equal(parsed.name, 'ROUNDTRIP');
+  assert.equal(parsed.notes[2].sampleName, 'KICK');
+  assert.equal(parsed.notes[2].tuning, -3.5);
+  assert.equal(parsed.notes[2].muteGroup, 4);
+  assert.equal(parsed.notes[2].voiceOverlap, 'mono');
+  assert.deepEqual(parsed.noteVariation, { note: 37, parameter: 'decay', low: 10, high: 80 });
+  assert.deepEqual(new Uint8Array(writePgmFile(parsed)), written);
+});
+
+test('bytes the program does not model survive a round trip', () => {
+  const bytes = new Uint8Array(writePgmFile(createProgram()));
+  bytes[0x856] = 0xA5; // Reserved
+  bytes[0x052 + 31] = 0x5A; // Reserved byte of the first note block
+  const rewritten = new Uint8Array(writePgmFile(parsePgmFile(bytes.buffer)));
+  assert.deepEqual(rewritten, bytes);
+});
+
+test('an unknown note variation parameter is rejected', () => {
+  const program = createProgram();
+  program.noteVariation.parameter = 'pitch' as PgmNoteVariationParameter;
+  assert.throws(() => writePgmFile(program), /Note variation parameter must be one of tune, decay, attack, filter, got pitch/);
+});
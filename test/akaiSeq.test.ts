@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  createSeqSequence,
+  createSeqTrack,
+  parseAllFile,
+  parseSeqFile,
+  SeqSequence,
+  writeAllFile,
+  writeSeqFile,
+} from '../src/lib/akaiSeq';
+
+function createSequence(name: string): SeqSequence {
+  const sequence = createSeqSequence(name, 4);
+  sequence.tempo = 93.5;
+  sequence.timeSignature = { numerator: 7, denominator: 8 };
+  const drums = createSeqTrack(0, 'DRUMS');
+  drums.events = [
+    { type: 'program', tick: 0, program: 3 },
+    { type: 'note', tick: 0, note: 37, velocity: 127, duration: 24 },
+    { type: 'note', tick: 96, note: 38, velocity: 64, duration: 12 },
+  ];
+  const bass = { ...createSeqTrack(11, 'BASS'), type: 'midi' as const, midiChannel: 2, muted: true };
+  bass.events = [{ type: 'note', tick: 48, note: 40, velocity: 100, duration: 96 }];
+  sequence.tracks = [drums, bass];
+  return sequence;
+}
+
+test('a written sequence parses back to the same values and bytes', () => {
+  const written = new Uint8Array(writeSeqFile(createSequence('GROOVE')));
+  const parsed = parseSeqFile(written.buffer);
+
+  assert.equal(parsed.name, 'GROOVE');
+  assert.equal(parsed.tempo, 93.5);
+  assert.deepEqual(parsed.timeSignature, { numerator: 7, denominator: 8 });
+  assert.equal(parsed.bars, 4);
+  assert.deepEqual(parsed.tracks.map(track => [track.index, track.name, track.type, track.midiChannel, track.muted]), [
+    [0, 'DRUMS', 'drum', 0, false],
+    [11, 'BASS', 'midi', 2, true],
+  ]);
+  assert.deepEqual(parsed.tracks[0].events, createSequence('GROOVE').tracks[0].events);
+  assert.deepEqual(new Uint8Array(writeSeqFile(parsed)), written);
+});
+
+test('header bytes the sequence does not model survive a round trip', () => {
+  const bytes = new Uint8Array(writeSeqFile(createSequence('GROOVE')));
+  bytes[0x01A] = 0xA5; // Reserved
+  bytes[0x020 + 21] = 0x5A; // Reserved byte of the first track entry
+  const rewritten = new Uint8Array(writeSeqFile(parseSeqFile(bytes.buffer)));
+  assert.deepEqual(rewritten, bytes);
+});
+
+test('a written ALL file parses back to the same sequences and songs', () => {
+  const first = { ...createSequence('INTRO'), number: 1 };
+  const second = { ...createSequence('VERSE'), number: 5 };
+  const songs = [{ name: 'SONG', steps: [{ sequence: 1, repeats: 2 }, { sequence: 5, repeats: 4 }], loopToStep: 2 }];
+  const written = new Uint8Array(writeAllFile({ sequences: [first, second], songs }));
+  const parsed = parseAllFile(written.buffer);
+
+  assert.deepEqual(parsed.sequences.map(sequence => [sequence.number, sequence.name]), [[1, 'INTRO'], [5, 'VERSE']]);
+  assert.deepEqual(parsed.songs, songs);
+  assert.deepEqual(new Uint8Array(writeAllFile(parsed)), written);
+});
@@ -0,0 +1,36 @@
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { test } from 'node:test';
+
+const ROOT = path.resolve(__dirname, '..');
+const TSX = path.join(ROOT, 'node_modules', '.bin', 'tsx');
+const SAMPLER = path.join(ROOT, 'src', 'cli', 'sampler.ts');
+const KICK = path.join(ROOT, 'public', 'samples', 'test_kick.wav');
+const KICK_SECONDS = 33844 / 44100;
+
+function runSampler(args: string[], cwd: string) {
+  const result = spawnSync(TSX, [SAMPLER, ...args, '--json'], { cwd, encoding: 'utf8' });
+  return { status: result.status, stderr: result.stderr, result: result.status === 0 ? JSON.parse(result.stdout) : null };
+}
+
+test('the CLI runs from outside the repository', () => {
+  const cwd = mkdtempSync(path.join(tmpdir(), 'sampler-'));
+  try {
+    const converted = runSampler(['convert', KICK, '--to', 'sp12', '-o', 'kick.sp12'], cwd);
+    assert.equal(converted.status, 0, converted.stderr);
+    const info = runSampler(['info', 'kick.sp12'], cwd);
+    assert.equal(info.status, 0, info.stderr);
+    // Up to the end marker, not the block padding after it
+    const [sample] = info.result.samples;
+    assert.ok(Math.abs(sample.seconds - KICK_SECONDS) < 0.001, `${sample.seconds} seconds`);
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test('the CLI exits 2 on bad usage', () => {
+  assert.equal(runSampler(['convert', KICK, '--rate', '1000'], tmpdir()).status, 2);
+});
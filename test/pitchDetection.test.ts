@@ -0,0 +1,27 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { test } from 'node:test';
+import { decodeAudio, selectChannel } from '../src/lib/audioDecoder';
+import { detectPitch } from '../src/lib/pitchDetection';
+
+const KICK = path.resolve(__dirname, '..', 'public', 'samples', 'test_kick.wav');
+
+test('a kick drum has no pitch', () => {
+  const file = readFileSync(KICK);
+  const audio = decodeAudio(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer);
+  assert.equal(detectPitch(selectChannel(audio.channels, 'mix'), audio.sampleRate), null);
+});
+
+test('a decaying harmonic tone is detected', () => {
+  const sampleRate = 44100;
+  const samples = new Float32Array(sampleRate * 2);
+  for (let i = 0; i < samples.length; i++) {
+    const phase = (2 * Math.PI * 446 * i) / sampleRate;
+    samples[i] = (0.4 * Math.sin(phase) + 0.2 * Math.sin(2 * phase)) * Math.exp(-i / sampleRate);
+  }
+  const pitch = detectPitch(samples, sampleRate);
+  assert.ok(pitch);
+  assert.equal(pitch.note, 69);
+  assert.ok(Math.abs(pitch.cents - 23) <= 1, `${pitch.cents} cents`);
+});
@@ -0,0 +1,26 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { createSndHeader, SndSample } from '../src/lib/akaiSnd';
+import { applySampleEditsToSnd } from '../src/lib/sampleEdits';
+
+function createSample(): SndSample {
+  const data = new Int16Array(4096);
+  for (let i = 0; i < data.length; i++) data[i] = ((i * 40503) & 0xFFFF) - 32768;
+  return { header: createSndHeader({ name: 'EDIT', sampleWords: data.length, sampleRate: 44100 }), data };
+}
+
+test('trim and reverse keep the original SND words', () => {
+  const sample = createSample();
+  const { left } = applySampleEditsToSnd(sample, [{ type: 'trim', start: 100, end: 3000 }, { type: 'reverse' }]);
+  const expected = Array.from(sample.data.subarray(100, 3000)).reverse();
+  assert.deepEqual(Array.from(left.data), expected);
+});
+
+test('reapplying a trim does not drift', () => {
+  let sample = createSample();
+  const original = Array.from(sample.data);
+  for (let pass = 0; pass < 4; pass++) {
+    sample = applySampleEditsToSnd(sample, [{ type: 'trim', start: 0, end: sample.data.length }]).left;
+  }
+  assert.deepEqual(Array.from(sample.data), original);
+});
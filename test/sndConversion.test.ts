@@ -0,0 +1,22 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { parseSndFile } from '../src/lib/akaiSnd';
+import { encodeWav } from '../src/lib/audioEncoder';
+import { convertAudioToSnd } from '../src/lib/conversionEngine';
+
+// Every 16-bit word once, in a scrambled order
+function allWords(): Float32Array {
+  const samples = new Float32Array(65536);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = (((i * 40503) & 0xFFFF) - 32768) / 32768;
+  }
+  return samples;
+}
+
+test('a same-rate 16-bit WAV converts to SND bit-exact', () => {
+  const samples = allWords();
+  const [snd] = convertAudioToSnd(encodeWav([samples], 44100, 16), 'EXACT', { sampleRate: 44100 });
+  const { data } = parseSndFile(snd.data);
+  assert.equal(data.length, samples.length);
+  assert.ok(data.every((word, i) => word === samples[i] * 32768));
+});